@@ -5,6 +5,8 @@ import { Header } from './components/Layout/Header';
 import { StatusCardsBento } from './components/Dashboard/StatusCardsBento';
 import { TaskListPanel } from './components/Dashboard/TaskListPanel';
 import { TaskDetailPanel } from './components/Dashboard/TaskDetailPanel';
+import { UsagePage } from './components/Usage/UsagePage';
+import { PromptsPage } from './components/Prompts/PromptsPage';
 import type { NavItem, FilterStatus } from './types';
 
 export default function App() {
@@ -19,20 +21,34 @@ export default function App() {
     selectedTask,
     selectedTaskComments,
     selectedTaskLoading,
+    waitingTasks,
     selectTask,
     getRunningTaskByIdentifier,
     retryTask,
+    cancelTask,
+    approvePlan,
   } = useTaskMonitor();
 
   const runningTask = selectedTask
     ? getRunningTaskByIdentifier(selectedTask.identifier)
     : null;
+  const waitingTask = selectedTask
+    ? waitingTasks.find((t) => t.taskId === selectedTask.id) ?? null
+    : null;
 
   // Wrapper for retryTask to match TaskDetailPanel's onRetry signature
   const handleRetry = async (taskId: string): Promise<void> => {
     await retryTask(taskId);
   };
 
+  const handleCancel = async (taskId: string): Promise<void> => {
+    await cancelTask(taskId);
+  };
+
+  const handleApprovePlan = async (taskId: string): Promise<void> => {
+    await approvePlan(taskId);
+  };
+
   return (
     <div className="h-screen bg-bone flex overflow-hidden">
       {/* Sidebar */}
@@ -45,42 +61,52 @@ export default function App() {
 
         {/* Content */}
         <main className="flex-1 p-8 overflow-hidden min-h-0">
-          <div className="h-full flex flex-col gap-6">
-            {/* Status Cards Bento Grid */}
-            <StatusCardsBento
-              stats={stats}
-              activeFilter={activeFilter}
-              onFilterChange={setActiveFilter}
-            />
+          {activeNav === 'usage' ? (
+            <UsagePage />
+          ) : activeNav === 'prompts' ? (
+            <PromptsPage />
+          ) : (
+            <div className="h-full flex flex-col gap-6">
+              {/* Status Cards Bento Grid */}
+              <StatusCardsBento
+                stats={stats}
+                activeFilter={activeFilter}
+                onFilterChange={setActiveFilter}
+              />
 
-            {/* Divider */}
-            <div className="h-0.5 bg-void/10 rounded-full" />
+              {/* Divider */}
+              <div className="h-0.5 bg-void/10 rounded-full" />
 
-            {/* Main Content Area - Task List + Detail Panel */}
-            <div className="flex-1 grid grid-cols-1 lg:grid-cols-[2fr_3fr] gap-6 min-h-0 overflow-hidden">
-              {/* Task List Panel */}
-              <div className="bg-white rounded-bento border-2 border-void/10 overflow-hidden h-full min-h-0">
-                <TaskListPanel
-                  tasks={allTasks}
-                  selectedTaskId={selectedTask?.id || null}
-                  onTaskSelect={selectTask}
-                  filter={activeFilter}
-                  loading={tasksLoading}
-                />
-              </div>
+              {/* Main Content Area - Task List + Detail Panel */}
+              <div className="flex-1 grid grid-cols-1 lg:grid-cols-[2fr_3fr] gap-6 min-h-0 overflow-hidden">
+                {/* Task List Panel */}
+                <div className="bg-white rounded-bento border-2 border-void/10 overflow-hidden h-full min-h-0">
+                  <TaskListPanel
+                    tasks={allTasks}
+                    waitingTasks={waitingTasks}
+                    selectedTaskId={selectedTask?.id || null}
+                    onTaskSelect={selectTask}
+                    filter={activeFilter}
+                    loading={tasksLoading}
+                  />
+                </div>
 
-              {/* Task Detail Panel */}
-              <div className="h-full min-h-0 overflow-hidden">
-                <TaskDetailPanel
-                  task={selectedTask}
-                  comments={selectedTaskComments}
-                  runningTask={runningTask}
-                  loading={selectedTaskLoading}
-                  onRetry={handleRetry}
-                />
+                {/* Task Detail Panel */}
+                <div className="h-full min-h-0 overflow-hidden">
+                  <TaskDetailPanel
+                    task={selectedTask}
+                    comments={selectedTaskComments}
+                    runningTask={runningTask}
+                    waitingTask={waitingTask}
+                    loading={selectedTaskLoading}
+                    onRetry={handleRetry}
+                    onCancel={handleCancel}
+                    onApprovePlan={handleApprovePlan}
+                  />
+                </div>
               </div>
             </div>
-          </div>
+          )}
         </main>
       </div>
     </div>
@@ -2,9 +2,10 @@ import type { RunningTask as RunningTaskType } from '../../types';
 
 interface RunningTaskProps {
   task: RunningTaskType;
+  onCancel?: (taskId: string) => void;
 }
 
-export function RunningTask({ task }: RunningTaskProps) {
+export function RunningTask({ task, onCancel }: RunningTaskProps) {
   const formatDuration = (ms: number) => {
     const seconds = Math.floor(ms / 1000);
     const minutes = Math.floor(seconds / 60);
@@ -25,15 +26,30 @@ export function RunningTask({ task }: RunningTaskProps) {
           <div className="text-gray-400 text-sm mt-1">
             Status: Running ({formatDuration(task.duration)})
           </div>
+          {task.claimedBy && (
+            <div className="text-gray-500 text-xs mt-1 font-mono">
+              Worker: {task.claimedBy}
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          {onCancel && (
+            <button
+              onClick={() => onCancel(task.taskId)}
+              className="text-red-400 hover:text-red-300 text-sm"
+            >
+              Cancel
+            </button>
+          )}
+          <a
+            href={`https://linear.app/kaitox/issue/${task.identifier}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-400 hover:text-blue-300 text-sm"
+          >
+            View in Linear
+          </a>
         </div>
-        <a
-          href={`https://linear.app/kaitox/issue/${task.identifier}`}
-          target="_blank"
-          rel="noopener noreferrer"
-          className="text-blue-400 hover:text-blue-300 text-sm"
-        >
-          View in Linear
-        </a>
       </div>
 
       {/* Progress Bar */}
@@ -6,17 +6,28 @@ import type {
   RunningTask,
   StatusType,
   PriorityType,
+  ReviewDecision,
+  TaskRun,
+  TaskPlan,
+  WaitingTask,
+  IssueRef,
 } from '../../types';
 import { PRIORITY_MAP, PRIORITY_LABELS, STATUS_MAP } from '../../types';
 import { SessionViewerModal } from '../UI/SessionViewerModal';
+import { PromptViewerModal } from '../UI/PromptViewerModal';
+import { formatCost, formatTokens } from '../../utils/usageFormat';
+import { formatPromptVersions } from '../../utils/promptFormat';
 import { TaskDetailExpandedModal } from './TaskDetailExpandedModal';
 
 interface TaskDetailPanelProps {
   task: LinearTask | null;
   comments: LinearComment[];
   runningTask: RunningTask | null;
+  waitingTask?: WaitingTask | null;
   loading: boolean;
   onRetry?: (taskId: string) => Promise<void>;
+  onCancel?: (taskId: string) => Promise<void>;
+  onApprovePlan?: (taskId: string) => Promise<void>;
 }
 
 interface TaskDetailContentProps extends TaskDetailPanelProps {
@@ -49,6 +60,53 @@ function getPriorityColor(priority?: number): string {
   return 'bg-gray-400 text-white';
 }
 
+const REVIEW_ACTION_LABELS: Record<ReviewDecision['action'], string> = {
+  auto_done: 'Auto-done',
+  review: 'Review',
+  two_approvals: 'Two approvals',
+};
+
+const RUN_KIND_LABELS: Record<TaskRun['runKind'], string> = {
+  execute: 'Execute',
+  feedback: 'Feedback',
+  retry: 'Retry',
+};
+
+const PLAN_STATUS_LABELS: Record<TaskPlan['status'], string> = {
+  awaiting_approval: 'Awaiting approval',
+  approved: 'Approved',
+  completed: 'Completed',
+  skipped: 'Runs as one task',
+};
+
+const RUN_OUTCOME_COLORS: Record<TaskRun['outcome'], string> = {
+  running: 'bg-genz-yellow',
+  completed: 'bg-green-500',
+  failed: 'bg-red-500',
+  cancelled: 'bg-gray-400',
+};
+
+function formatDateTime(date: string) {
+  return new Date(date).toLocaleString('en-US', {
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function formatIssueRef(issue: IssueRef) {
+  return issue.state ? `${issue.identifier} (${issue.state})` : issue.identifier;
+}
+
+function formatRunDuration(run: TaskRun) {
+  if (!run.completedAt) return null;
+  const seconds = Math.round(
+    (new Date(run.completedAt).getTime() - new Date(run.startedAt).getTime()) / 1000,
+  );
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
 function formatDate(date: string) {
   return new Date(date).toLocaleDateString('en-US', {
     year: 'numeric',
@@ -61,15 +119,21 @@ function TaskDetailContent({
   task,
   comments,
   runningTask,
+  waitingTask,
   loading,
   onRetry,
+  onCancel,
+  onApprovePlan,
   onExpand,
   headerClassName,
 }: TaskDetailContentProps) {
   const [copied, setCopied] = useState(false);
   const [retrying, setRetrying] = useState(false);
-  const [retryMessage, setRetryMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
-  const [sessionViewerOpen, setSessionViewerOpen] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [approving, setApproving] = useState(false);
+  const [actionMessage, setActionMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [viewerSessionId, setViewerSessionId] = useState<string | null>(null);
+  const [promptOpen, setPromptOpen] = useState(false);
 
   const copyToClipboard = async (text: string) => {
     try {
@@ -85,21 +149,60 @@ function TaskDetailContent({
     if (!task || !onRetry || retrying) return;
 
     setRetrying(true);
-    setRetryMessage(null);
+    setActionMessage(null);
 
     try {
       await onRetry(task.id);
-      setRetryMessage({ type: 'success', text: 'Task queued for retry!' });
-      setTimeout(() => setRetryMessage(null), 3000);
+      setActionMessage({ type: 'success', text: 'Task queued for retry!' });
+      setTimeout(() => setActionMessage(null), 3000);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to retry task';
-      setRetryMessage({ type: 'error', text: errorMessage });
-      setTimeout(() => setRetryMessage(null), 5000);
+      setActionMessage({ type: 'error', text: errorMessage });
+      setTimeout(() => setActionMessage(null), 5000);
     } finally {
       setRetrying(false);
     }
   };
 
+  const handleCancel = async () => {
+    if (!task || !onCancel || cancelling) return;
+    if (!window.confirm(`Cancel ${task.identifier}? The running agent will be stopped.`)) return;
+
+    setCancelling(true);
+    setActionMessage(null);
+
+    try {
+      await onCancel(task.id);
+      setActionMessage({ type: 'success', text: 'Task cancelled' });
+      setTimeout(() => setActionMessage(null), 3000);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to cancel task';
+      setActionMessage({ type: 'error', text: errorMessage });
+      setTimeout(() => setActionMessage(null), 5000);
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const handleApprovePlan = async () => {
+    if (!task || !onApprovePlan || approving) return;
+
+    setApproving(true);
+    setActionMessage(null);
+
+    try {
+      await onApprovePlan(task.id);
+      setActionMessage({ type: 'success', text: 'Plan approved, sub-issues queued' });
+      setTimeout(() => setActionMessage(null), 3000);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to approve the plan';
+      setActionMessage({ type: 'error', text: errorMessage });
+      setTimeout(() => setActionMessage(null), 5000);
+    } finally {
+      setApproving(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="h-full flex items-center justify-center bg-light-gray rounded-bento animate-fade-in">
@@ -186,6 +289,14 @@ function TaskDetailContent({
               {STATUS_MAP[status]}
             </span>
 
+            {/* Effective prompt of the next run */}
+            <button
+              onClick={() => setPromptOpen(true)}
+              className="px-4 py-2 rounded-xl font-bold text-xs bg-light-gray text-void hover:bg-void/10 transition-all duration-200"
+            >
+              📜 Prompt
+            </button>
+
             {/* Retry button - only show for failed tasks */}
             {status === 'failed' && onRetry && (
               <button
@@ -211,6 +322,31 @@ function TaskDetailContent({
               </button>
             )}
 
+            {/* Cancel button - only show for running tasks */}
+            {isRunning && onCancel && (
+              <button
+                onClick={handleCancel}
+                disabled={cancelling}
+                className={`
+                  px-4 py-2 rounded-xl font-bold text-xs
+                  transition-all duration-200
+                  ${cancelling
+                    ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                    : 'bg-void text-white hover:bg-void/80 hover:scale-105'
+                  }
+                `}
+              >
+                {cancelling ? (
+                  <span className="flex items-center gap-2">
+                    <span className="w-3 h-3 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                    Cancelling...
+                  </span>
+                ) : (
+                  '🛑 Cancel Task'
+                )}
+              </button>
+            )}
+
             {/* Assignee */}
             {task.assignee && (
               <div className="flex items-center gap-2">
@@ -232,18 +368,18 @@ function TaskDetailContent({
             )}
           </div>
 
-          {/* Retry message */}
-          {retryMessage && (
+          {/* Retry / cancel message */}
+          {actionMessage && (
             <div
               className={`
                 px-4 py-2 rounded-xl text-sm font-medium
-                ${retryMessage.type === 'success'
+                ${actionMessage.type === 'success'
                   ? 'bg-green-100 text-green-800'
                   : 'bg-red-100 text-red-800'
                 }
               `}
             >
-              {retryMessage.text}
+              {actionMessage.text}
             </div>
           )}
         </div>
@@ -285,6 +421,78 @@ function TaskDetailContent({
           </div>
         )}
 
+        {/* Dependencies (Todo task held back) */}
+        {waitingTask && (
+          <div className="bg-blue-100 rounded-2xl p-4 border-2 border-blue-200">
+            <div className={sectionTitleClassName}>WAITING ON DEPENDENCIES</div>
+            <div className="mt-2 space-y-2 font-body text-xs text-void/80">
+              {waitingTask.blockedBy.length > 0 && (
+                <div>
+                  <span className="font-bold text-void">Blocked by:</span>{' '}
+                  {waitingTask.blockedBy.map(formatIssueRef).join(', ')}
+                </div>
+              )}
+              {waitingTask.subIssues.length > 0 && (
+                <div>
+                  <span className="font-bold text-void">Sub-issues:</span>{' '}
+                  {waitingTask.subIssues.map(formatIssueRef).join(', ')}
+                </div>
+              )}
+              <div className="text-void/50">
+                Queued automatically once these are Done or Canceled · waiting since{' '}
+                {formatDateTime(waitingTask.since)}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Plan First breakdown */}
+        {task.plan && (
+          <div className="space-y-2">
+            <div className={sectionTitleClassName}>PLAN</div>
+            <div className="bg-light-gray rounded-2xl p-4 border-2 border-void/10">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="px-2 py-1 rounded-full bg-void text-white text-[11px] font-bold">
+                  {PLAN_STATUS_LABELS[task.plan.status]}
+                </span>
+                {task.plan.approvedBy && (
+                  <span className="font-body text-xs text-void/60">
+                    by {task.plan.approvedBy}
+                  </span>
+                )}
+                {task.plan.status === 'awaiting_approval' && onApprovePlan && (
+                  <button
+                    onClick={handleApprovePlan}
+                    disabled={approving}
+                    className={`
+                      ml-auto px-3 py-1 rounded-lg font-bold text-xs
+                      transition-all duration-200
+                      ${approving
+                        ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                        : 'bg-green-600 text-white hover:bg-green-700'
+                      }
+                    `}
+                  >
+                    {approving ? 'Approving...' : '✅ Approve Plan'}
+                  </button>
+                )}
+              </div>
+              <p className="mt-2 font-body text-sm text-void leading-relaxed whitespace-pre-wrap">
+                {task.plan.summary}
+              </p>
+              {task.plan.subIssues.length > 0 && (
+                <ol className="mt-2 list-decimal list-inside space-y-1 font-body text-xs text-void/80">
+                  {task.plan.subIssues.map((issue) => (
+                    <li key={issue.id}>
+                      <span className="font-mono">{issue.identifier}</span> {issue.title}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Progress (if running) */}
         {isRunning && (
           <div className="bg-genz-yellow/20 rounded-2xl p-4 border-2 border-genz-yellow/30">
@@ -305,6 +513,11 @@ function TaskDetailContent({
                 {runningTask.currentStep}
               </div>
             )}
+            {runningTask?.claimedBy && (
+              <div className="mt-1 font-mono text-[10px] text-void/40">
+                Claimed by {runningTask.claimedBy}
+              </div>
+            )}
           </div>
         )}
 
@@ -324,7 +537,7 @@ function TaskDetailContent({
                   {copied ? 'Copied!' : 'Copy'}
                 </button>
                 <button
-                  onClick={() => setSessionViewerOpen(true)}
+                  onClick={() => setViewerSessionId(sessionId)}
                   className="px-3 py-2 bg-purple-600 text-white text-xs font-bold rounded-lg hover:bg-purple-700 transition-colors"
                 >
                   View Source
@@ -337,6 +550,102 @@ function TaskDetailContent({
           </div>
         )}
 
+        {/* Run history */}
+        {task.runs && task.runs.length > 0 && (
+          <div className="space-y-2">
+            <div className={sectionTitleClassName}>
+              RUN HISTORY ({task.runs.length})
+            </div>
+            <ol className="relative border-l-2 border-void/10 ml-2 space-y-3">
+              {task.runs.map((run) => (
+                <li key={run.id} className="ml-4">
+                  <span
+                    className={`absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full ${RUN_OUTCOME_COLORS[run.outcome]}`}
+                  />
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-body text-sm font-bold text-void">
+                      {RUN_KIND_LABELS[run.runKind]}
+                    </span>
+                    <span className="font-body text-xs text-void/60">
+                      {run.outcome}
+                    </span>
+                    {run.model && (
+                      <span
+                        title={run.modelReason ?? undefined}
+                        className="px-2 py-0.5 rounded-full bg-void/10 text-void font-mono text-[11px]"
+                      >
+                        {run.model}
+                      </span>
+                    )}
+                    <span className="font-body text-xs text-void/40">
+                      {formatDateTime(run.startedAt)}
+                      {formatRunDuration(run) && ` · ${formatRunDuration(run)}`}
+                    </span>
+                    {run.costUsd !== null && (
+                      <span className="font-mono text-[11px] text-void/50">
+                        {formatCost(run.costUsd)} · {formatTokens(run.totalTokens ?? 0)} tokens
+                      </span>
+                    )}
+                    {run.sessionId && (
+                      <button
+                        onClick={() => setViewerSessionId(run.sessionId)}
+                        className="ml-auto px-2 py-1 bg-purple-600 text-white text-[11px] font-bold rounded-lg hover:bg-purple-700 transition-colors"
+                      >
+                        Transcript
+                      </button>
+                    )}
+                  </div>
+                  {run.parentRunId !== null && (
+                    <div className="font-body text-[11px] text-void/40">
+                      Resumed from run #{run.parentRunId}
+                    </div>
+                  )}
+                  {run.modelReason && (
+                    <div className="font-body text-[11px] text-void/40">
+                      Model: {run.modelReason}
+                    </div>
+                  )}
+                  {run.profile && run.profile !== 'Primary' && (
+                    <div className="font-body text-[11px] text-void/40">
+                      Profile: {run.profile}
+                    </div>
+                  )}
+                  {run.promptVersions && (
+                    <div className="font-body text-[11px] text-void/40">
+                      Prompts: {formatPromptVersions(run.promptVersions)}
+                    </div>
+                  )}
+                  {run.error && (
+                    <div className="mt-1 font-body text-xs text-red-700 line-clamp-2">
+                      {run.error}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        {/* Review policy decision */}
+        {task.review && (
+          <div className="space-y-2">
+            <div className={sectionTitleClassName}>REVIEW POLICY</div>
+            <div className="bg-light-gray rounded-2xl p-4 border-2 border-void/10">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="px-2 py-1 rounded-full bg-void text-white text-[11px] font-bold">
+                  {REVIEW_ACTION_LABELS[task.review.action]}
+                </span>
+                <span className="font-body text-sm text-void">
+                  {task.review.rule ?? 'Default action'}
+                </span>
+              </div>
+              <div className="mt-2 font-body text-xs text-void/60">
+                {task.review.reason}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Comments */}
         {comments.length > 0 && (
           <div className="space-y-2">
@@ -379,11 +688,21 @@ function TaskDetailContent({
       </div>
 
       {/* Session Viewer Modal */}
-      {sessionId && (
+      {viewerSessionId && (
         <SessionViewerModal
-          isOpen={sessionViewerOpen}
-          onClose={() => setSessionViewerOpen(false)}
-          sessionId={sessionId}
+          isOpen
+          onClose={() => setViewerSessionId(null)}
+          sessionId={viewerSessionId}
+        />
+      )}
+
+      {/* Prompt Viewer Modal */}
+      {promptOpen && (
+        <PromptViewerModal
+          isOpen
+          onClose={() => setPromptOpen(false)}
+          taskId={task.id}
+          identifier={task.identifier}
         />
       )}
     </>
@@ -394,8 +713,11 @@ export function TaskDetailPanel({
   task,
   comments,
   runningTask,
+  waitingTask,
   loading,
   onRetry,
+  onCancel,
+  onApprovePlan,
 }: TaskDetailPanelProps) {
   const [detailExpandedOpen, setDetailExpandedOpen] = useState(false);
   const showCardFrame = !loading && task !== null;
@@ -405,8 +727,11 @@ export function TaskDetailPanel({
       task={task}
       comments={comments}
       runningTask={runningTask}
+      waitingTask={waitingTask}
       loading={loading}
       onRetry={onRetry}
+      onCancel={onCancel}
+      onApprovePlan={onApprovePlan}
       onExpand={() => setDetailExpandedOpen(true)}
     />
   );
@@ -428,8 +753,11 @@ export function TaskDetailPanel({
           task={task}
           comments={comments}
           runningTask={runningTask}
+          waitingTask={waitingTask}
           loading={loading}
           onRetry={onRetry}
+          onCancel={onCancel}
+          onApprovePlan={onApprovePlan}
           headerClassName="pr-14"
         />
       </TaskDetailExpandedModal>
@@ -1,9 +1,10 @@
 import { useState } from 'react';
-import type { LinearTask, FilterStatus, StatusType, PriorityType } from '../../types';
+import type { LinearTask, FilterStatus, StatusType, PriorityType, WaitingTask } from '../../types';
 import { PRIORITY_MAP, PRIORITY_LABELS, STATUS_MAP } from '../../types';
 
 interface TaskListPanelProps {
   tasks: LinearTask[];
+  waitingTasks: WaitingTask[];
   selectedTaskId: string | null;
   onTaskSelect: (task: LinearTask) => void;
   filter: FilterStatus;
@@ -12,6 +13,7 @@ interface TaskListPanelProps {
 
 export function TaskListPanel({
   tasks,
+  waitingTasks,
   selectedTaskId,
   onTaskSelect,
   filter,
@@ -103,6 +105,7 @@ export function TaskListPanel({
             const status = getTaskStatus(task);
             const isSelected = task.id === selectedTaskId;
             const priority = getPriorityLabel(task.priority);
+            const waiting = waitingTasks.find((t) => t.taskId === task.id);
 
             return (
               <button
@@ -148,6 +151,14 @@ export function TaskListPanel({
                       {task.title}
                     </h3>
 
+                    {/* Dependencies the task waits on */}
+                    {waiting && (
+                      <p className={`text-xs mb-1 ${isSelected ? 'text-genz-yellow' : 'text-void/60'}`}>
+                        ⏳ Waiting on{' '}
+                        {[...waiting.blockedBy, ...waiting.subIssues].map((issue) => issue.identifier).join(', ')}
+                      </p>
+                    )}
+
                     {/* Description */}
                     {task.description && (
                       <p
@@ -175,6 +186,11 @@ export function TaskListPanel({
                     >
                       {STATUS_MAP[status] || status}
                     </span>
+                    {waiting && (
+                      <span className="mt-1 text-[10px] font-bold px-2 py-0.5 rounded-lg bg-blue-500/20 text-blue-600">
+                        WAITING
+                      </span>
+                    )}
                   </div>
                 </div>
               </button>
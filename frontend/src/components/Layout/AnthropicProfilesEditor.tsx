@@ -0,0 +1,222 @@
+import { useState, useCallback } from 'react';
+import { useAnthropicProfiles } from '../../hooks/useAnthropicProfiles';
+import { Dropdown } from '../UI/Dropdown';
+import { TextInput } from '../UI/TextInput';
+import { AUTH_METHOD_OPTIONS, MODEL_OPTIONS } from '../../constants/settingsFields';
+import type { AnthropicProfile, AnthropicProfileInput, AuthMethod, ModelType } from '../../types';
+
+// Form state: every field as edited text
+interface ProfileForm {
+  id?: number;
+  name: string;
+  authMethod: AuthMethod;
+  model: string;
+  apiKey: string;
+  baseUrl: string;
+  authToken: string;
+  maxCostUsd: string;
+}
+
+const EMPTY_FORM: ProfileForm = {
+  name: '',
+  authMethod: 'api_key',
+  model: '',
+  apiKey: '',
+  baseUrl: '',
+  authToken: '',
+  maxCostUsd: '',
+};
+
+const PROFILE_MODEL_OPTIONS = [{ value: '', label: 'Routing / Model setting' }, ...MODEL_OPTIONS];
+
+function toForm(profile: AnthropicProfile): ProfileForm {
+  return {
+    id: profile.id,
+    name: profile.name,
+    authMethod: profile.authMethod,
+    model: profile.model ?? '',
+    apiKey: profile.apiKey ?? '',
+    baseUrl: profile.baseUrl ?? '',
+    authToken: profile.authToken ?? '',
+    maxCostUsd: profile.maxCostUsd?.toString() ?? '',
+  };
+}
+
+function toInput(form: ProfileForm): AnthropicProfileInput {
+  return {
+    name: form.name.trim(),
+    authMethod: form.authMethod,
+    model: (form.model || undefined) as ModelType | undefined,
+    apiKey: form.authMethod === 'login' ? form.apiKey || undefined : undefined,
+    baseUrl: form.authMethod === 'api_key' ? form.baseUrl || undefined : undefined,
+    authToken: form.authMethod === 'api_key' ? form.authToken || undefined : undefined,
+    maxCostUsd: form.maxCostUsd ? Number(form.maxCostUsd) : undefined,
+  };
+}
+
+/**
+ * Create, edit and delete named Anthropic profiles.
+ * Changes are saved right away, independently of the settings form.
+ */
+export function AnthropicProfilesEditor() {
+  const { profiles, loading, error, saving, saveProfile, deleteProfile } = useAnthropicProfiles();
+  const [form, setForm] = useState<ProfileForm | null>(null);
+
+  const updateForm = useCallback((changes: Partial<ProfileForm>) => {
+    setForm((prev) => (prev ? { ...prev, ...changes } : prev));
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    if (!form) return;
+    try {
+      await saveProfile(toInput(form), form.id);
+      setForm(null);
+    } catch {
+      // Error is shown by the hook
+    }
+  }, [form, saveProfile]);
+
+  const handleDelete = useCallback(async (profile: AnthropicProfile) => {
+    if (window.confirm(`Delete profile "${profile.name}"?`)) {
+      await deleteProfile(profile.id);
+    }
+  }, [deleteProfile]);
+
+  if (loading) {
+    return <div className="text-void/40 text-sm text-center py-4">Loading profiles...</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="font-body text-xs text-void/60">
+        Tasks labelled <code className="font-mono">profile:&lt;name&gt;</code> or matched by a Model Routing rule
+        with a <code className="font-mono">profile</code> run with that profile; all others use the settings above.
+      </p>
+
+      {error && (
+        <div className="text-red-600 text-xs py-2 px-3 bg-red-100 rounded-lg border border-red-300">
+          {error}
+        </div>
+      )}
+
+      {profiles.map((profile) => (
+        <div
+          key={profile.id}
+          className="flex items-center justify-between gap-3 px-3 py-2 rounded-xl border-2 border-void/10"
+        >
+          <div className="min-w-0">
+            <div className="font-display text-sm font-bold text-void truncate">{profile.name}</div>
+            <div className="font-body text-[11px] text-void/50">
+              {profile.authMethod === 'api_key' ? profile.baseUrl || 'Proxy' : 'Anthropic API'}
+              {profile.model && ` · ${profile.model}`}
+              {profile.maxCostUsd && ` · $${profile.maxCostUsd.toFixed(2)} per run`}
+            </div>
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <button
+              onClick={() => setForm(toForm(profile))}
+              disabled={saving}
+              className="px-3 py-1 text-xs font-bold rounded-lg border-2 border-void/30 hover:border-void disabled:opacity-50"
+            >
+              Edit
+            </button>
+            <button
+              onClick={() => handleDelete(profile)}
+              disabled={saving}
+              className="px-3 py-1 text-xs font-bold rounded-lg border-2 border-red-300 text-red-700 hover:border-red-600 disabled:opacity-50"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {form ? (
+        <div className="space-y-3 p-3 rounded-xl border-2 border-void/20 bg-bone/30">
+          <TextInput
+            label="Name"
+            value={form.name}
+            onChange={(name) => updateForm({ name })}
+            placeholder="Direct"
+            disabled={saving}
+          />
+          <Dropdown
+            label="Auth Method"
+            value={form.authMethod}
+            onChange={(authMethod) => updateForm({ authMethod: authMethod as AuthMethod })}
+            options={AUTH_METHOD_OPTIONS}
+            disabled={saving}
+          />
+          {form.authMethod === 'login' ? (
+            <TextInput
+              label="API Key"
+              type="password"
+              value={form.apiKey}
+              onChange={(apiKey) => updateForm({ apiKey })}
+              placeholder="sk-ant-..."
+              disabled={saving}
+            />
+          ) : (
+            <>
+              <TextInput
+                label="Base URL"
+                value={form.baseUrl}
+                onChange={(baseUrl) => updateForm({ baseUrl })}
+                placeholder="https://api.proxy.com/v1"
+                disabled={saving}
+              />
+              <TextInput
+                label="Auth Token"
+                type="password"
+                value={form.authToken}
+                onChange={(authToken) => updateForm({ authToken })}
+                placeholder="your-auth-token..."
+                disabled={saving}
+              />
+            </>
+          )}
+          <Dropdown
+            label="Default Model"
+            value={form.model}
+            onChange={(model) => updateForm({ model })}
+            options={PROFILE_MODEL_OPTIONS}
+            tooltip="Used unless the description front-matter or a routing rule picks a model."
+            disabled={saving}
+          />
+          <TextInput
+            label="Spend Cap (USD per run)"
+            value={form.maxCostUsd}
+            onChange={(maxCostUsd) => updateForm({ maxCostUsd })}
+            placeholder="10"
+            tooltip="Runs with this profile stop at this cost; the lower of this and the Task Budgets cap applies."
+            disabled={saving}
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setForm(null)}
+              disabled={saving}
+              className="px-4 py-1.5 text-sm font-bold rounded-xl border-2 border-void/30 hover:border-void disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || !form.name.trim()}
+              className="px-4 py-1.5 text-sm font-bold rounded-xl border-2 border-void bg-genz-yellow hover:bg-genz-yellow/80 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : form.id ? 'Save Profile' : 'Add Profile'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setForm({ ...EMPTY_FORM })}
+          disabled={saving}
+          className="w-full px-4 py-2 text-sm font-bold rounded-xl border-2 border-dashed border-void/30 text-void/70 hover:border-void hover:text-void disabled:opacity-50"
+        >
+          + New Profile
+        </button>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { useSettings } from '../../hooks/useSettings';
 import { Dropdown } from '../UI/Dropdown';
 import { TextInput } from '../UI/TextInput';
 import { Modal } from '../UI/Modal';
+import { AnthropicProfilesEditor } from './AnthropicProfilesEditor';
 import {
   SETTINGS_FIELDS,
   GROUP_LABELS,
@@ -130,6 +131,7 @@ export function SettingsPanel() {
         value={value as string}
         onChange={(v) => handleFieldChange(field.key, v)}
         type={field.type === 'password' ? 'password' : 'text'}
+        rows={field.type === 'json' ? 6 : undefined}
         placeholder={field.placeholder}
         tooltip={field.tooltip}
         disabled={saving}
@@ -221,6 +223,10 @@ export function SettingsPanel() {
               );
             })}
 
+            <CollapsibleGroup title="Anthropic Profiles" defaultOpen={false}>
+              <AnthropicProfilesEditor />
+            </CollapsibleGroup>
+
             {hasChanges && (
               <div className="text-amber-600 text-xs text-center py-2 bg-amber-50 rounded-lg border border-amber-200">
                 You have unsaved changes
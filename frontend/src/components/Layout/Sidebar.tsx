@@ -10,6 +10,8 @@ export function Sidebar({ activeNav, onNavChange }: SidebarProps) {
   const navItems: { key: NavItem; label: string }[] = [
     { key: 'dashboard', label: 'Dashboard' },
     { key: 'tasks', label: 'Task List' },
+    { key: 'usage', label: 'Usage' },
+    { key: 'prompts', label: 'Prompts' },
   ];
 
   return (
@@ -0,0 +1,235 @@
+import { useEffect, useState } from 'react';
+import { usePromptTemplates } from '../../hooks/usePromptTemplates';
+import { previewPromptTemplate } from '../../services/api';
+import type { PromptTemplateName } from '../../types';
+
+function formatVersion(version: number): string {
+  return version === 0 ? 'built-in' : `v${version}`;
+}
+
+export function PromptsPage() {
+  const [selected, setSelected] = useState<PromptTemplateName>('task');
+  const { templates, versions, loading, error, saving, save, rollback } = usePromptTemplates(selected);
+  const [draft, setDraft] = useState('');
+  const [note, setNote] = useState('');
+  const [previewTaskId, setPreviewTaskId] = useState('');
+  const [preview, setPreview] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  const template = templates.find((t) => t.name === selected);
+
+  // Start editing from the current version whenever it changes
+  useEffect(() => {
+    if (template) {
+      setDraft(template.body);
+      setNote('');
+    }
+  }, [template]);
+
+  useEffect(() => {
+    setPreview(null);
+    setPreviewError(null);
+  }, [selected]);
+
+  const handleSave = async () => {
+    try {
+      await save(draft, note.trim() || undefined);
+    } catch {
+      // Error is shown by the hook
+    }
+  };
+
+  const handleRollback = async (version: number) => {
+    if (window.confirm(`Make ${formatVersion(version)} of ${selected} the current version?`)) {
+      try {
+        await rollback(version);
+      } catch {
+        // Error is shown by the hook
+      }
+    }
+  };
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    setPreviewError(null);
+    try {
+      setPreview(await previewPromptTemplate(selected, previewTaskId.trim(), draft));
+    } catch (err) {
+      setPreview(null);
+      setPreviewError(err instanceof Error ? err.message : 'Failed to preview');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const inputClassName =
+    'px-3 py-2 rounded-xl border-2 border-void/20 bg-white font-body text-sm focus:outline-none focus:border-void';
+  const isDirty = !!template && draft !== template.body;
+
+  return (
+    <div className="h-full overflow-y-auto space-y-6 pr-1">
+      <div className="font-heading text-2xl text-void">PROMPTS</div>
+
+      {error && (
+        <div className="px-4 py-2 rounded-xl text-sm font-medium bg-red-100 text-red-800">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="h-64 flex items-center justify-center">
+          <div className="w-10 h-10 border-4 border-genz-yellow border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-[1fr_3fr] gap-6">
+          {/* Templates */}
+          <div className="bg-white rounded-bento border-2 border-void/10 p-4 space-y-2 self-start">
+            {templates.map((t) => (
+              <button
+                key={t.name}
+                onClick={() => setSelected(t.name)}
+                className={`w-full text-left px-3 py-2 rounded-xl border-2 transition-colors ${
+                  t.name === selected ? 'border-void bg-genz-yellow' : 'border-transparent hover:border-void/20'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-mono text-sm font-bold text-void">{t.name}</span>
+                  <span className="font-mono text-[11px] text-void/60">{formatVersion(t.version)}</span>
+                </div>
+                <div className="font-body text-[11px] text-void/60">{t.description}</div>
+              </button>
+            ))}
+          </div>
+
+          {template && (
+            <div className="space-y-6 min-w-0">
+              {/* Editor */}
+              <div className="bg-white rounded-bento border-2 border-void/10 p-6 space-y-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="font-heading text-sm tracking-wider uppercase text-void/60">
+                    {template.name} · {formatVersion(template.version)}
+                  </div>
+                  <div className="flex flex-wrap gap-1 justify-end">
+                    {template.variables.map((variable) => (
+                      <code
+                        key={variable}
+                        className="px-2 py-0.5 rounded-md bg-light-gray font-mono text-[11px] text-void/70"
+                      >
+                        {`{{${variable}}}`}
+                      </code>
+                    ))}
+                  </div>
+                </div>
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  rows={18}
+                  spellCheck={false}
+                  disabled={saving}
+                  className={`${inputClassName} w-full font-mono text-xs leading-relaxed`}
+                />
+                <div className="flex flex-wrap items-center gap-3">
+                  <input
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="What changed (optional)"
+                    disabled={saving}
+                    className={`${inputClassName} flex-1 min-w-[12rem]`}
+                  />
+                  <button
+                    onClick={() => setDraft(template.body)}
+                    disabled={saving || !isDirty}
+                    className="px-4 py-2 rounded-xl border-2 border-void/30 font-bold text-xs hover:border-void disabled:opacity-40"
+                  >
+                    DISCARD
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    disabled={saving || !isDirty || !draft.trim()}
+                    className="px-4 py-2 rounded-xl bg-void text-white font-bold text-xs hover:bg-void/80 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    {saving ? 'SAVING...' : 'SAVE VERSION'}
+                  </button>
+                </div>
+              </div>
+
+              {/* Preview */}
+              <div className="bg-white rounded-bento border-2 border-void/10 p-6 space-y-3">
+                <div className="font-heading text-sm tracking-wider uppercase text-void/60">Preview</div>
+                <div className="flex gap-3">
+                  <input
+                    value={previewTaskId}
+                    onChange={(e) => setPreviewTaskId(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && previewTaskId.trim() && handlePreview()}
+                    placeholder="Task identifier, e.g. ENG-123"
+                    className={`${inputClassName} flex-1`}
+                  />
+                  <button
+                    onClick={handlePreview}
+                    disabled={previewing || !previewTaskId.trim()}
+                    className="px-4 py-2 rounded-xl bg-genz-yellow border-2 border-void font-bold text-xs hover:bg-genz-yellow/80 disabled:opacity-40"
+                  >
+                    {previewing ? 'RENDERING...' : 'PREVIEW'}
+                  </button>
+                </div>
+                {previewError && (
+                  <div className="px-4 py-2 rounded-xl text-sm font-medium bg-red-100 text-red-800">
+                    {previewError}
+                  </div>
+                )}
+                {preview !== null && (
+                  <pre className="max-h-96 overflow-auto p-4 rounded-xl bg-bone/50 font-mono text-xs text-void whitespace-pre-wrap">
+                    {preview}
+                  </pre>
+                )}
+              </div>
+
+              {/* History */}
+              <div className="bg-white rounded-bento border-2 border-void/10 p-6">
+                <div className="font-heading text-sm tracking-wider uppercase text-void/60 mb-4">History</div>
+                <div className="space-y-2">
+                  {versions.map((version) => (
+                    <div
+                      key={version.version}
+                      className="flex items-center justify-between gap-3 px-3 py-2 rounded-xl border-2 border-void/10"
+                    >
+                      <div className="min-w-0">
+                        <div className="font-mono text-sm font-bold text-void">
+                          {formatVersion(version.version)}
+                          {version.version === template.version && (
+                            <span className="ml-2 font-body text-[11px] font-normal text-green-700">current</span>
+                          )}
+                        </div>
+                        <div className="font-body text-[11px] text-void/50 truncate">
+                          {version.createdAt && `${new Date(version.createdAt).toLocaleString()} · `}
+                          {version.note || 'No note'}
+                        </div>
+                      </div>
+                      <div className="flex gap-2 shrink-0">
+                        <button
+                          onClick={() => setDraft(version.body)}
+                          disabled={saving}
+                          className="px-3 py-1 text-xs font-bold rounded-lg border-2 border-void/30 hover:border-void disabled:opacity-50"
+                        >
+                          Load
+                        </button>
+                        {version.version !== template.version && (
+                          <button
+                            onClick={() => handleRollback(version.version)}
+                            disabled={saving}
+                            className="px-3 py-1 text-xs font-bold rounded-lg border-2 border-void/30 hover:border-void disabled:opacity-50"
+                          >
+                            Roll back
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
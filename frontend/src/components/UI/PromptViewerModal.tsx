@@ -0,0 +1,143 @@
+import { useEffect, useRef, useState } from 'react';
+import { fetchTaskPrompt } from '../../services/api';
+import { formatPromptVersions } from '../../utils/promptFormat';
+import type { EffectivePrompt } from '../../types';
+
+interface PromptViewerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  taskId: string;
+  identifier: string;
+}
+
+/**
+ * Prompts a new run of the task would get: the system prompt merged with
+ * the repository's instructions, the task prompt, and the repository defaults
+ */
+export function PromptViewerModal({ isOpen, onClose, taskId, identifier }: PromptViewerModalProps) {
+  const [prompt, setPrompt] = useState<EffectivePrompt | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const previousOverflowRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setPrompt(null);
+    setError(null);
+    fetchTaskPrompt(taskId)
+      .then(setPrompt)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load the prompt'));
+  }, [isOpen, taskId]);
+
+  // Handle escape key and body overflow
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+      previousOverflowRef.current = document.body.style.overflow;
+      document.body.style.overflow = 'hidden';
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleEscape);
+      if (previousOverflowRef.current !== null) {
+        document.body.style.overflow = previousOverflowRef.current;
+        previousOverflowRef.current = null;
+      }
+    };
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const repo = prompt?.repo;
+  const defaults = repo
+    ? [
+        repo.model && `Model: ${repo.model}`,
+        repo.reviewPolicy !== undefined && 'Review policy',
+        repo.allowedTools && `Tools: ${repo.allowedTools.join(', ') || 'none'}`,
+        repo.verifyCommand && `Verify: ${repo.verifyCommand}`,
+      ].filter(Boolean)
+    : [];
+  const sectionTitleClassName = 'font-heading text-xs tracking-wider uppercase text-void/60';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-void/60 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-white border-2 border-void/10 rounded-bento shadow-[8px_8px_0_0_#0F0F0F] w-full max-w-4xl h-[85vh] flex flex-col animate-in fade-in zoom-in duration-200">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b-2 border-void/10">
+          <h2 className="font-heading text-lg text-void">PROMPT · {identifier}</h2>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 flex items-center justify-center rounded-lg hover:bg-light-gray transition-colors"
+            aria-label="Close modal"
+          >
+            <span className="text-void text-xl font-bold">&times;</span>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-5">
+          {error ? (
+            <div className="px-4 py-2 rounded-xl text-sm font-medium bg-red-100 text-red-800">{error}</div>
+          ) : !prompt || !repo ? (
+            <div className="h-full flex items-center justify-center">
+              <div className="w-10 h-10 border-4 border-genz-yellow border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : (
+            <>
+              {/* Repository */}
+              <div className="space-y-1 font-body text-xs text-void/70">
+                <div>
+                  <span className="font-bold text-void">Repository:</span>{' '}
+                  <span className="font-mono">{repo.dir || 'No workspace path'}</span>
+                </div>
+                <div>
+                  <span className="font-bold text-void">Instructions:</span>{' '}
+                  {repo.instructions.map((i) => i.file).join(', ') || 'None'}
+                </div>
+                <div>
+                  <span className="font-bold text-void">Repository defaults:</span>{' '}
+                  {defaults.join(' · ') || 'None'}
+                </div>
+                <div>
+                  <span className="font-bold text-void">Model:</span> {prompt.model.model} ({prompt.model.reason})
+                  {prompt.model.profile && ` · profile ${prompt.model.profile.name}`}
+                </div>
+                <div>
+                  <span className="font-bold text-void">Templates:</span>{' '}
+                  {formatPromptVersions(prompt.promptVersions)}
+                </div>
+              </div>
+
+              {repo.error && (
+                <div className="px-4 py-2 rounded-xl text-sm font-medium bg-red-100 text-red-800">{repo.error}</div>
+              )}
+
+              <div className="space-y-2">
+                <div className={sectionTitleClassName}>SYSTEM PROMPT</div>
+                <pre className="p-4 rounded-xl bg-light-gray font-mono text-xs text-void whitespace-pre-wrap">
+                  {prompt.systemPrompt}
+                </pre>
+              </div>
+
+              <div className="space-y-2">
+                <div className={sectionTitleClassName}>TASK PROMPT</div>
+                <pre className="p-4 rounded-xl bg-light-gray font-mono text-xs text-void whitespace-pre-wrap">
+                  {prompt.prompt}
+                </pre>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
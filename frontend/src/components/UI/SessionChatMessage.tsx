@@ -233,9 +233,11 @@ export function SessionChatMessage({ message }: SessionChatMessageProps) {
     return <ToolCallCard toolUse={message.toolUse} />;
   }
 
-  // Skip user messages - only show AI messages
+  // Comments delivered mid-run are shown; other user messages (prompts) are skipped
   if (message.type === 'user') {
-    return null;
+    return message.deliveredComment && message.content ? (
+      <UserMessage content={message.content} />
+    ) : null;
   }
 
   // Assistant message
@@ -0,0 +1,79 @@
+interface BarSegment {
+  value: number;
+  className: string;
+  label: string;
+}
+
+interface UsageBarChartProps {
+  title: string;
+  bars: { key: string; segments: BarSegment[] }[];
+  formatValue: (value: number) => string;
+  legend?: { label: string; className: string }[];
+}
+
+/**
+ * Vertical (optionally stacked) bar chart for day series
+ */
+export function UsageBarChart({ title, bars, formatValue, legend }: UsageBarChartProps) {
+  const max = Math.max(
+    0,
+    ...bars.map((bar) => bar.segments.reduce((sum, s) => sum + s.value, 0)),
+  );
+  const labelEvery = Math.max(1, Math.ceil(bars.length / 10));
+
+  return (
+    <div className="bg-white rounded-bento border-2 border-void/10 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="font-heading text-sm tracking-wider uppercase text-void/60">
+          {title}
+        </div>
+        {legend && (
+          <div className="flex items-center gap-3">
+            {legend.map((item) => (
+              <span key={item.label} className="flex items-center gap-1 font-body text-xs text-void/60">
+                <span className={`w-2.5 h-2.5 rounded-sm ${item.className}`} />
+                {item.label}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {max === 0 ? (
+        <div className="h-40 flex items-center justify-center font-body text-sm text-void/40">
+          No usage in this range
+        </div>
+      ) : (
+        <div className="h-40 flex items-end gap-1">
+          {bars.map((bar, index) => {
+            const total = bar.segments.reduce((sum, s) => sum + s.value, 0);
+            const tooltip = [
+              bar.key,
+              ...bar.segments.map((s) => `${s.label}: ${formatValue(s.value)}`),
+            ].join('\n');
+
+            return (
+              <div key={bar.key} className="flex-1 h-full flex flex-col justify-end min-w-0" title={tooltip}>
+                <div
+                  className="w-full flex flex-col-reverse rounded-t-md overflow-hidden"
+                  style={{ height: `${(total / max) * 100}%` }}
+                >
+                  {bar.segments.map((segment) => (
+                    <div
+                      key={segment.label}
+                      className={segment.className}
+                      style={{ height: total > 0 ? `${(segment.value / total) * 100}%` : 0 }}
+                    />
+                  ))}
+                </div>
+                <div className="h-4 mt-1 font-mono text-[9px] text-void/40 text-center truncate">
+                  {index % labelEvery === 0 ? bar.key.slice(5) : ''}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
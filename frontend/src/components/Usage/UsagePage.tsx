@@ -0,0 +1,169 @@
+import { useMemo, useState } from 'react';
+import { useUsage, type UsageRange } from '../../hooks/useUsage';
+import { UsageBarChart } from './UsageBarChart';
+import { UsageRankList } from './UsageRankList';
+import {
+  downloadRunsCsv,
+  fillDays,
+  formatCost,
+  formatTokens,
+  totalTokens,
+} from '../../utils/usageFormat';
+
+const RANGE_PRESETS = [7, 30, 90];
+
+function daysAgo(days: number): string {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - days);
+  return date.toISOString().slice(0, 10);
+}
+
+export function UsagePage() {
+  const [range, setRange] = useState<UsageRange>({ from: daysAgo(29), to: daysAgo(0) });
+  const { usage, loading, error } = useUsage(range);
+
+  const days = useMemo(() => fillDays(usage.byDay, range.from, range.to), [usage.byDay, range]);
+
+  const totals = useMemo(() => {
+    const cost = usage.byDay.reduce((sum, day) => sum + day.costUsd, 0);
+    const tokens = usage.byDay.reduce((sum, day) => sum + totalTokens(day), 0);
+    const runs = usage.byDay.reduce((sum, day) => sum + day.runs, 0);
+    const tasks = usage.byTask.length;
+    return { cost, tokens, runs, tasks, costPerTask: tasks > 0 ? cost / tasks : 0 };
+  }, [usage.byDay, usage.byTask]);
+
+  const summaryCards = [
+    { label: 'SPEND', value: formatCost(totals.cost), className: 'bg-void text-white' },
+    { label: 'TOKENS', value: formatTokens(totals.tokens), className: 'bg-genz-yellow text-void' },
+    { label: 'RUNS', value: String(totals.runs), className: 'bg-light-gray text-void' },
+    { label: 'COST / TASK', value: formatCost(totals.costPerTask), className: 'bg-light-gray text-void' },
+  ];
+
+  const inputClassName =
+    'px-3 py-2 rounded-xl border-2 border-void/20 bg-white font-body text-sm focus:outline-none focus:border-void';
+
+  return (
+    <div className="h-full overflow-y-auto space-y-6 pr-1">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="font-heading text-2xl text-void mr-auto">USAGE</div>
+        {RANGE_PRESETS.map((preset) => (
+          <button
+            key={preset}
+            onClick={() => setRange({ from: daysAgo(preset - 1), to: daysAgo(0) })}
+            className="px-3 py-2 rounded-xl bg-white border-2 border-void/10 font-bold text-xs hover:border-void transition-colors"
+          >
+            {preset}D
+          </button>
+        ))}
+        <input
+          type="date"
+          value={range.from}
+          max={range.to}
+          onChange={(e) => e.target.value && setRange((r) => ({ ...r, from: e.target.value }))}
+          className={inputClassName}
+        />
+        <span className="text-void/40">→</span>
+        <input
+          type="date"
+          value={range.to}
+          min={range.from}
+          onChange={(e) => e.target.value && setRange((r) => ({ ...r, to: e.target.value }))}
+          className={inputClassName}
+        />
+        <button
+          onClick={() => downloadRunsCsv(usage.runs, `24hours-usage-${range.from}-${range.to}.csv`)}
+          disabled={usage.runs.length === 0}
+          className="px-4 py-2 rounded-xl bg-void text-white font-bold text-xs hover:bg-void/80 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          EXPORT CSV
+        </button>
+      </div>
+
+      {error && (
+        <div className="px-4 py-2 rounded-xl text-sm font-medium bg-red-100 text-red-800">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="h-64 flex items-center justify-center">
+          <div className="w-10 h-10 border-4 border-genz-yellow border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-4 gap-4">
+            {summaryCards.map((card) => (
+              <div key={card.label} className={`${card.className} rounded-bento p-5`}>
+                <div className="font-display text-2xl mb-2">{card.value}</div>
+                <div className="font-heading text-sm tracking-wider uppercase">{card.label}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Time series */}
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <UsageBarChart
+              title="Spend per day"
+              formatValue={formatCost}
+              bars={days.map((day) => ({
+                key: day.key,
+                segments: [{ value: day.costUsd, className: 'bg-void', label: 'Spend' }],
+              }))}
+            />
+            <UsageBarChart
+              title="Tokens per day"
+              formatValue={formatTokens}
+              legend={[
+                { label: 'Input', className: 'bg-blue-500' },
+                { label: 'Output', className: 'bg-genz-yellow' },
+                { label: 'Cache', className: 'bg-void/20' },
+              ]}
+              bars={days.map((day) => ({
+                key: day.key,
+                segments: [
+                  { value: day.inputTokens, className: 'bg-blue-500', label: 'Input' },
+                  { value: day.outputTokens, className: 'bg-genz-yellow', label: 'Output' },
+                  {
+                    value: day.cacheReadTokens + day.cacheCreationTokens,
+                    className: 'bg-void/20',
+                    label: 'Cache',
+                  },
+                ],
+              }))}
+            />
+          </div>
+
+          {/* Breakdowns */}
+          <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+            <UsageRankList
+              title="Most expensive tasks"
+              formatValue={formatCost}
+              items={usage.byTask.slice(0, 10).map((task) => ({
+                key: task.key,
+                value: task.costUsd,
+                detail: `${task.runs} run${task.runs === 1 ? '' : 's'} · ${formatTokens(totalTokens(task))} tokens`,
+              }))}
+            />
+            <UsageRankList
+              title="Model mix (spend)"
+              formatValue={formatCost}
+              barClassName="bg-blue-500"
+              showShare
+              items={usage.byModel.map((model) => ({
+                key: model.key,
+                value: model.costUsd,
+                detail: `${model.runs} run${model.runs === 1 ? '' : 's'}`,
+              }))}
+            />
+            <UsageRankList
+              title="Spend by label"
+              formatValue={formatCost}
+              barClassName="bg-orange-500"
+              items={usage.byLabel.map((label) => ({ key: label.key, value: label.costUsd }))}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+interface UsageRankListProps {
+  title: string;
+  items: { key: string; value: number; detail?: string }[];
+  formatValue: (value: number) => string;
+  barClassName?: string;
+  showShare?: boolean; // Show each item's share of the total
+}
+
+/**
+ * Horizontal bar ranking (most expensive tasks, model mix, labels)
+ */
+export function UsageRankList({
+  title,
+  items,
+  formatValue,
+  barClassName = 'bg-genz-yellow',
+  showShare = false,
+}: UsageRankListProps) {
+  const max = Math.max(0, ...items.map((item) => item.value));
+  const total = items.reduce((sum, item) => sum + item.value, 0);
+
+  return (
+    <div className="bg-white rounded-bento border-2 border-void/10 p-6">
+      <div className="font-heading text-sm tracking-wider uppercase text-void/60 mb-4">
+        {title}
+      </div>
+
+      {items.length === 0 ? (
+        <div className="py-6 text-center font-body text-sm text-void/40">No usage in this range</div>
+      ) : (
+        <div className="space-y-3">
+          {items.map((item) => (
+            <div key={item.key}>
+              <div className="flex items-center justify-between gap-3 font-body text-sm">
+                <span className="text-void truncate" title={item.key}>
+                  {item.key}
+                </span>
+                <span className="font-mono text-xs text-void/70 whitespace-nowrap">
+                  {formatValue(item.value)}
+                  {showShare && total > 0 && ` · ${Math.round((item.value / total) * 100)}%`}
+                </span>
+              </div>
+              <div className="mt-1 h-2 bg-void/5 rounded-full overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${barClassName}`}
+                  style={{ width: `${max > 0 ? (item.value / max) * 100 : 0}%` }}
+                />
+              </div>
+              {item.detail && (
+                <div className="mt-0.5 font-body text-[11px] text-void/40">{item.detail}</div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 import type { Settings } from '../types';
 
-export type SettingsGroup = 'anthropic' | 'linear' | 'model' | 'workspace';
+export type SettingsGroup = 'anthropic' | 'linear' | 'model' | 'workspace' | 'sources' | 'policy';
 
-export type FieldType = 'text' | 'password' | 'dropdown';
+export type FieldType = 'text' | 'password' | 'dropdown' | 'json';
 
 export interface DropdownOption {
   value: string;
@@ -23,6 +23,17 @@ export interface SettingsFieldConfig {
   };
 }
 
+export const AUTH_METHOD_OPTIONS: DropdownOption[] = [
+  { value: 'api_key', label: 'AUTH TOKEN (Proxy)' },
+  { value: 'login', label: 'API Key (Direct)' },
+];
+
+export const MODEL_OPTIONS: DropdownOption[] = [
+  { value: 'opus', label: 'Opus (Most Capable)' },
+  { value: 'sonnet', label: 'Sonnet (Balanced)' },
+  { value: 'haiku', label: 'Haiku (Fastest)' },
+];
+
 export const SETTINGS_FIELDS: SettingsFieldConfig[] = [
   // Model settings group
   {
@@ -31,10 +42,7 @@ export const SETTINGS_FIELDS: SettingsFieldConfig[] = [
     tooltip: 'Authentication method for Anthropic API. "API Key" uses proxy billing, "Login" uses direct Anthropic API.',
     type: 'dropdown',
     group: 'model',
-    options: [
-      { value: 'api_key', label: 'AUTH TOKEN (Proxy)' },
-      { value: 'login', label: 'API Key (Direct)' },
-    ],
+    options: AUTH_METHOD_OPTIONS,
   },
   {
     key: 'model',
@@ -42,11 +50,7 @@ export const SETTINGS_FIELDS: SettingsFieldConfig[] = [
     tooltip: 'Claude model to use for task execution. Opus is most capable, Haiku is fastest.',
     type: 'dropdown',
     group: 'model',
-    options: [
-      { value: 'opus', label: 'Opus (Most Capable)' },
-      { value: 'sonnet', label: 'Sonnet (Balanced)' },
-      { value: 'haiku', label: 'Haiku (Fastest)' },
-    ],
+    options: MODEL_OPTIONS,
   },
 
   // Anthropic settings group
@@ -82,6 +86,14 @@ export const SETTINGS_FIELDS: SettingsFieldConfig[] = [
       values: ['api_key'],
     },
   },
+  {
+    key: 'fallbackProfiles',
+    label: 'Fallback Profiles',
+    tooltip: 'JSON list of profiles tried in order when the endpoint is overloaded (529), rate limited (429) or unreachable. Each may set name, profile (a named Anthropic profile to start from), model, authMethod, apiKey, baseUrl, authToken and maxCostUsd; missing fields are taken from that profile, or else from the profile the run started with.',
+    type: 'json',
+    group: 'anthropic',
+    placeholder: '[{"profile": "Direct"}, {"name": "Haiku", "model": "haiku"}]',
+  },
 
   // Linear settings group
   {
@@ -108,6 +120,14 @@ export const SETTINGS_FIELDS: SettingsFieldConfig[] = [
     group: 'linear',
     placeholder: 'my-workspace',
   },
+  {
+    key: 'linearWebhookSecret',
+    label: 'Webhook Secret',
+    tooltip: 'Signing secret of the Linear webhook pointing at /api/webhooks/linear. When set, tasks are picked up from webhooks and polling only runs as a slow reconciliation.',
+    type: 'password',
+    group: 'linear',
+    placeholder: 'lin_wh_xxx...',
+  },
 
   // Workspace settings group
   {
@@ -118,6 +138,85 @@ export const SETTINGS_FIELDS: SettingsFieldConfig[] = [
     group: 'workspace',
     placeholder: '/path/to/your/project',
   },
+  {
+    key: 'worktreeMode',
+    label: 'Worktree Mode',
+    tooltip: 'Per task: each task runs in its own git worktree and branch (named after the identifier) under the workspace, so concurrent tasks do not touch the same files. The workspace must be a git repository. Worktrees are removed once the task is Done or Canceled.',
+    type: 'dropdown',
+    group: 'workspace',
+    options: [
+      { value: 'off', label: 'Off (Shared Workspace)' },
+      { value: 'per_task', label: 'Per Task (Git Worktree)' },
+    ],
+  },
+
+  // Task source settings group
+  {
+    key: 'taskSources',
+    label: 'Enabled Sources',
+    tooltip: 'Comma-separated list of task sources to pull work from. Available: linear, local.',
+    type: 'text',
+    group: 'sources',
+    placeholder: 'linear,local',
+  },
+  {
+    key: 'localTasksPath',
+    label: 'Local Tasks Path',
+    tooltip: 'Directory of YAML task files used by the "local" source. Status and comments are written back to each file.',
+    type: 'text',
+    group: 'sources',
+    placeholder: '/path/to/tasks',
+  },
+
+  // Policy settings group
+  {
+    key: 'reviewPolicy',
+    label: 'Review Policy',
+    tooltip: 'JSON rules deciding whether a finished task is auto-done, needs review or needs two approvals. Rules match labels, priority, assignee, project, source, titleRegex and tools used; the first match wins. Leave empty for the default (file writes or Bash → review, otherwise the agent decides).',
+    type: 'json',
+    group: 'policy',
+    placeholder: '{"rules": [{"name": "Docs", "match": {"labels": ["docs"]}, "action": "auto_done"}], "defaultAction": "agent"}',
+  },
+  {
+    key: 'taskBudgets',
+    label: 'Task Budgets',
+    tooltip: 'JSON caps per run: maxCostUsd, maxTokens, maxTurns, maxToolCalls, maxDurationMinutes. "labels" overrides the default for tasks with that label (the most restrictive wins). Caps are inclusive: a run may use up to the cap, and one that goes over it is stopped and marked Failed.',
+    type: 'json',
+    group: 'policy',
+    placeholder: '{"default": {"maxCostUsd": 5, "maxTurns": 100}, "labels": {"research": {"maxCostUsd": 15}}}',
+  },
+  {
+    key: 'modelRouting',
+    label: 'Model Routing',
+    tooltip: 'JSON rules picking the model and Anthropic profile per task from labels, priority, estimate, assignee, project, source or titleRegex; the first matching rule with a model (or profile) wins, otherwise the profile\'s default model or the Model setting applies. A "model: opus" line in the description front-matter takes precedence. Run kinds in "escalate" (feedback, retry) step up one model from the previous run.',
+    type: 'json',
+    group: 'policy',
+    placeholder: '{"rules": [{"name": "Urgent", "match": {"priority": [1]}, "model": "opus", "profile": "Direct"}, {"name": "Docs", "match": {"labels": ["docs"]}, "model": "haiku"}], "escalate": ["retry"]}',
+  },
+  {
+    key: 'feedbackQuietPeriod',
+    label: 'Feedback Quiet Period',
+    tooltip: 'Seconds to wait after the last comment before a feedback run starts, so several comments are handled in one run. Comments posted while a run is in progress are delivered to it as follow-up turns.',
+    type: 'text',
+    group: 'policy',
+    placeholder: '60',
+  },
+  {
+    key: 'contextTokenBudget',
+    label: 'Context Token Budget',
+    tooltip: 'Approximate tokens of task context (labels, cycle, parent and sub-issues, relations, attachments and comments) in the first prompt. The oldest comments are left out first when it does not fit.',
+    type: 'text',
+    group: 'policy',
+    placeholder: '8000',
+  },
+  {
+    key: 'planFirstLabel',
+    label: 'Plan First Label',
+    tooltip: 'Tasks with this label are broken down into sub-issues first. The plan waits for approval in review; once approved the sub-issues are queued, and the task is closed with a roll-up summary when they are finished.',
+    type: 'text',
+    group: 'policy',
+    placeholder: 'plan-first',
+  },
 ];
 
 export const GROUP_LABELS: Record<SettingsGroup, string> = {
@@ -125,6 +224,8 @@ export const GROUP_LABELS: Record<SettingsGroup, string> = {
   anthropic: 'Anthropic API',
   linear: 'Linear Integration',
   workspace: 'Workspace',
+  sources: 'Task Sources',
+  policy: 'Policies',
 };
 
-export const GROUP_ORDER: SettingsGroup[] = ['model', 'anthropic', 'linear', 'workspace'];
+export const GROUP_ORDER: SettingsGroup[] = ['model', 'anthropic', 'linear', 'sources', 'policy', 'workspace'];
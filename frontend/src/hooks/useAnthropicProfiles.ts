@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  fetchProfiles,
+  saveProfile as saveProfileApi,
+  deleteProfile as deleteProfileApi,
+} from '../services/api';
+import type { AnthropicProfile, AnthropicProfileInput } from '../types';
+
+export function useAnthropicProfiles() {
+  const [profiles, setProfiles] = useState<AnthropicProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadProfiles = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setProfiles(await fetchProfiles());
+    } catch (err) {
+      console.error('Failed to load profiles:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load profiles');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Create (no id) or update a profile, then reload the list
+  const saveProfile = useCallback(async (profile: AnthropicProfileInput, id?: number) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await saveProfileApi(profile, id);
+      await loadProfiles();
+    } catch (err) {
+      console.error('Failed to save profile:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save profile');
+      throw err; // Re-throw so UI can handle it
+    } finally {
+      setSaving(false);
+    }
+  }, [loadProfiles]);
+
+  const deleteProfile = useCallback(async (id: number) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await deleteProfileApi(id);
+      await loadProfiles();
+    } catch (err) {
+      console.error('Failed to delete profile:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete profile');
+    } finally {
+      setSaving(false);
+    }
+  }, [loadProfiles]);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  return {
+    profiles,
+    loading,
+    error,
+    saving,
+    saveProfile,
+    deleteProfile,
+  };
+}
@@ -0,0 +1,89 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  fetchPromptTemplates,
+  fetchPromptVersions,
+  savePromptTemplate,
+  rollbackPromptTemplate,
+} from '../services/api';
+import type { PromptTemplate, PromptTemplateName, PromptTemplateVersion } from '../types';
+
+/**
+ * Prompt templates and the version history of the selected one
+ */
+export function usePromptTemplates(selected: PromptTemplateName) {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadTemplates = useCallback(async () => {
+    setError(null);
+    try {
+      setTemplates(await fetchPromptTemplates());
+    } catch (err) {
+      console.error('Failed to load prompt templates:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load prompt templates');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      setVersions(await fetchPromptVersions(selected));
+    } catch (err) {
+      console.error('Failed to load prompt versions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load prompt versions');
+    }
+  }, [selected]);
+
+  // Save a new version of the selected template, then reload
+  const save = useCallback(async (body: string, note?: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await savePromptTemplate(selected, body, note);
+      await Promise.all([loadTemplates(), loadVersions()]);
+    } catch (err) {
+      console.error('Failed to save prompt template:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save prompt template');
+      throw err; // Re-throw so UI can handle it
+    } finally {
+      setSaving(false);
+    }
+  }, [selected, loadTemplates, loadVersions]);
+
+  const rollback = useCallback(async (version: number) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await rollbackPromptTemplate(selected, version);
+      await Promise.all([loadTemplates(), loadVersions()]);
+    } catch (err) {
+      console.error('Failed to roll back prompt template:', err);
+      setError(err instanceof Error ? err.message : 'Failed to roll back prompt template');
+      throw err;
+    } finally {
+      setSaving(false);
+    }
+  }, [selected, loadTemplates, loadVersions]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  return {
+    templates,
+    versions,
+    loading,
+    error,
+    saving,
+    save,
+    rollback,
+  };
+}
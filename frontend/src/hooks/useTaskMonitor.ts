@@ -6,14 +6,20 @@ import {
   fetchAllTasks,
   fetchIssueWithComments,
   fetchTaskSession,
+  fetchTaskReview,
+  fetchTaskRuns,
+  fetchTaskPlan,
   pauseExecution,
   resumeExecution,
   retryTask as retryTaskApi,
+  cancelTask as cancelTaskApi,
+  approveTaskPlan as approveTaskPlanApi,
 } from '../services/api';
 import type {
   Stats,
   RunningTask,
   QueuedTask,
+  WaitingTask,
   Log,
   TaskUpdateEvent,
   StatsEvent,
@@ -36,6 +42,7 @@ export function useTaskMonitor() {
   });
   const [runningTasks, setRunningTasks] = useState<RunningTask[]>([]);
   const [queuedTasks, setQueuedTasks] = useState<QueuedTask[]>([]);
+  const [waitingTasks, setWaitingTasks] = useState<WaitingTask[]>([]);
   const [logs, setLogs] = useState<Log[]>([]);
   const [allTasks, setAllTasks] = useState<LinearTask[]>([]);
   const [tasksLoading, setTasksLoading] = useState(true);
@@ -53,6 +60,7 @@ export function useTaskMonitor() {
 
       setStats(dashboardData.linear);
       setRunningTasks(dashboardData.runningTasks || []);
+      setWaitingTasks(dashboardData.waitingTasks || []);
 
       const queueData = await fetchQueue();
       setQueuedTasks(queueData);
@@ -80,10 +88,13 @@ export function useTaskMonitor() {
     setSelectedTask(task);
     setSelectedTaskLoading(true);
     try {
-      // Fetch issue details and session ID in parallel
-      const [issueData, sessionData] = await Promise.all([
+      // Fetch issue details, session ID, review decision, run history and plan in parallel
+      const [issueData, sessionData, reviewData, runsData, planData] = await Promise.all([
         fetchIssueWithComments(task.id),
         fetchTaskSession(task.id),
+        fetchTaskReview(task.id),
+        fetchTaskRuns(task.id),
+        fetchTaskPlan(task.id),
       ]);
 
       if (selectRequestIdRef.current !== requestId) {
@@ -95,6 +106,9 @@ export function useTaskMonitor() {
         setSelectedTask({
           ...issueData.issue,
           sessionId: sessionData.sessionId || undefined,
+          review: reviewData.review,
+          runs: runsData.runs,
+          plan: planData.plan,
         });
         setSelectedTaskComments(issueData.comments);
       } else {
@@ -102,6 +116,9 @@ export function useTaskMonitor() {
         setSelectedTask({
           ...task,
           sessionId: sessionData.sessionId || undefined,
+          review: reviewData.review,
+          runs: runsData.runs,
+          plan: planData.plan,
         });
       }
     } catch (error) {
@@ -149,10 +166,15 @@ export function useTaskMonitor() {
             startedAt: data.startedAt || new Date(),
             duration: data.duration || 0,
             sessionId: data.sessionId,
+            claimedBy: data.claimedBy,
           },
         ];
       });
-    } else if (data.status === 'completed' || data.status === 'failed') {
+    } else if (
+      data.status === 'completed' ||
+      data.status === 'failed' ||
+      data.status === 'cancelled'
+    ) {
       setRunningTasks((prev) => prev.filter((t) => t.taskId !== data.taskId));
     }
   }, []);
@@ -197,6 +219,7 @@ export function useTaskMonitor() {
     newSocket.on('task:update', handleTaskUpdate);
     newSocket.on('stats:update', handleStatsUpdate);
     newSocket.on('log:new', handleNewLog);
+    newSocket.on('task:waiting', setWaitingTasks);
 
     setSocket(newSocket);
 
@@ -230,12 +253,44 @@ export function useTaskMonitor() {
     }
   }, [fetchInitialData, fetchTasks]);
 
+  // Cancel a running or queued task
+  const cancelTask = useCallback(async (taskId: string) => {
+    try {
+      const result = await cancelTaskApi(taskId);
+      // Refresh data after cancel
+      await fetchInitialData();
+      await fetchTasks();
+      return result;
+    } catch (error) {
+      console.error('Failed to cancel task:', error);
+      throw error;
+    }
+  }, [fetchInitialData, fetchTasks]);
+
+  // Approve a task's plan, queueing its sub-issues
+  const approvePlan = useCallback(async (taskId: string) => {
+    try {
+      const result = await approveTaskPlanApi(taskId);
+      setSelectedTask((prev) =>
+        prev?.id === taskId && prev.plan ? { ...prev, plan: { ...prev.plan, status: 'approved' } } : prev,
+      );
+      // Refresh data after approval
+      await fetchInitialData();
+      await fetchTasks();
+      return result;
+    } catch (error) {
+      console.error('Failed to approve plan:', error);
+      throw error;
+    }
+  }, [fetchInitialData, fetchTasks]);
+
   return {
     isConnected,
     isPaused,
     stats,
     runningTasks,
     queuedTasks,
+    waitingTasks,
     logs,
     allTasks,
     tasksLoading,
@@ -249,5 +304,7 @@ export function useTaskMonitor() {
     togglePause,
     getRunningTaskByIdentifier,
     retryTask,
+    cancelTask,
+    approvePlan,
   };
 }
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchUsage, fetchUsageRuns } from '../services/api';
+import type { UsageGroup, UsageRun } from '../types';
+
+export interface UsageRange {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+}
+
+export interface UsageData {
+  byDay: UsageGroup[];
+  byTask: UsageGroup[];
+  byModel: UsageGroup[];
+  byLabel: UsageGroup[];
+  runs: UsageRun[];
+}
+
+const EMPTY_USAGE: UsageData = { byDay: [], byTask: [], byModel: [], byLabel: [], runs: [] };
+
+// The API treats `to` as exclusive, the date picker as inclusive
+function nextDay(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
+
+export function useUsage(range: UsageRange) {
+  const [usage, setUsage] = useState<UsageData>(EMPTY_USAGE);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const to = nextDay(range.to);
+      const [byDay, byTask, byModel, byLabel, runs] = await Promise.all([
+        fetchUsage('day', range.from, to),
+        fetchUsage('task', range.from, to),
+        fetchUsage('model', range.from, to),
+        fetchUsage('label', range.from, to),
+        fetchUsageRuns(range.from, to),
+      ]);
+      setUsage({ byDay, byTask, byModel, byLabel, runs });
+    } catch (err) {
+      console.error('Failed to load usage:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load usage');
+    } finally {
+      setLoading(false);
+    }
+  }, [range.from, range.to]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  return {
+    usage,
+    loading,
+    error,
+    reloadUsage: loadUsage,
+  };
+}
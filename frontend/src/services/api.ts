@@ -1,4 +1,24 @@
-import type { LinearTask, LinearComment, LinearState, Stats, Log, Settings } from '../types';
+import type {
+  LinearTask,
+  LinearComment,
+  LinearState,
+  Stats,
+  Log,
+  Settings,
+  AnthropicProfile,
+  AnthropicProfileInput,
+  PromptTemplate,
+  EffectivePrompt,
+  PromptTemplateName,
+  PromptTemplateVersion,
+  ReviewDecision,
+  TaskPlan,
+  TaskRun,
+  UsageGroup,
+  UsageGroupBy,
+  UsageRun,
+  WaitingTask,
+} from '../types';
 
 const API_URL = import.meta.env.VITE_API_URL || '';
 
@@ -13,6 +33,7 @@ export async function fetchDashboard(): Promise<{
     startedAt: Date;
     duration: number;
   }>;
+  waitingTasks?: WaitingTask[];
 }> {
   const response = await fetch(`${API_URL}/api/monitor/dashboard`);
   return response.json();
@@ -33,6 +54,46 @@ export async function fetchTaskSession(taskId: string): Promise<{ taskId: string
   return response.json();
 }
 
+export async function fetchTaskReview(
+  taskId: string,
+): Promise<{ taskId: string; review: ReviewDecision | null }> {
+  const response = await fetch(`${API_URL}/api/monitor/tasks/${encodeURIComponent(taskId)}/review`);
+  return response.json();
+}
+
+export async function fetchTaskRuns(
+  taskId: string,
+): Promise<{ taskId: string; runs: TaskRun[] }> {
+  const response = await fetch(`${API_URL}/api/monitor/tasks/${encodeURIComponent(taskId)}/runs`);
+  return response.json();
+}
+
+export async function fetchTaskPlan(
+  taskId: string,
+): Promise<{ taskId: string; plan: TaskPlan | null }> {
+  const response = await fetch(`${API_URL}/api/monitor/tasks/${encodeURIComponent(taskId)}/plan`);
+  return response.json();
+}
+
+export async function approveTaskPlan(taskId: string): Promise<{ success: boolean; message?: string }> {
+  const response = await fetch(`${API_URL}/api/monitor/tasks/${encodeURIComponent(taskId)}/plan/approve`, {
+    method: 'POST',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to approve the plan');
+  }
+  return response.json();
+}
+
+export async function fetchTaskPrompt(taskId: string): Promise<EffectivePrompt> {
+  const response = await fetch(`${API_URL}/api/monitor/tasks/${encodeURIComponent(taskId)}/prompt`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch the task prompt');
+  }
+  return response.json();
+}
+
 export async function fetchHistory() {
   const response = await fetch(`${API_URL}/api/monitor/history`);
   return response.json();
@@ -120,6 +181,48 @@ export async function retryTask(taskId: string): Promise<{ success: boolean; mes
   return response.json();
 }
 
+export async function cancelTask(taskId: string): Promise<{ success: boolean; message?: string }> {
+  const response = await fetch(`${API_URL}/api/monitor/tasks/${encodeURIComponent(taskId)}/cancel`, {
+    method: 'POST',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to cancel task');
+  }
+  return response.json();
+}
+
+// Usage API
+function usageRangeQuery(from?: string, to?: string): string {
+  const params = new URLSearchParams();
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+  return params.toString();
+}
+
+export async function fetchUsage(
+  groupBy: UsageGroupBy,
+  from?: string,
+  to?: string,
+): Promise<UsageGroup[]> {
+  const response = await fetch(
+    `${API_URL}/api/monitor/usage?groupBy=${groupBy}&${usageRangeQuery(from, to)}`,
+  );
+  if (!response.ok) {
+    throw new Error('Failed to fetch usage');
+  }
+  const data = await response.json();
+  return data.groups || [];
+}
+
+export async function fetchUsageRuns(from?: string, to?: string): Promise<UsageRun[]> {
+  const response = await fetch(`${API_URL}/api/monitor/usage/runs?${usageRangeQuery(from, to)}`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch usage runs');
+  }
+  return response.json();
+}
+
 // Settings API
 export async function fetchSettings(): Promise<Settings> {
   const response = await fetch(`${API_URL}/api/settings`);
@@ -143,3 +246,115 @@ export async function saveSettings(settings: Settings): Promise<Settings> {
   }
   return response.json();
 }
+
+// Anthropic profiles API
+export async function fetchProfiles(): Promise<AnthropicProfile[]> {
+  const response = await fetch(`${API_URL}/api/settings/profiles`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch profiles');
+  }
+  return response.json();
+}
+
+export async function saveProfile(
+  profile: AnthropicProfileInput,
+  id?: number,
+): Promise<AnthropicProfile> {
+  const response = await fetch(`${API_URL}/api/settings/profiles${id ? `/${id}` : ''}`, {
+    method: id ? 'PUT' : 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(profile),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to save profile');
+  }
+  return response.json();
+}
+
+export async function deleteProfile(id: number): Promise<void> {
+  const response = await fetch(`${API_URL}/api/settings/profiles/${id}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to delete profile');
+  }
+}
+
+// Prompt templates API
+export async function fetchPromptTemplates(): Promise<PromptTemplate[]> {
+  const response = await fetch(`${API_URL}/api/prompts`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch prompt templates');
+  }
+  return response.json();
+}
+
+export async function fetchPromptVersions(name: PromptTemplateName): Promise<PromptTemplateVersion[]> {
+  const response = await fetch(`${API_URL}/api/prompts/${name}/versions`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch prompt versions');
+  }
+  return response.json();
+}
+
+export async function savePromptTemplate(
+  name: PromptTemplateName,
+  body: string,
+  note?: string,
+): Promise<PromptTemplateVersion> {
+  const response = await fetch(`${API_URL}/api/prompts/${name}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ body, note }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to save prompt template');
+  }
+  return response.json();
+}
+
+export async function rollbackPromptTemplate(
+  name: PromptTemplateName,
+  version: number,
+): Promise<PromptTemplateVersion> {
+  const response = await fetch(`${API_URL}/api/prompts/${name}/rollback`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ version }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to roll back prompt template');
+  }
+  return response.json();
+}
+
+// Render a template body (default: the current version) against a task
+export async function previewPromptTemplate(
+  name: PromptTemplateName,
+  taskId: string,
+  body?: string,
+): Promise<string> {
+  const response = await fetch(`${API_URL}/api/prompts/${name}/preview`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ taskId, body }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to preview prompt template');
+  }
+  const { text } = await response.json();
+  return text;
+}
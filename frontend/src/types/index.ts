@@ -15,6 +15,7 @@ export interface RunningTask {
   startedAt: Date;
   duration: number;
   sessionId?: string;
+  claimedBy?: string;
 }
 
 export interface QueuedTask {
@@ -26,6 +27,23 @@ export interface QueuedTask {
   waitingTime: number;
 }
 
+export interface IssueRef {
+  id: string;
+  identifier: string;
+  title: string;
+  state?: string;
+}
+
+// A Todo task held back until its blockers and sub-issues are finished
+export interface WaitingTask {
+  taskId: string;
+  identifier: string;
+  title: string;
+  blockedBy: IssueRef[];
+  subIssues: IssueRef[];
+  since: string;
+}
+
 export interface Log {
   timestamp: Date;
   level: 'info' | 'warn' | 'error';
@@ -36,12 +54,13 @@ export interface Log {
 export interface TaskUpdateEvent {
   taskId: string;
   identifier: string;
-  status: 'queued' | 'running' | 'completed' | 'failed';
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
   progress?: number;
   currentStep?: string;
   startedAt?: Date;
   duration?: number;
   sessionId?: string;
+  claimedBy?: string;
 }
 
 export interface StatsEvent {
@@ -66,6 +85,58 @@ export interface LinearTask {
   assignee?: LinearUser;
   state?: LinearState;
   sessionId?: string;
+  review?: ReviewDecision | null;
+  runs?: TaskRun[];
+  plan?: TaskPlan | null;
+  source?: string;
+  project?: LinearProject;
+}
+
+export interface LinearProject {
+  id: string;
+  name: string;
+}
+
+// Review policy decision of the latest run
+export interface ReviewDecision {
+  action: 'auto_done' | 'review' | 'two_approvals';
+  rule: string | null;
+  reason: string;
+  approvalsRequired: number;
+  decidedAt: string;
+}
+
+// Plan First breakdown of a task into sub-issues
+export interface TaskPlan {
+  taskId: string;
+  identifier: string;
+  status: 'awaiting_approval' | 'approved' | 'completed' | 'skipped';
+  summary: string;
+  subtasks: { title: string; description: string; dependsOn: number[] }[];
+  subIssues: IssueRef[]; // Created from the sub-tasks
+  approvedBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One agent run of a task (feedback and retry runs resume their parent's session)
+export interface TaskRun {
+  id: number;
+  linearTaskId: string;
+  identifier: string;
+  runKind: 'execute' | 'feedback' | 'retry';
+  parentRunId: number | null;
+  sessionId: string | null;
+  startedAt: string;
+  completedAt: string | null;
+  outcome: 'running' | 'completed' | 'failed' | 'cancelled';
+  error: string | null;
+  model: string | null;
+  modelReason: string | null; // Why model routing picked the model
+  profile: string | null; // Anthropic profile the run ended on ("Primary": the Anthropic settings)
+  promptVersions: PromptVersions | null;
+  costUsd: number | null;
+  totalTokens: number | null;
 }
 
 export interface LinearUser {
@@ -128,10 +199,47 @@ export interface TaskWithDetails extends LinearTask {
   logs?: Log[];
 }
 
-export type NavItem = 'dashboard' | 'tasks';
+export type NavItem = 'dashboard' | 'tasks' | 'usage' | 'prompts';
 
 export type FilterStatus = 'all' | StatusType;
 
+// Usage types (per-run tokens and cost)
+export interface UsageTotals {
+  runs: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+  numTurns: number;
+  durationMs: number;
+}
+
+export type UsageGroupBy = 'day' | 'label' | 'model' | 'task';
+
+export interface UsageGroup extends UsageTotals {
+  key: string;
+}
+
+export interface UsageRun {
+  id: number;
+  linearTaskId: string;
+  identifier: string;
+  sessionId?: string;
+  runKind: 'execute' | 'feedback' | 'retry';
+  model: string;
+  labels: string[];
+  success: boolean;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+  numTurns: number;
+  durationMs: number;
+  completedAt: string;
+}
+
 // Settings types
 export interface Settings {
   // Model settings
@@ -142,15 +250,92 @@ export interface Settings {
   anthropicApiKey?: string;
   anthropicBaseUrl?: string;
   anthropicAuthToken?: string;
+  fallbackProfiles?: string;
 
   // Linear settings
   linearApiKey?: string;
   linearTeamId?: string;
   linearWorkspace?: string;
+  linearWebhookSecret?: string;
 
   // Workspace settings
   workspacePath?: string;
+  worktreeMode?: 'off' | 'per_task';
+
+  // Task source settings
+  taskSources?: string;
+  localTasksPath?: string;
+  // Policy settings
+  reviewPolicy?: string;
+  taskBudgets?: string;
+  modelRouting?: string;
+  feedbackQuietPeriod?: string;
+  contextTokenBudget?: string;
+  planFirstLabel?: string;
 }
 
 export type AuthMethod = Settings['authMethod'];
 export type ModelType = Settings['model'];
+
+// Named Anthropic endpoint/credentials, selected per task by label or routing rule
+export interface AnthropicProfile {
+  id: number;
+  name: string;
+  authMethod: AuthMethod;
+  model?: ModelType; // Default model of tasks using the profile
+  apiKey?: string; // Masked
+  baseUrl?: string;
+  authToken?: string; // Masked
+  maxCostUsd?: number; // Cost cap of each run
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AnthropicProfileInput = Omit<AnthropicProfile, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Prompt templates (editable and versioned, version 0 is the built-in default)
+export type PromptTemplateName =
+  | 'system'
+  | 'system_local'
+  | 'task'
+  | 'task_local'
+  | 'feedback'
+  | 'feedback_local'
+  | 'retry'
+  | 'plan';
+
+export interface PromptTemplateVersion {
+  name: PromptTemplateName;
+  version: number;
+  body: string;
+  note: string | null;
+  createdAt: string | null; // null for the built-in default
+}
+
+export interface PromptTemplate extends PromptTemplateVersion {
+  description: string;
+  variables: string[];
+}
+
+// Version of each template a run was prompted with (0: built-in)
+export type PromptVersions = Partial<Record<PromptTemplateName, number>>;
+
+// Instructions and defaults of the repository a task runs in
+export interface RepoConfig {
+  dir?: string;
+  instructions: { file: string; content: string }[];
+  model?: ModelType;
+  reviewPolicy?: unknown;
+  allowedTools?: string[];
+  verifyCommand?: string;
+  error?: string; // Invalid front-matter in .24hours/instructions.md
+}
+
+// Prompts a new run of a task would get
+export interface EffectivePrompt {
+  systemPrompt: string;
+  prompt: string;
+  promptVersions: PromptVersions;
+  model: { model: ModelType; reason: string; profile?: { name: string; reason: string } };
+  repo: RepoConfig;
+}
@@ -40,6 +40,9 @@ export interface ChatMessage {
   // For user/assistant text messages
   content?: string;
 
+  // User message carrying comments delivered to the running agent
+  deliveredComment?: boolean;
+
   // For assistant messages with multiple content blocks
   contentBlocks?: ContentBlock[];
 
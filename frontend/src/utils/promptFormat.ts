@@ -0,0 +1,10 @@
+import type { PromptVersions } from '../types';
+
+/**
+ * Prompt template versions, e.g. "system built-in · task v3"
+ */
+export function formatPromptVersions(versions: PromptVersions): string {
+  return Object.entries(versions)
+    .map(([name, version]) => `${name} ${version ? `v${version}` : 'built-in'}`)
+    .join(' · ');
+}
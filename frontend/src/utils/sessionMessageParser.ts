@@ -11,6 +11,9 @@ import type {
 
 let messageCounter = 0;
 
+// Comments delivered to a running agent start with this (see buildCommentDeliveryPrompt)
+const DELIVERED_COMMENT_PREFIX = '💬 ';
+
 /**
  * Generate a unique message ID
  */
@@ -77,6 +80,7 @@ function parseUserMessage(msg: SDKUserMessage): ChatMessage | null {
     type: 'user',
     timestamp: new Date(),
     content: textContent,
+    deliveredComment: textContent.startsWith(DELIVERED_COMMENT_PREFIX),
   };
 }
 
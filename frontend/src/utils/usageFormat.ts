@@ -0,0 +1,84 @@
+import type { UsageGroup, UsageRun } from '../types';
+
+export function formatCost(usd: number): string {
+  return usd >= 100 ? `$${usd.toFixed(0)}` : `$${usd.toFixed(2)}`;
+}
+
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}K`;
+  return String(tokens);
+}
+
+export function totalTokens(usage: Pick<UsageGroup, 'inputTokens' | 'outputTokens' | 'cacheReadTokens' | 'cacheCreationTokens'>): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheCreationTokens;
+}
+
+/**
+ * Fill missing days in a day-grouped series so the chart has no gaps
+ */
+export function fillDays(byDay: UsageGroup[], from: string, to: string): UsageGroup[] {
+  const byKey = new Map(byDay.map((group) => [group.key, group]));
+  const days: UsageGroup[] = [];
+  const cursor = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+
+  while (cursor <= end) {
+    const key = cursor.toISOString().slice(0, 10);
+    days.push(
+      byKey.get(key) || {
+        key,
+        runs: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheReadTokens: 0,
+        cacheCreationTokens: 0,
+        costUsd: 0,
+        numTurns: 0,
+        durationMs: 0,
+      },
+    );
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return days;
+}
+
+const CSV_COLUMNS: (keyof UsageRun)[] = [
+  'completedAt',
+  'identifier',
+  'runKind',
+  'model',
+  'labels',
+  'success',
+  'inputTokens',
+  'outputTokens',
+  'cacheReadTokens',
+  'cacheCreationTokens',
+  'costUsd',
+  'numTurns',
+  'durationMs',
+  'sessionId',
+];
+
+function escapeCsv(value: unknown): string {
+  const text = Array.isArray(value) ? value.join(';') : String(value ?? '');
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Download runs as a CSV file (one row per run)
+ */
+export function downloadRunsCsv(runs: UsageRun[], filename: string): void {
+  const rows = [
+    CSV_COLUMNS.join(','),
+    ...runs.map((run) => CSV_COLUMNS.map((column) => escapeCsv(run[column])).join(',')),
+  ];
+  const blob = new Blob([rows.join('\n')], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,82 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Replay a Linear webhook fixture against the local webhook endpoint.
+ *
+ * Usage:
+ *   npx ts-node scripts/replay-linear-webhook.ts <fixture.json> [issueId]
+ *
+ * The payload is re-stamped with the current time and signed with
+ * LINEAR_WEBHOOK_SECRET, exactly like Linear would, so the full verification
+ * path runs without a Linear webhook being configured.
+ */
+async function replayWebhook() {
+  const [fixturePath, issueId] = process.argv.slice(2);
+  const secret = process.env.LINEAR_WEBHOOK_SECRET;
+  const url =
+    process.env.WEBHOOK_URL || 'http://localhost:3000/api/webhooks/linear';
+
+  if (!fixturePath) {
+    console.error('Usage: replay-linear-webhook.ts <fixture.json> [issueId]');
+    console.error('Fixtures live in scripts/fixtures/linear-webhooks/');
+    process.exit(1);
+  }
+
+  if (!secret) {
+    console.error('LINEAR_WEBHOOK_SECRET is required to sign the payload');
+    process.exit(1);
+  }
+
+  const payload = JSON.parse(
+    fs.readFileSync(path.resolve(fixturePath), 'utf-8'),
+  );
+
+  // Point the fixture at a real issue when one is given
+  if (issueId) {
+    if (payload.type === 'Comment') {
+      payload.data.issueId = issueId;
+    } else {
+      payload.data.id = issueId;
+    }
+  }
+
+  payload.webhookTimestamp = Date.now();
+
+  const body = JSON.stringify(payload);
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(body)
+    .digest('hex');
+
+  console.log(`Replaying ${payload.type} ${payload.action} → ${url}`);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Linear-Event': payload.type,
+        'Linear-Delivery': crypto.randomUUID(),
+        'Linear-Signature': signature,
+      },
+      body,
+    });
+
+    console.log(`Response: ${response.status} ${await response.text()}`);
+
+    if (!response.ok) {
+      process.exit(1);
+    }
+    console.log('SUCCESS');
+  } catch (error) {
+    console.error('Failed to replay webhook:', error);
+    process.exit(1);
+  }
+}
+
+replayWebhook();
@@ -9,6 +9,12 @@ import { QueueModule } from './queue/queue.module';
 import { ClaudeModule } from './claude/claude.module';
 import { MonitorModule } from './monitor/monitor.module';
 import { SettingsModule } from './settings/settings.module';
+import { WebhookModule } from './webhook/webhook.module';
+import { TaskSourceModule } from './task-source/task-source.module';
+import { ClaimModule } from './claim/claim.module';
+import { PolicyModule } from './policy/policy.module';
+import { WorkspaceModule } from './workspace/workspace.module';
+import { PlanModule } from './plan/plan.module';
 
 @Module({
   imports: [
@@ -18,7 +24,7 @@ import { SettingsModule } from './settings/settings.module';
       load: [configuration],
     }),
 
-    // Schedule for polling
+    // Schedule for polling (reconciliation fallback when webhooks are enabled)
     ScheduleModule.forRoot(),
 
     // Bull queue with Redis
@@ -35,11 +41,17 @@ import { SettingsModule } from './settings/settings.module';
 
     // Feature modules
     LinearModule,
+    TaskSourceModule,
+    ClaimModule,
+    PolicyModule,
+    WorkspaceModule,
+    PlanModule,
     SchedulerModule,
     QueueModule,
     ClaudeModule,
     MonitorModule,
     SettingsModule,
+    WebhookModule,
   ],
 })
 export class AppModule {}
@@ -0,0 +1,9 @@
+import { Module, Global } from '@nestjs/common';
+import { TaskClaimService } from './task-claim.service';
+
+@Global()
+@Module({
+  providers: [TaskClaimService],
+  exports: [TaskClaimService],
+})
+export class ClaimModule {}
@@ -0,0 +1,191 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import * as crypto from 'crypto';
+import * as os from 'os';
+
+const CLAIM_KEY_PREFIX = '24hours:claim:';
+
+// Delete/extend the lease only if it is still the one we took
+const RELEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+const RENEW_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+// Take the lease if it is free or held by this worker (ARGV[3]: its prefix)
+const TAKE_OVER_SCRIPT = `
+local current = redis.call('get', KEYS[1])
+if not current or string.sub(current, 1, string.len(ARGV[3])) == ARGV[3] then
+  return redis.call('set', KEYS[1], ARGV[1], 'PX', ARGV[2])
+end
+return current`;
+
+export interface TaskClaim {
+  taskId: string;
+  holder: string;
+  expiresAt: Date;
+}
+
+/**
+ * Redis leases that guarantee a task is claimed by exactly one worker.
+ *
+ * A claim is a key with a TTL, so a crashed worker's claims expire on their
+ * own. Running workers keep their lease alive with a heartbeat. Each lease
+ * holds a token of the call that took it ("<worker>/<token>"), so a caller
+ * only ever releases or renews its own lease.
+ */
+@Injectable()
+export class TaskClaimService implements OnModuleDestroy {
+  private readonly logger = new Logger(TaskClaimService.name);
+  private readonly redis: Redis;
+
+  // Identifies this replica in claims and on the dashboard
+  readonly workerId = `${os.hostname()}:${process.pid}`;
+
+  constructor(private configService: ConfigService) {
+    this.redis = new Redis({
+      host: this.configService.get('redis.host'),
+      port: this.configService.get('redis.port'),
+      lazyConnect: true,
+    });
+  }
+
+  onModuleDestroy() {
+    this.redis.disconnect();
+  }
+
+  private getKey(taskId: string): string {
+    return `${CLAIM_KEY_PREFIX}${taskId}`;
+  }
+
+  private getTtl(): number {
+    return this.configService.get<number>('app.claimTtl') || 60000;
+  }
+
+  private newLease(): string {
+    return `${this.workerId}/${crypto.randomUUID()}`;
+  }
+
+  /**
+   * Try to claim an unclaimed task. Returns the lease to release it with, or
+   * null if the task is claimed, by another worker or by a run on this one.
+   */
+  async acquire(taskId: string): Promise<string | null> {
+    const lease = this.newLease();
+    const result = await this.redis.set(this.getKey(taskId), lease, 'PX', this.getTtl(), 'NX');
+    return result === 'OK' ? lease : null;
+  }
+
+  /**
+   * Extend a lease taken by acquire() or hold()
+   */
+  async renew(taskId: string, lease: string): Promise<boolean> {
+    const result = await this.redis.eval(RENEW_SCRIPT, 1, this.getKey(taskId), lease, this.getTtl());
+    return result === 1;
+  }
+
+  /**
+   * Release a lease (no-op if the claim has expired or was taken over since)
+   */
+  async release(taskId: string, lease: string): Promise<void> {
+    await this.redis.eval(RELEASE_SCRIPT, 1, this.getKey(taskId), lease);
+  }
+
+  /**
+   * Take the claim for the duration of a job and keep it alive with a heartbeat.
+   * A lease of this worker is taken over (one left by a previous process with
+   * the same worker ID); a lease of another worker means the task is running
+   * there, so the job fails and Bull retries it later. Returns a function that
+   * releases the claim.
+   */
+  async hold(taskId: string): Promise<() => Promise<void>> {
+    const ttl = this.getTtl();
+    const lease = this.newLease();
+    const result = await this.redis.eval(
+      TAKE_OVER_SCRIPT,
+      1,
+      this.getKey(taskId),
+      lease,
+      ttl,
+      `${this.workerId}/`,
+    );
+    if (result !== 'OK') {
+      throw new Error(`Task ${taskId} is claimed by ${getHolder(String(result))}`);
+    }
+
+    const heartbeat = setInterval(() => {
+      this.renew(taskId, lease).catch((error) =>
+        this.logger.warn(`Failed to renew claim for ${taskId}: ${error.message}`),
+      );
+    }, Math.floor(ttl / 3));
+
+    return async () => {
+      clearInterval(heartbeat);
+      await this.release(taskId, lease);
+    };
+  }
+
+  /**
+   * Get the current claim on a task, if any
+   */
+  async getClaim(taskId: string): Promise<TaskClaim | null> {
+    const key = this.getKey(taskId);
+    const [lease, ttl] = await Promise.all([
+      this.redis.get(key),
+      this.redis.pttl(key),
+    ]);
+
+    if (!lease || ttl < 0) {
+      return null;
+    }
+
+    return {
+      taskId,
+      holder: getHolder(lease),
+      expiresAt: new Date(Date.now() + ttl),
+    };
+  }
+
+  /**
+   * List all active claims across workers
+   */
+  async getAllClaims(): Promise<TaskClaim[]> {
+    const claims: TaskClaim[] = [];
+    let cursor = '0';
+
+    do {
+      const [nextCursor, keys] = await this.redis.scan(
+        cursor,
+        'MATCH',
+        `${CLAIM_KEY_PREFIX}*`,
+        'COUNT',
+        100,
+      );
+      cursor = nextCursor;
+
+      for (const key of keys) {
+        const claim = await this.getClaim(key.slice(CLAIM_KEY_PREFIX.length));
+        if (claim) {
+          claims.push(claim);
+        }
+      }
+    } while (cursor !== '0');
+
+    return claims;
+  }
+}
+
+/**
+ * Worker ID of a lease ("<worker>/<token>")
+ */
+function getHolder(lease: string): string {
+  const separator = lease.lastIndexOf('/');
+  return separator === -1 ? lease : lease.slice(0, separator);
+}
@@ -0,0 +1,59 @@
+import { AgentInput } from './agent-input';
+
+describe('AgentInput', () => {
+  const textOf = (result: IteratorResult<{ message: { content: unknown } }>) =>
+    result.done ? undefined : result.value.message.content;
+
+  it('starts with the prompt', async () => {
+    const input = new AgentInput('Fix the bug');
+    const iterator = input[Symbol.asyncIterator]();
+    expect(textOf(await iterator.next())).toBe('Fix the bug');
+  });
+
+  it('hands a message pushed later to a waiting reader', async () => {
+    const input = new AgentInput('Fix the bug');
+    const iterator = input[Symbol.asyncIterator]();
+    await iterator.next();
+
+    const next = iterator.next();
+    expect(input.push('Use the new API')).toBe(true);
+    expect(textOf(await next)).toBe('Use the new API');
+  });
+
+  it('keeps messages pending until they are acknowledged', async () => {
+    const input = new AgentInput('Fix the bug');
+    const iterator = input[Symbol.asyncIterator]();
+    const first = await iterator.next();
+    expect(input.hasPending).toBe(true);
+
+    input.acknowledge(first.value.uuid);
+    expect(input.hasPending).toBe(false);
+
+    input.push('Also update the docs');
+    expect(input.hasPending).toBe(true);
+  });
+
+  it('ends a waiting reader and refuses messages once closed', async () => {
+    const input = new AgentInput('Fix the bug');
+    const iterator = input[Symbol.asyncIterator]();
+    await iterator.next();
+
+    const next = iterator.next();
+    input.close();
+    await expect(next).resolves.toEqual({ value: undefined, done: true });
+    expect(input.isClosed).toBe(true);
+    expect(input.push('Too late')).toBe(false);
+  });
+
+  it('delivers queued messages before ending', async () => {
+    const input = new AgentInput('Fix the bug');
+    input.push('Use the new API');
+    input.close();
+
+    const texts: unknown[] = [];
+    for await (const message of input) {
+      texts.push(message.message.content);
+    }
+    expect(texts).toEqual(['Fix the bug', 'Use the new API']);
+  });
+});
@@ -0,0 +1,90 @@
+import { randomUUID } from 'crypto';
+import type { SDKUserMessage } from '@anthropic-ai/claude-agent-sdk';
+
+/**
+ * Streaming input of an agent query.
+ * The prompt is the first message; comments arriving while the agent works
+ * are pushed as further user messages. The CLI replays every message it has
+ * taken in (--replay-user-messages), which acknowledges it here.
+ */
+export class AgentInput implements AsyncIterable<SDKUserMessage> {
+  private queue: SDKUserMessage[] = [];
+  private waiting?: (result: IteratorResult<SDKUserMessage>) => void;
+  private unacknowledged = new Set<string>();
+  private closed = false;
+
+  constructor(prompt: string) {
+    this.push(prompt);
+  }
+
+  /**
+   * Queue a user message. Returns false once the input is closed.
+   */
+  push(text: string): boolean {
+    if (this.closed) return false;
+
+    const message: SDKUserMessage = {
+      type: 'user',
+      message: { role: 'user', content: text },
+      parent_tool_use_id: null,
+      uuid: randomUUID(),
+      session_id: '',
+    };
+    this.unacknowledged.add(message.uuid!);
+
+    if (this.waiting) {
+      const resolve = this.waiting;
+      this.waiting = undefined;
+      resolve({ value: message, done: false });
+    } else {
+      this.queue.push(message);
+    }
+    return true;
+  }
+
+  /**
+   * Mark a message as taken in by the agent (it was replayed)
+   */
+  acknowledge(uuid: string): void {
+    this.unacknowledged.delete(uuid);
+  }
+
+  /**
+   * Whether a pushed message has not been taken in yet; the agent will
+   * answer it in another turn
+   */
+  get hasPending(): boolean {
+    return this.unacknowledged.size > 0;
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * End the input, which lets the query finish after the current turn
+   */
+  close(): void {
+    this.closed = true;
+    if (this.waiting) {
+      const resolve = this.waiting;
+      this.waiting = undefined;
+      resolve({ value: undefined, done: true });
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<SDKUserMessage> {
+    return {
+      next: () => {
+        const message = this.queue.shift();
+        if (message) {
+          return Promise.resolve({ value: message, done: false });
+        }
+        if (this.closed) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve) => (this.waiting = resolve));
+      },
+    };
+  }
+}
@@ -0,0 +1,73 @@
+import { isRetryableError, parseAnthropicProfile, parseFallbackProfiles } from './anthropic-profiles';
+
+describe('isRetryableError', () => {
+  it('retries overload, rate limits and unreachable endpoints', () => {
+    expect(isRetryableError('API Error: 529 {"type":"overloaded_error"}')).toBe(true);
+    expect(isRetryableError('429 Too Many Requests')).toBe(true);
+    expect(isRetryableError('connect ECONNREFUSED 127.0.0.1:8080')).toBe(true);
+  });
+
+  it('does not retry errors of the task itself', () => {
+    expect(isRetryableError('Invalid API key')).toBe(false);
+    expect(isRetryableError('Command failed with exit code 1')).toBe(false);
+  });
+});
+
+describe('parseFallbackProfiles', () => {
+  it('keeps every field of a fallback', () => {
+    expect(
+      parseFallbackProfiles([
+        {
+          name: 'Backup',
+          profile: 'Direct',
+          model: 'haiku',
+          authMethod: 'api_key',
+          baseUrl: 'https://proxy.example.com',
+          authToken: 'token',
+          maxCostUsd: 2.5,
+        },
+      ]),
+    ).toEqual([
+      {
+        name: 'Backup',
+        profile: 'Direct',
+        model: 'haiku',
+        authMethod: 'api_key',
+        apiKey: undefined,
+        baseUrl: 'https://proxy.example.com',
+        authToken: 'token',
+        maxCostUsd: 2.5,
+      },
+    ]);
+  });
+
+  it('names a fallback after the profile it refers to', () => {
+    expect(parseFallbackProfiles([{ profile: 'Direct' }, { model: 'haiku' }]).map((p) => p.name)).toEqual([
+      'Direct',
+      'Fallback 2',
+    ]);
+  });
+
+  it('accepts a cost cap given as a string', () => {
+    expect(parseFallbackProfiles([{ maxCostUsd: '3' }])[0].maxCostUsd).toBe(3);
+    expect(parseFallbackProfiles([{ maxCostUsd: '' }])[0].maxCostUsd).toBeUndefined();
+  });
+
+  it('rejects invalid lists', () => {
+    expect(() => parseFallbackProfiles({ profile: 'Direct' })).toThrow('expected an array of profiles');
+    expect(() => parseFallbackProfiles(['Direct'])).toThrow('Profile 1 must be an object');
+    expect(() => parseFallbackProfiles([{ model: 'gpt' }])).toThrow('Profile 1 has an invalid model "gpt"');
+    expect(() => parseFallbackProfiles([{ authMethod: 'oauth' }])).toThrow('Profile 1 has an invalid authMethod');
+    expect(() => parseFallbackProfiles([{ apiKey: 42 }])).toThrow('Profile 1 has an invalid apiKey');
+    expect(() => parseFallbackProfiles([{ maxCostUsd: 0 }])).toThrow('Profile 1 must have a positive maxCostUsd');
+  });
+});
+
+describe('parseAnthropicProfile', () => {
+  it('checks the cost cap the same way', () => {
+    expect(parseAnthropicProfile({ name: 'Direct', authMethod: 'login', maxCostUsd: '4' }).maxCostUsd).toBe(4);
+    expect(() => parseAnthropicProfile({ name: 'Direct', authMethod: 'login', maxCostUsd: -1 })).toThrow(
+      'maxCostUsd must be a positive number',
+    );
+  });
+});
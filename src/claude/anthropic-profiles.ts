@@ -0,0 +1,152 @@
+import { ClaudeModel } from '../policy/policy.types';
+
+export type AuthMethod = 'api_key' | 'login';
+
+/**
+ * Endpoint, credentials and optionally model a query runs with
+ */
+export interface AnthropicProfile {
+  name: string;
+  authMethod: AuthMethod;
+  model?: ClaudeModel; // Default model of tasks using the profile
+  apiKey?: string; // 'login' mode
+  baseUrl?: string; // 'api_key' mode (proxy)
+  authToken?: string; // 'api_key' mode (proxy)
+  maxCostUsd?: number; // Cost cap of each run using the profile
+}
+
+/**
+ * A named profile stored in the settings database
+ */
+export interface StoredAnthropicProfile extends AnthropicProfile {
+  id: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A fallback profile as configured; missing fields are taken from the named
+ * profile in `profile`, or else from the profile the run started with
+ */
+export type FallbackProfile = Partial<AnthropicProfile> & { name: string; profile?: string };
+
+const MODELS: ClaudeModel[] = ['opus', 'sonnet', 'haiku'];
+const AUTH_METHODS: AuthMethod[] = ['api_key', 'login'];
+const CREDENTIAL_FIELDS = ['apiKey', 'authToken'] as const;
+const FALLBACK_TEXT_FIELDS = ['name', 'profile', 'apiKey', 'baseUrl', 'authToken'] as const;
+
+// Overload, rate limits and an unreachable endpoint are worth another profile
+const RETRYABLE_ERROR_PATTERN =
+  /\b(429|500|502|503|504|529)\b|overloaded|rate.?limit|ECONNREFUSED|ECONNRESET|ENOTFOUND|ETIMEDOUT|EAI_AGAIN|fetch failed|connection error/i;
+
+/**
+ * Whether an error means the endpoint is unavailable (rather than the task failing)
+ */
+export function isRetryableError(message: string): boolean {
+  return RETRYABLE_ERROR_PATTERN.test(message);
+}
+
+/**
+ * Read an optional cost cap; NaN if it is set but not a positive number
+ */
+function readMaxCostUsd(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const amount = Number(value);
+  return amount > 0 ? amount : NaN;
+}
+
+/**
+ * Validate a parsed list of fallback profiles
+ */
+export function parseFallbackProfiles(value: unknown): FallbackProfile[] {
+  if (!Array.isArray(value)) {
+    throw new Error('expected an array of profiles');
+  }
+
+  return value.map((item: unknown, index: number) => {
+    if (!item || typeof item !== 'object') {
+      throw new Error(`Profile ${index + 1} must be an object`);
+    }
+
+    const profile = item as Record<string, unknown>;
+    for (const field of FALLBACK_TEXT_FIELDS) {
+      if (profile[field] !== undefined && typeof profile[field] !== 'string') {
+        throw new Error(`Profile ${index + 1} has an invalid ${field}`);
+      }
+    }
+    if (profile.model !== undefined && !MODELS.includes(profile.model as ClaudeModel)) {
+      throw new Error(`Profile ${index + 1} has an invalid model "${profile.model}"`);
+    }
+    if (profile.authMethod !== undefined && !AUTH_METHODS.includes(profile.authMethod as AuthMethod)) {
+      throw new Error(`Profile ${index + 1} has an invalid authMethod "${profile.authMethod}"`);
+    }
+    const maxCostUsd = readMaxCostUsd(profile.maxCostUsd);
+    if (Number.isNaN(maxCostUsd)) {
+      throw new Error(`Profile ${index + 1} must have a positive maxCostUsd`);
+    }
+
+    const text = profile as Partial<Record<(typeof FALLBACK_TEXT_FIELDS)[number], string>>;
+    return {
+      name: text.name || text.profile || `Fallback ${index + 1}`,
+      profile: text.profile,
+      authMethod: profile.authMethod as AuthMethod | undefined,
+      model: profile.model as ClaudeModel | undefined,
+      apiKey: text.apiKey,
+      baseUrl: text.baseUrl,
+      authToken: text.authToken,
+      maxCostUsd,
+    };
+  });
+}
+
+/**
+ * Validate a named profile submitted from the dashboard
+ */
+export function parseAnthropicProfile(value: any): AnthropicProfile {
+  const name = typeof value?.name === 'string' ? value.name.trim() : '';
+  if (!name) {
+    throw new Error('name is required');
+  }
+  if (!AUTH_METHODS.includes(value.authMethod)) {
+    throw new Error('authMethod must be either api_key or login');
+  }
+  if (value.model && !MODELS.includes(value.model)) {
+    throw new Error(`invalid model "${value.model}"`);
+  }
+
+  const maxCostUsd = readMaxCostUsd(value.maxCostUsd);
+  if (Number.isNaN(maxCostUsd)) {
+    throw new Error('maxCostUsd must be a positive number');
+  }
+
+  return {
+    name,
+    authMethod: value.authMethod,
+    model: value.model || undefined,
+    apiKey: value.apiKey || undefined,
+    baseUrl: value.baseUrl || undefined,
+    authToken: value.authToken || undefined,
+    maxCostUsd,
+  };
+}
+
+/**
+ * Apply a function to the credentials of each profile (masking for
+ * display, restoring on save)
+ */
+export function mapProfileCredentials<T extends Partial<AnthropicProfile>>(
+  profiles: T[],
+  map: (value: string, field: (typeof CREDENTIAL_FIELDS)[number], profile: T) => string,
+): T[] {
+  return profiles.map((profile) => {
+    const mapped = { ...profile };
+    for (const field of CREDENTIAL_FIELDS) {
+      if (mapped[field]) {
+        mapped[field] = map(mapped[field]!, field, profile);
+      }
+    }
+    return mapped;
+  });
+}
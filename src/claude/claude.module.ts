@@ -1,11 +1,14 @@
 import { Module, Global } from '@nestjs/common';
 import { ClaudeService } from './claude.service';
 import { ClaudeController } from './claude.controller';
+import { PromptTemplateService } from './prompt-template.service';
+import { PromptTemplateController } from './prompt-template.controller';
+import { TaskContextService } from './task-context.service';
 
 @Global()
 @Module({
-  controllers: [ClaudeController],
-  providers: [ClaudeService],
-  exports: [ClaudeService],
+  controllers: [ClaudeController, PromptTemplateController],
+  providers: [ClaudeService, PromptTemplateService, TaskContextService],
+  exports: [ClaudeService, PromptTemplateService, TaskContextService],
 })
 export class ClaudeModule {}
@@ -1,26 +1,150 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
-import { query, type SDKMessage } from '@anthropic-ai/claude-agent-sdk';
-import { LinearTask } from '../linear/linear.types';
-import { LinearService } from '../linear/linear.service';
+import { exec } from 'child_process';
+import { promisify } from 'util';
 import {
-  buildTaskPrompt,
-  buildSystemPrompt,
-  buildFeedbackPrompt,
+  query,
+  type SDKMessage,
+  type SDKResultMessage,
+  type McpServerConfig,
+} from '@anthropic-ai/claude-agent-sdk';
+import { LinearTask, TaskStatus } from '../linear/linear.types';
+import { TaskSourceService, isSystemComment } from '../task-source/task-source.service';
+import {
+  buildWorktreeInstructions,
+  buildCommentDeliveryPrompt,
+  buildRepoInstructions,
+  buildTaskFilesInstructions,
+  buildReceivedFilesNote,
+  buildPlanFeedbackPrompt,
 } from './prompts/task-execution.prompt';
-import { ProgressCallback, TaskExecutionResult } from '../queue/task.interface';
+import { PromptTemplateName, PromptVersions } from './prompts/prompt-templates';
+import { PromptTemplateService } from './prompt-template.service';
+import {
+  FailureReason,
+  ProgressCallback,
+  RunUsage,
+  TaskExecutionResult,
+} from '../queue/task.interface';
+import {
+  TASK_VERDICT_SCHEMA,
+  FAILURE_REASON_LABELS,
+  formatVerdictComment,
+  getFailureReason,
+  parseVerdict,
+} from './task-verdict';
+import { TASK_PLAN_SCHEMA, parsePlan } from './task-plan';
 import { SettingsProviderService } from '../settings/settings-provider.service';
+import { SettingsService } from '../settings/settings.service';
 import { MonitorGateway } from '../monitor/monitor.gateway';
+import { TaskBudgetService } from '../policy/task-budget.service';
+import { ModelChoice, ProfileChoice, TaskBudget } from '../policy/policy.types';
+import { ModelRoutingService } from '../policy/model-routing.service';
+import { checkBudget, getRemainingBudget } from '../policy/budget-check';
+import { TaskWorkspace, WorkspaceService } from '../workspace/workspace.service';
+import { RepoConfigService } from '../workspace/repo-config.service';
+import { RepoConfig } from '../workspace/repo-config';
+import { TaskFiles, TaskFilesService } from '../workspace/task-files.service';
+import { RunKind, SessionStoreService } from '../monitor/session-store.service';
+import { AgentInput } from './agent-input';
+import { isCommentCommand } from '../scheduler/comment-commands';
+import {
+  AnthropicProfile,
+  AuthMethod,
+  FallbackProfile,
+  isRetryableError,
+  parseFallbackProfiles,
+} from './anthropic-profiles';
+
+// How often a running task's status is checked for a move to Canceled
+const CANCEL_CHECK_INTERVAL_MS = 30 * 1000;
+// How often a running task is checked for new comments to deliver
+const COMMENT_CHECK_INTERVAL_MS = 15 * 1000;
+// How long to wait for the agent to take in comments that arrived as a turn ended
+const PENDING_INPUT_GRACE_MS = 60 * 1000;
+// API errors reported by the CLI (after its own retries) that move on to a fallback profile
+const RETRYABLE_API_ERRORS = ['rate_limit', 'server_error'];
+// Limits of the repository's verify command and how much of its output is reported
+const VERIFY_TIMEOUT_MS = 15 * 60 * 1000;
+const VERIFY_OUTPUT_CHARS = 3000;
+
+const execAsync = promisify(exec);
+
+/**
+ * Handles of a query running on this worker
+ */
+interface ActiveRun {
+  cancel: (reason: string) => void;
+  checkComments: () => Promise<void>;
+}
+
+/**
+ * How to run an agent query
+ */
+interface AgentOptions {
+  systemPrompt?: string;
+  resume?: string;
+  forkSession?: boolean;
+  cwd?: string;
+  tools?: string[]; // Built-in tools available to the agent (repository config)
+  linearMcp: boolean;
+  budget: TaskBudget;
+  model: ModelChoice;
+  profile: AnthropicProfile;
+  outputSchema?: Record<string, unknown>; // Structured result, TASK_VERDICT_SCHEMA by default
+}
+
+/**
+ * State collected while streaming an agent query
+ */
+interface AgentRun {
+  model: string;
+  profile: string; // Name of the Anthropic profile the query ran with
+  sessionId?: string;
+  result?: SDKResultMessage;
+  toolCallCount: number;
+  toolsUsed: Set<string>;
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  budgetExceeded?: string; // Which cap stopped the run
+  cancelled?: string; // Why the run was cancelled
+  apiError?: string; // Overload, rate limit or unreachable endpoint
+  startedAt: number;
+  earlierAttempts?: RunUsage; // Spent by attempts on unavailable profiles before this one
+}
 
-type AuthMethod = 'api_key' | 'login';
+/**
+ * Prompts a new run of a task would get, and the model and repository
+ * config they come with
+ */
+export interface EffectivePrompt {
+  systemPrompt: string;
+  prompt: string;
+  promptVersions: PromptVersions;
+  model: ModelChoice;
+  repo: RepoConfig;
+}
 
 @Injectable()
 export class ClaudeService implements OnModuleInit {
   private readonly logger = new Logger(ClaudeService.name);
+  // Queries running on this worker, by task ID
+  private activeRuns: Map<string, ActiveRun> = new Map();
 
   constructor(
     private settingsProvider: SettingsProviderService,
-    private linearService: LinearService,
+    private settingsService: SettingsService,
+    private taskSources: TaskSourceService,
     private monitorGateway: MonitorGateway,
+    private taskBudgets: TaskBudgetService,
+    private workspaces: WorkspaceService,
+    private sessionStore: SessionStoreService,
+    private modelRouting: ModelRoutingService,
+    private promptTemplates: PromptTemplateService,
+    private repoConfig: RepoConfigService,
+    private taskFiles: TaskFilesService,
   ) {}
 
   onModuleInit() {
@@ -34,6 +158,11 @@ export class ClaudeService implements OnModuleInit {
       this.logger.log('Using standard Anthropic API');
     }
 
+    const fallbacks = this.getFallbackProfiles();
+    if (fallbacks.length > 0) {
+      this.logger.log(`Fallback profiles: ${fallbacks.map((p) => p.name).join(', ')}`);
+    }
+
     const workspacePath = this.settingsProvider.getWorkspacePath();
     if (workspacePath) {
       this.logger.log(`Claude workspace restricted to: ${workspacePath}`);
@@ -48,35 +177,113 @@ export class ClaudeService implements OnModuleInit {
   }
 
   /**
-   * Get current workspace path (dynamic, reads from settings each time)
+   * Pick the model and profile of a run: the task's /model override,
+   * otherwise the routing rules. Follow-up turns keep the model of the run
+   * they continue.
+   */
+  private chooseModel(
+    task: LinearTask,
+    runKind: RunKind,
+    followUp = false,
+  ): ModelChoice {
+    const latest = this.sessionStore.getLatestRunModel(task.id);
+    if (followUp && latest) {
+      return { ...(latest as ModelChoice), profile: this.modelRouting.selectProfile(task) };
+    }
+
+    const { model } = this.sessionStore.getOverrides(task.id);
+    if (model) {
+      return { model, reason: 'Set with /model', profile: this.modelRouting.selectProfile(task) };
+    }
+    return this.modelRouting.resolve(task, runKind, latest?.model);
+  }
+
+  /**
+   * Get the configured fallback profiles (none on invalid JSON)
    */
-  private getWorkspacePath(): string | undefined {
-    return this.settingsProvider.getWorkspacePath();
+  private getFallbackProfiles(): FallbackProfile[] {
+    const raw = this.settingsProvider.getFallbackProfiles();
+    if (!raw) {
+      return [];
+    }
+
+    try {
+      return parseFallbackProfiles(JSON.parse(raw));
+    } catch (error) {
+      this.logger.warn(`Invalid fallback profiles, not falling back: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * The named profile picked for the run, or the Anthropic settings
+   */
+  private getPrimaryProfile(selected?: ProfileChoice): AnthropicProfile {
+    const stored = selected && this.settingsService.getProfileByName(selected.name);
+    if (stored) {
+      return stored;
+    }
+    if (selected) {
+      this.logger.warn(`Profile "${selected.name}" no longer exists, using the Anthropic settings`);
+    }
+
+    return {
+      name: 'Primary',
+      authMethod: this.getAuthMethod(),
+      apiKey: this.settingsProvider.getAnthropicApiKey(),
+      baseUrl: this.settingsProvider.getAnthropicBaseUrl(),
+      authToken: this.settingsProvider.getAnthropicAuthToken(),
+    };
   }
 
   /**
-   * Get model name from settings
+   * Profiles and models to run a query with, in order: the picked profile,
+   * then the fallback profiles. A fallback's missing fields are taken from
+   * the named profile it refers to, or else from the picked profile.
    */
-  private getModel(): 'opus' | 'sonnet' | 'haiku' {
-    return this.settingsProvider.getModel();
+  private getAttempts(choice: ModelChoice): { profile: AnthropicProfile; model: ModelChoice }[] {
+    const primary = this.getPrimaryProfile(choice.profile);
+    const attempts = [{ profile: primary, model: choice }];
+
+    for (const fallback of this.getFallbackProfiles()) {
+      const base = fallback.profile ? this.settingsService.getProfileByName(fallback.profile) : primary;
+      if (!base) {
+        this.logger.warn(`Fallback "${fallback.name}" refers to unknown profile "${fallback.profile}"`);
+        continue;
+      }
+
+      const profile: AnthropicProfile = { ...base };
+      for (const [key, value] of Object.entries(fallback)) {
+        if (value !== undefined && key !== 'profile') Object.assign(profile, { [key]: value });
+      }
+
+      // A fallback runs on its own model, or the default model of the profile it refers to
+      const model = fallback.model ?? (fallback.profile ? base.model : undefined);
+      attempts.push({
+        profile,
+        model: model ? { model, reason: `Fallback profile "${profile.name}"` } : choice,
+      });
+    }
+
+    return attempts;
   }
 
   /**
-   * Build environment variables based on authentication method
+   * Build environment variables based on the profile's authentication method
    * - 'api_key': Use proxy API (ANTHROPIC_BASE_URL + ANTHROPIC_AUTH_TOKEN as ANTHROPIC_API_KEY)
    * - 'login': Use standard Anthropic API (ANTHROPIC_API_KEY)
    */
-  private buildEnvVars(): Record<string, string | undefined> {
+  private buildEnvVars(profile: AnthropicProfile): Record<string, string | undefined> {
     const baseEnv = { ...process.env };
-    const authMethod = this.getAuthMethod();
 
-    if (authMethod === 'api_key') {
+    if (profile.authMethod === 'api_key') {
       // For proxy API billing: use ANTHROPIC_BASE_URL and ANTHROPIC_AUTH_TOKEN
-      const baseUrl = this.settingsProvider.getAnthropicBaseUrl();
-      const authToken = this.settingsProvider.getAnthropicAuthToken();
+      const { baseUrl, authToken } = profile;
 
       if (!baseUrl || !authToken) {
-        throw new Error('ANTHROPIC_BASE_URL and ANTHROPIC_AUTH_TOKEN are required for api_key mode');
+        throw new Error(
+          `ANTHROPIC_BASE_URL and ANTHROPIC_AUTH_TOKEN are required for api_key mode (profile "${profile.name}")`,
+        );
       }
 
       return {
@@ -87,9 +294,9 @@ export class ClaudeService implements OnModuleInit {
     }
 
     // For login mode: use standard Anthropic API key
-    const apiKey = this.settingsProvider.getAnthropicApiKey();
+    const { apiKey } = profile;
     if (!apiKey) {
-      throw new Error('ANTHROPIC_API_KEY is required for login mode');
+      throw new Error(`ANTHROPIC_API_KEY is required for login mode (profile "${profile.name}")`);
     }
 
     return {
@@ -100,6 +307,72 @@ export class ClaudeService implements OnModuleInit {
     };
   }
 
+  /**
+   * Cancel the query running for a task on this worker.
+   * Returns false if the task is not running here.
+   */
+  cancel(taskId: string, reason: string): boolean {
+    const activeRun = this.activeRuns.get(taskId);
+    if (!activeRun) {
+      return false;
+    }
+    activeRun.cancel(reason);
+    return true;
+  }
+
+  /**
+   * Deliver new comments to a task running on this worker right away
+   * instead of at the next check. Returns false if the task is not running here.
+   */
+  deliverComments(taskId: string): boolean {
+    const activeRun = this.activeRuns.get(taskId);
+    if (!activeRun) {
+      return false;
+    }
+    void activeRun.checkComments();
+    return true;
+  }
+
+  /**
+   * Check whether a task is running on this worker
+   */
+  isRunning(taskId: string): boolean {
+    return this.activeRuns.has(taskId);
+  }
+
+  /**
+   * Whether the agent reports progress through Linear MCP for this task.
+   * Tasks from other sources are reported on by the system instead.
+   */
+  private usesLinearMcp(task: LinearTask): boolean {
+    return this.taskSources.getSourceName(task) === 'linear';
+  }
+
+  /**
+   * Build MCP servers configuration
+   * Linear MCP uses OAuth 2.1 or Bearer token authentication
+   * Pass API key via --header flag for direct authentication
+   */
+  private buildMcpServers(linearMcp: boolean): Record<string, McpServerConfig> {
+    if (!linearMcp) {
+      return {};
+    }
+
+    return {
+      linear: {
+        type: 'stdio',
+        command: 'npx',
+        args: [
+          '-y',
+          'mcp-remote',
+          'https://mcp.linear.app/mcp',
+          '--header',
+          `Authorization: Bearer ${this.settingsProvider.getLinearApiKey() || ''}`,
+        ],
+      },
+    };
+  }
+
   /**
    * Execute a task using Claude Agent SDK with MCP support
    */
@@ -108,7 +381,6 @@ export class ClaudeService implements OnModuleInit {
     callbacks?: ProgressCallback,
   ): Promise<TaskExecutionResult> {
     const authMethod = this.getAuthMethod();
-    const workspacePath = this.getWorkspacePath();
 
     this.logger.log(`Executing task: ${task.identifier} (auth: ${authMethod})`);
     const startTime = Date.now();
@@ -117,72 +389,413 @@ export class ClaudeService implements OnModuleInit {
       // Post initial comment via LinearService (before Claude starts)
       callbacks?.onProgress('🚀 Starting task execution', 10);
 
-      // Build prompts
-      const taskPrompt = buildTaskPrompt(task);
-      const systemPrompt = buildSystemPrompt();
+      // Build prompts from the current template versions and the repository's instructions
+      const linearMcp = this.usesLinearMcp(task);
+      const workspace = await this.workspaces.prepare(task);
+      const details = await this.loadDetails(task);
+      const repo = this.repoConfig.load(workspace.cwd);
+      const received = await this.taskFiles.receive(details, workspace.cwd);
+      if (received?.received.length) {
+        callbacks?.onProgress(`📎 Downloaded ${received.received.length} attached file(s)`, 15);
+      }
+      const { systemPrompt, prompt, promptVersions } = await this.buildPrompts(
+        details,
+        workspace,
+        repo,
+        received?.files ?? null,
+      );
+      callbacks?.onPromptVersions?.(promptVersions);
 
       this.logger.log('Creating Claude Agent query...');
 
-      // Build environment variables based on auth method
-      const envVars = this.buildEnvVars();
+      const run = await this.runWithFallback(
+        task,
+        prompt,
+        {
+          systemPrompt,
+          cwd: workspace.cwd,
+          tools: repo.allowedTools,
+          linearMcp,
+          budget: this.resolveBudget(details),
+          model: this.chooseModel(details, 'execute'),
+        },
+        callbacks,
+      );
+
+      this.logger.log(`Claude query completed, processed ${run.toolCallCount} tool calls`);
+
+      return await this.completeRun(task, run, startTime, callbacks, {
+        completed: '🎉 Task completed',
+        failed: '❌ Task execution failed',
+      }, { cwd: workspace.cwd, verifyCommand: repo.verifyCommand, files: received?.files });
+    } catch (error) {
+      this.logger.error('Claude execution failed:', error);
+      this.logger.error('Error details:', error.message, error.stack);
+
+      const errorMessage = this.describeError(error, authMethod);
+
+      callbacks?.onProgress(`❌ Execution failed: ${errorMessage}`, 100);
+      return {
+        success: false,
+        error: errorMessage,
+        failureReason: 'exception',
+      };
+    }
+  }
+
+  /**
+   * Render the system and task prompts of a new run from the current
+   * template versions, adding the repository's instructions and task files
+   * @param taskTemplate - first prompt of the run (the task template by default)
+   */
+  private async buildPrompts(
+    task: LinearTask,
+    workspace: TaskWorkspace,
+    repo: RepoConfig,
+    files: TaskFiles | null,
+    taskTemplate: PromptTemplateName = this.usesLinearMcp(task) ? 'task' : 'task_local',
+  ): Promise<{ systemPrompt: string; prompt: string; promptVersions: PromptVersions }> {
+    const linearMcp = this.usesLinearMcp(task);
+    const systemTemplate = linearMcp ? 'system' : 'system_local';
+    const system = await this.promptTemplates.render(systemTemplate, task);
+    const prompt = await this.promptTemplates.render(taskTemplate, task);
+
+    const sections = [system.text];
+    if (repo.instructions.length > 0 || repo.verifyCommand) {
+      sections.push(buildRepoInstructions(repo.instructions, repo.verifyCommand));
+    }
+    if (workspace.branch) {
+      sections.push(buildWorktreeInstructions(workspace.branch));
+    }
+    if (files) {
+      sections.push(buildTaskFilesInstructions(files.inbox, files.outbox, this.taskFiles.list(files, 'inbox')));
+    }
+
+    return {
+      systemPrompt: sections.join('\n\n'),
+      prompt: prompt.text,
+      promptVersions: { [systemTemplate]: system.version, [taskTemplate]: prompt.version },
+    };
+  }
+
+  /**
+   * Prompts and model a new run of the task would get, without preparing
+   * its worktree (shown on the dashboard)
+   */
+  async getEffectivePrompt(task: LinearTask): Promise<EffectivePrompt> {
+    const details = await this.loadDetails(task);
+    const workspace = this.workspaces.locate(details);
+    const repo = this.repoConfig.load(workspace.cwd);
+    const files = this.taskFiles.locate(details, workspace.cwd);
+
+    return {
+      ...(await this.buildPrompts(details, workspace, repo, files)),
+      model: this.chooseModel(details, 'execute'),
+      repo,
+    };
+  }
+
+  /**
+   * Break a task down into sub-tasks without implementing it. The plan is
+   * returned on the result; the caller turns it into sub-issues.
+   * @param revision - feedback on a previous plan, resuming its planning session
+   */
+  async planTask(
+    task: LinearTask,
+    callbacks?: ProgressCallback,
+    revision?: { feedback: string; sessionId: string },
+  ): Promise<TaskExecutionResult> {
+    const authMethod = this.getAuthMethod();
+
+    this.logger.log(`Planning task: ${task.identifier}${revision ? ' (revision)' : ''} (auth: ${authMethod})`);
+    const startTime = Date.now();
+
+    try {
+      callbacks?.onProgress(revision ? '📋 Revising the plan' : '📋 Planning task breakdown', 10);
+
+      const linearMcp = this.usesLinearMcp(task);
+      const workspace = await this.workspaces.prepare(task);
+      const details = await this.loadDetails(task);
+      const repo = this.repoConfig.load(workspace.cwd);
+      const received = await this.taskFiles.receive(details, workspace.cwd);
 
-      // Create a query using Claude Agent SDK V1 (full features)
-      const agentQuery = query({
-        prompt: taskPrompt,
-        options: {
-          model: this.getModel(),
+      // A revision resumes the planning session, which already has the system prompt
+      let systemPrompt: string | undefined;
+      let prompt: string;
+      if (revision) {
+        prompt = buildPlanFeedbackPrompt(revision.feedback);
+      } else {
+        const built = await this.buildPrompts(details, workspace, repo, received?.files ?? null, 'plan');
+        ({ systemPrompt, prompt } = built);
+        callbacks?.onPromptVersions?.(built.promptVersions);
+      }
+
+      const run = await this.runWithFallback(
+        task,
+        prompt,
+        {
           systemPrompt,
-          // Pass environment variables to Claude Code subprocess
-          env: envVars,
-          // Set working directory if workspace path is configured
-          cwd: workspacePath,
-          // Bypass all permission checks for automated task execution
-          permissionMode: 'bypassPermissions',
-          allowDangerouslySkipPermissions: true,
-          // MCP servers configuration for Linear integration
-          // Linear MCP uses OAuth 2.1 or Bearer token authentication
-          // Pass API key via --header flag for direct authentication
-          mcpServers: {
-            linear: {
-              type: 'stdio',
-              command: 'npx',
-              args: [
-                '-y',
-                'mcp-remote',
-                'https://mcp.linear.app/mcp',
-                '--header',
-                `Authorization: Bearer ${this.settingsProvider.getLinearApiKey() || ''}`,
-              ],
-            },
-          },
+          resume: revision?.sessionId,
+          forkSession: revision ? true : undefined,
+          cwd: workspace.cwd,
+          tools: repo.allowedTools,
+          linearMcp,
+          budget: this.resolveBudget(details),
+          model: this.chooseModel(details, revision ? 'feedback' : 'execute'),
+          outputSchema: TASK_PLAN_SCHEMA,
         },
+        callbacks,
+      );
+
+      this.logger.log(`Planning completed, processed ${run.toolCallCount} tool calls`);
+
+      const result = await this.completeRun(task, run, startTime, callbacks, {
+        completed: '📋 Plan ready',
+        failed: '❌ Planning failed',
       });
+      const plan = result.success && run.result?.subtype === 'success' ? parsePlan(run.result.structured_output) : null;
+      return plan ? { ...result, plan } : result;
+    } catch (error) {
+      this.logger.error('Claude planning failed:', error);
+
+      const errorMessage = this.describeError(error, authMethod);
+
+      callbacks?.onProgress(`❌ Planning failed: ${errorMessage}`, 100);
+      return {
+        success: false,
+        error: errorMessage,
+        failureReason: 'exception',
+        sessionId: revision?.sessionId,
+      };
+    }
+  }
+
+  /**
+   * Run the query with each profile in turn until one is not overloaded,
+   * rate limited or unreachable. The last profile's outcome is returned as is.
+   */
+  private async runWithFallback(
+    task: LinearTask,
+    prompt: string,
+    options: Omit<AgentOptions, 'profile'>,
+    callbacks?: ProgressCallback,
+  ): Promise<AgentRun> {
+    const attempts = this.getAttempts(options.model);
+    if (options.model.profile) {
+      this.logger.log(
+        `${task.identifier} uses profile "${options.model.profile.name}" (${options.model.profile.reason})`,
+      );
+    }
+
+    // Every attempt counts against the same caps
+    let spent: RunUsage | undefined;
+    let spentToolCalls = 0;
+    let budget = options.budget;
+
+    for (let i = 0; ; i++) {
+      const { profile, model } = attempts[i];
+      const next = attempts[i + 1]?.profile;
+      let apiError: string;
+
+      try {
+        const run = await this.runAgent(task, prompt, { ...options, budget, profile, model }, callbacks);
+        run.earlierAttempts = spent;
+        if (!next || !this.shouldFallBack(run)) {
+          return run;
+        }
+        apiError = run.apiError!;
+        if (run.sessionId) {
+          this.monitorGateway.broadcastSessionComplete(run.sessionId, false);
+        }
+
+        spent = this.buildUsage(run);
+        spentToolCalls += run.toolCallCount;
+        const remaining = getRemainingBudget(options.budget, spent, spentToolCalls);
+        if (!remaining) {
+          this.logger.warn(`${task.identifier}: budget used up, not falling back to "${next.name}"`);
+          return run;
+        }
+        budget = remaining;
+      } catch (error) {
+        if (!next || !isRetryableError(error.message)) {
+          throw error;
+        }
+        apiError = error.message;
+      }
+
+      this.logger.warn(
+        `${task.identifier}: profile "${profile.name}" unavailable (${apiError}), falling back to "${next.name}"`,
+      );
+      callbacks?.onProgress(`⚠️ ${profile.name} unavailable, falling back to ${next.name}`, 10);
+    }
+  }
+
+  /**
+   * Whether a run stopped on an unavailable endpoint without reaching a verdict
+   */
+  private shouldFallBack(run: AgentRun): boolean {
+    if (!run.apiError || run.cancelled || run.budgetExceeded) {
+      return false;
+    }
+    return !(run.result?.subtype === 'success' && parseVerdict(run.result.structured_output));
+  }
+
+  /**
+   * Run a Claude Agent query to completion, streaming messages to the monitor.
+   * The agent must finish with a structured verdict (TASK_VERDICT_SCHEMA, or
+   * the plan schema for planning runs).
+   * Comments posted while it runs are streamed in as further user messages.
+   */
+  private async runAgent(
+    task: LinearTask,
+    prompt: string,
+    options: AgentOptions,
+    callbacks?: ProgressCallback,
+  ): Promise<AgentRun> {
+    const { budget, profile } = options;
+    const { model, reason } = options.model;
+    const abortController = new AbortController();
+    const input = new AgentInput(prompt);
+    const startedAt = Date.now();
+
+    this.logger.log(`Running ${task.identifier} on ${model} (${reason}) with profile "${profile.name}"`);
+    callbacks?.onModel?.(model, reason, profile.name);
+
+    const agentQuery = query({
+      prompt: input,
+      options: {
+        model,
+        systemPrompt: options.systemPrompt,
+        // Resume a previous session (feedback / retry), by default under a
+        // new session ID so every run keeps its own transcript
+        resume: options.resume,
+        forkSession: options.forkSession,
+        // Pass environment variables to Claude Code subprocess
+        env: this.buildEnvVars(profile),
+        // Workspace path, or the task's own worktree
+        cwd: options.cwd,
+        // Built-in tools the repository allows (all by default)
+        tools: options.tools,
+        // Bypass all permission checks for automated task execution
+        permissionMode: 'bypassPermissions',
+        allowDangerouslySkipPermissions: true,
+        // MCP servers (Linear MCP for Linear-sourced tasks)
+        mcpServers: this.buildMcpServers(options.linearMcp),
+        // Final outcome is reported as structured output
+        outputFormat: { type: 'json_schema', schema: options.outputSchema ?? TASK_VERDICT_SCHEMA },
+        // Cost cap is enforced by the SDK, the other caps in the loop below
+        maxBudgetUsd: this.getCostCap(budget, profile),
+        abortController,
+        // Acknowledge streamed-in messages once the agent has taken them in
+        extraArgs: { 'replay-user-messages': null },
+      },
+    });
+
+    let lastProgress = 10;
+    const run: AgentRun = {
+      model,
+      profile: profile.name,
+      sessionId: options.resume,
+      startedAt,
+      toolCallCount: 0,
+      toolsUsed: new Set(),
+      turns: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheReadTokens: 0,
+      cacheCreationTokens: 0,
+    };
+    const countedMessages = new Set<string>();
+
+    // Abort the query once, remembering why (budget cap or cancellation)
+    const stop = (reason: string, cause: 'budgetExceeded' | 'cancelled') => {
+      if (run.budgetExceeded || run.cancelled) return;
+      run[cause] = reason;
+      this.logger.warn(`Stopping ${task.identifier}: ${reason}`);
+      abortController.abort();
+    };
 
-      // Collect response text and track progress
-      let responseText = '';
-      let lastProgress = 10;
-      let toolCallCount = 0;
-      let sessionId: string | undefined;
+    // One comment check at a time, so a comment is never delivered twice
+    let commentCheck: Promise<void> | undefined;
+    const checkComments = () =>
+      (commentCheck ??= this.deliverNewComments(task, input, startedAt, options.linearMcp).finally(
+        () => (commentCheck = undefined),
+      ));
 
+    this.activeRuns.set(task.id, {
+      cancel: (reason) => stop(reason, 'cancelled'),
+      checkComments,
+    });
+
+    const timer = budget.maxDurationMinutes
+      ? setTimeout(
+          () =>
+            stop(
+              `Wall-clock cap of ${budget.maxDurationMinutes} minutes reached`,
+              'budgetExceeded',
+            ),
+          budget.maxDurationMinutes * 60 * 1000,
+        )
+      : undefined;
+
+    // A move to Canceled (in Linear or any other source) stops the run
+    const cancelWatcher = setInterval(() => {
+      this.isCanceledAtSource(task.id).then((canceled) => {
+        if (canceled) stop('Task status changed to Canceled', 'cancelled');
+      });
+    }, CANCEL_CHECK_INTERVAL_MS);
+    const commentWatcher = setInterval(checkComments, COMMENT_CHECK_INTERVAL_MS);
+    let pendingInputTimer: NodeJS.Timeout | undefined;
+
+    try {
       // Process streaming messages
       for await (const msg of agentQuery) {
+        clearTimeout(pendingInputTimer);
+
         // Broadcast message to WebSocket subscribers
-        if (sessionId) {
+        if (run.sessionId) {
           this.monitorGateway.broadcastSessionMessage({
-            sessionId,
+            sessionId: run.sessionId,
             message: msg,
             timestamp: new Date(),
           });
         }
 
+        if (msg.type === 'user' && 'isReplay' in msg) {
+          input.acknowledge(msg.uuid);
+        }
+
+        if (msg.type === 'assistant' && msg.error && RETRYABLE_API_ERRORS.includes(msg.error)) {
+          run.apiError = msg.error;
+        }
+
+        if (msg.type === 'result') {
+          run.result = msg;
+          // Comments not taken in yet get another turn; otherwise the run is done
+          if (input.hasPending) {
+            pendingInputTimer = setTimeout(() => input.close(), PENDING_INPUT_GRACE_MS);
+          } else {
+            input.close();
+          }
+        }
+
+        // One API response can arrive as several messages with the same ID
+        if (msg.type === 'assistant' && !countedMessages.has(msg.message.id)) {
+          countedMessages.add(msg.message.id);
+          const usage = msg.message.usage;
+          run.turns++;
+          run.inputTokens += usage.input_tokens;
+          run.outputTokens += usage.output_tokens;
+          run.cacheReadTokens += usage.cache_read_input_tokens ?? 0;
+          run.cacheCreationTokens += usage.cache_creation_input_tokens ?? 0;
+        }
+
         this.processMessage(msg, task.id, callbacks, {
-          onText: (text: string) => {
-            responseText += text;
-          },
           onToolUse: (toolName: string) => {
-            toolCallCount++;
+            run.toolCallCount++;
+            run.toolsUsed.add(toolName);
             // Update progress based on tool calls
-            lastProgress = Math.min(90, 20 + toolCallCount * 15);
+            lastProgress = Math.min(90, 20 + run.toolCallCount * 15);
             this.logger.log(`Tool used: ${toolName}`);
             callbacks?.onProgress(`Using tool: ${toolName}`, lastProgress);
           },
@@ -190,76 +803,309 @@ export class ClaudeService implements OnModuleInit {
             this.logger.log(`Query result: ${result.slice(0, 100)}...`);
           },
           onSessionId: (id: string) => {
-            sessionId = id;
+            run.sessionId = id;
             this.logger.log(`Session ID captured: ${id}`);
             callbacks?.onSessionId?.(id);
           },
         });
+
+        const exceeded = checkBudget(run, budget);
+        if (exceeded) {
+          stop(exceeded, 'budgetExceeded');
+          break;
+        }
+      }
+    } catch (error) {
+      // Aborting on a budget cap or cancellation ends the stream with an error
+      if (!run.budgetExceeded && !run.cancelled) {
+        throw error;
       }
+    } finally {
+      input.close();
+      clearTimeout(timer);
+      clearTimeout(pendingInputTimer);
+      clearInterval(cancelWatcher);
+      clearInterval(commentWatcher);
+      this.activeRuns.delete(task.id);
+    }
+
+    // Errors during execution can also come from the endpoint
+    const { result } = run;
+    if (!run.apiError && result?.subtype !== 'success' && result?.errors.some(isRetryableError)) {
+      run.apiError = result.errors.join('\n');
+    }
 
-      this.logger.log(`Claude query completed, processed ${toolCallCount} tool calls`);
+    return run;
+  }
 
-      // Check for failure indicators in response
-      const hasError =
-        responseText.includes('❌') && responseText.includes('failed');
+  /**
+   * Push human comments posted since the run started into the live session
+   * (commands are left to the pollers).
+   * Delivered comments are marked processed so they are not handled again
+   * as review feedback.
+   */
+  private async deliverNewComments(
+    task: LinearTask,
+    input: AgentInput,
+    since: number,
+    linearMcp: boolean,
+  ): Promise<void> {
+    if (input.isClosed) return;
 
-      // Broadcast session completion
-      if (sessionId) {
-        this.monitorGateway.broadcastSessionComplete(sessionId, !hasError);
+    try {
+      const comments = (await this.taskSources.getComments(task.id)).filter(
+        (c) =>
+          !isSystemComment(c) &&
+          !isCommentCommand(c.body) &&
+          new Date(c.createdAt).getTime() >= since &&
+          !this.sessionStore.isCommentProcessed(c.id),
+      );
+      if (comments.length === 0 || !input.push(buildCommentDeliveryPrompt(comments, linearMcp))) {
+        return;
       }
 
-      if (hasError) {
-        callbacks?.onProgress('❌ Task execution failed', 100);
-        return {
-          success: false,
-          error: responseText,
-          sessionId,
-        };
-      }
+      this.sessionStore.markCommentsProcessed(
+        comments.map((c) => c.id),
+        task.id,
+      );
+      this.logger.log(`Delivered ${comments.length} comment(s) to running ${task.identifier}`);
+    } catch (error) {
+      this.logger.warn(`Could not check comments of ${task.id}: ${error.message}`);
+    }
+  }
 
-      // Calculate execution time
-      const duration = Math.round((Date.now() - startTime) / 1000);
+  /**
+   * Check whether the task was moved to Canceled at its source
+   */
+  private async isCanceledAtSource(taskId: string): Promise<boolean> {
+    try {
+      const current = await this.taskSources.getTask(taskId);
+      return current?.state?.name === TaskStatus.CANCELED;
+    } catch (error) {
+      this.logger.warn(`Could not check status of ${taskId}: ${error.message}`);
+      return false;
+    }
+  }
 
-      // Post completion summary if Claude didn't already
-      if (!responseText.includes('🎉') && !responseText.includes('👀')) {
-        await this.linearService.addComment(
-          task.id,
-          `🎉 Task completed\n\n**Execution Summary:**\n${responseText.slice(0, 500)}\n\n**Duration:** ${duration} seconds`,
-        );
-      }
+  /**
+   * Usage of a run, including the attempts on unavailable profiles before it
+   */
+  private buildUsage(run: AgentRun): RunUsage {
+    const usage = this.getAttemptUsage(run);
+    const earlier = run.earlierAttempts;
+    if (!earlier) {
+      return usage;
+    }
+
+    return {
+      model: usage.model,
+      inputTokens: earlier.inputTokens + usage.inputTokens,
+      outputTokens: earlier.outputTokens + usage.outputTokens,
+      cacheReadTokens: earlier.cacheReadTokens + usage.cacheReadTokens,
+      cacheCreationTokens: earlier.cacheCreationTokens + usage.cacheCreationTokens,
+      costUsd: earlier.costUsd + usage.costUsd,
+      numTurns: earlier.numTurns + usage.numTurns,
+      durationMs: earlier.durationMs + usage.durationMs,
+    };
+  }
+
+  /**
+   * Usage of a single attempt: the SDK result when available, live counters
+   * otherwise (e.g. when the query was aborted on a budget cap or cancelled)
+   */
+  private getAttemptUsage(run: AgentRun): RunUsage {
+    const { result } = run;
+    if (!result) {
+      return {
+        model: run.model,
+        inputTokens: run.inputTokens,
+        outputTokens: run.outputTokens,
+        cacheReadTokens: run.cacheReadTokens,
+        cacheCreationTokens: run.cacheCreationTokens,
+        costUsd: 0,
+        numTurns: run.turns,
+        durationMs: Date.now() - run.startedAt,
+      };
+    }
+
+    // Runs can mix models (e.g. Haiku for sub-tasks); report the one with the most spend
+    const [model] = Object.entries(result.modelUsage).sort(
+      ([, a], [, b]) => b.costUSD - a.costUSD,
+    )[0] || [run.model];
+
+    return {
+      model,
+      inputTokens: result.usage.input_tokens,
+      outputTokens: result.usage.output_tokens,
+      cacheReadTokens: result.usage.cache_read_input_tokens,
+      cacheCreationTokens: result.usage.cache_creation_input_tokens,
+      costUsd: result.total_cost_usd,
+      numTurns: result.num_turns,
+      durationMs: result.duration_ms,
+    };
+  }
+
+  /**
+   * Queued tasks may lack labels, so load the task's details for budgets and model routing
+   */
+  private async loadDetails(task: LinearTask): Promise<LinearTask> {
+    return task.labels ? task : (await this.taskSources.getTask(task.id)) || task;
+  }
 
-      callbacks?.onProgress('🎉 Task completed', 100);
+  /**
+   * Resolve the task's caps. A /budget override replaces the cost cap.
+   */
+  private resolveBudget(task: LinearTask): TaskBudget {
+    const budget = this.taskBudgets.getBudget(task);
+    const { maxCostUsd } = this.sessionStore.getOverrides(task.id);
+    return maxCostUsd ? { ...budget, maxCostUsd } : budget;
+  }
+
+  /**
+   * Cost cap of a query: the lower of the task's and the profile's
+   */
+  private getCostCap(budget: TaskBudget, profile: AnthropicProfile): number | undefined {
+    const caps = [budget.maxCostUsd, profile.maxCostUsd].filter((cap): cap is number => !!cap);
+    return caps.length > 0 ? Math.min(...caps) : undefined;
+  }
+
+  /**
+   * Turn a finished agent run into an execution result.
+   * Failure is decided by the result subtype and the agent's verdict only.
+   */
+  private async completeRun(
+    task: LinearTask,
+    run: AgentRun,
+    startTime: number,
+    callbacks: ProgressCallback | undefined,
+    headings: { completed: string; failed: string },
+    workspace: { cwd?: string; verifyCommand?: string; files?: TaskFiles } = {},
+  ): Promise<TaskExecutionResult> {
+    const { result, sessionId } = run;
 
+    // Cancellation is reported separately from failure
+    if (run.cancelled) {
+      if (sessionId) {
+        this.monitorGateway.broadcastSessionComplete(sessionId, false);
+      }
+      callbacks?.onProgress('🛑 Execution cancelled', 100);
       return {
-        success: true,
+        success: false,
+        cancelled: run.cancelled,
+        toolsUsed: Array.from(run.toolsUsed),
+        usage: this.buildUsage(run),
         sessionId,
       };
-    } catch (error) {
-      this.logger.error('Claude execution failed:', error);
-      this.logger.error('Error details:', error.message, error.stack);
+    }
 
-      // Provide helpful error message based on auth method
-      let errorMessage = error.message;
-      if (error.message.includes('401') || error.message.includes('invalid token') || error.message.includes('invalid')) {
-        if (authMethod === 'api_key') {
-          errorMessage = `Proxy API authentication failed. Please check if ANTHROPIC_BASE_URL and ANTHROPIC_AUTH_TOKEN are correct.\nOriginal error: ${error.message}`;
-        } else {
-          errorMessage = `Anthropic API authentication failed. Please check if ANTHROPIC_API_KEY is correct.\nOriginal error: ${error.message}`;
-        }
+    const verdict =
+      result?.subtype === 'success' ? parseVerdict(result.structured_output) : null;
+
+    let failureReason: FailureReason | undefined;
+    let error: string | undefined;
+
+    if (run.budgetExceeded) {
+      failureReason = 'budget_exceeded';
+      error = run.budgetExceeded;
+    } else if (!result) {
+      failureReason = 'execution_error';
+      error = 'Agent exited without a result';
+    } else if (result.subtype !== 'success') {
+      failureReason = getFailureReason(result.subtype);
+      error = result.errors.join('\n') || FAILURE_REASON_LABELS[failureReason];
+    } else if (!verdict) {
+      failureReason = 'invalid_verdict';
+      error = FAILURE_REASON_LABELS.invalid_verdict;
+    } else if (verdict.status === 'failed') {
+      failureReason = 'agent_reported';
+      error = verdict.summary;
+    } else if (workspace.verifyCommand) {
+      const verifyError = await this.runVerifyCommand(workspace.verifyCommand, workspace.cwd, callbacks);
+      if (verifyError) {
+        failureReason = 'verification_failed';
+        error = verifyError;
       }
+    }
 
-      // Post error comment
-      await this.linearService.addComment(
-        task.id,
-        `❌ Task execution failed\n\n**Error:**\n\`\`\`\n${errorMessage}\n\`\`\``,
-      );
+    // Broadcast session completion
+    if (sessionId) {
+      this.monitorGateway.broadcastSessionComplete(sessionId, !failureReason);
+    }
 
-      callbacks?.onProgress(`❌ Execution failed: ${errorMessage}`, 100);
+    if (failureReason || !verdict) {
+      this.logger.warn(`${task.identifier} failed (${failureReason}): ${error}`);
+      callbacks?.onProgress(headings.failed, 100);
       return {
         success: false,
-        error: errorMessage,
+        error,
+        failureReason,
+        verdict: verdict ?? undefined,
+        toolsUsed: Array.from(run.toolsUsed),
+        usage: this.buildUsage(run),
+        sessionId,
       };
     }
+
+    // Calculate execution time
+    const duration = Math.round((Date.now() - startTime) / 1000);
+
+    // Files the agent handed back are attached and linked in the comment
+    const delivered = workspace.files ? await this.taskFiles.deliver(task, workspace.files) : '';
+
+    await this.taskSources.addComment(
+      task.id,
+      formatVerdictComment(headings.completed, verdict, duration) + (delivered ? `\n\n${delivered}` : ''),
+    );
+
+    callbacks?.onProgress(headings.completed, 100);
+
+    return {
+      success: true,
+      verdict,
+      needsReview: verdict.needsReview,
+      toolsUsed: Array.from(run.toolsUsed),
+      usage: this.buildUsage(run),
+      sessionId,
+    };
+  }
+
+  /**
+   * Run the repository's verify command in the run's directory.
+   * Returns what went wrong, or null if it passed.
+   */
+  private async runVerifyCommand(
+    command: string,
+    cwd: string | undefined,
+    callbacks?: ProgressCallback,
+  ): Promise<string | null> {
+    callbacks?.onProgress(`🧪 Verifying: ${command}`, 95);
+    try {
+      await execAsync(command, { cwd, timeout: VERIFY_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 });
+      return null;
+    } catch (error) {
+      const output = `${error.stdout ?? ''}${error.stderr ?? ''}`.trim().slice(-VERIFY_OUTPUT_CHARS);
+      const outcome = error.killed
+        ? `timed out after ${VERIFY_TIMEOUT_MS / 60000} minutes`
+        : `exited with code ${error.code}`;
+      return `"${command}" ${outcome}${output ? `\n\n${output}` : ''}`;
+    }
+  }
+
+  /**
+   * Provide helpful error message based on auth method
+   */
+  private describeError(error: Error, authMethod: AuthMethod): string {
+    if (
+      error.message.includes('401') ||
+      error.message.includes('invalid token') ||
+      error.message.includes('invalid')
+    ) {
+      if (authMethod === 'api_key') {
+        return `Proxy API authentication failed. Please check if ANTHROPIC_BASE_URL and ANTHROPIC_AUTH_TOKEN are correct.\nOriginal error: ${error.message}`;
+      }
+      return `Anthropic API authentication failed. Please check if ANTHROPIC_API_KEY is correct.\nOriginal error: ${error.message}`;
+    }
+    return error.message;
   }
 
   /**
@@ -323,18 +1169,42 @@ export class ClaudeService implements OnModuleInit {
     }
   }
 
+  /**
+   * Retry a failed task in its previous session: the retry template is
+   * passed to the agent as feedback
+   */
+  async executeRetry(
+    task: LinearTask,
+    sessionId: string,
+    callbacks?: ProgressCallback,
+  ): Promise<TaskExecutionResult> {
+    const retry = await this.promptTemplates.render('retry', await this.loadDetails(task));
+    return this.executeFeedback(task, retry.text, sessionId, callbacks, {
+      runKind: 'retry',
+      promptVersions: { retry: retry.version },
+    });
+  }
+
   /**
    * Execute feedback processing by resuming the previous session
    * Uses V1 query() API with resume option to maintain full configuration
+   * @param options.runKind - 'retry' for retries (model routing may escalate them)
+   * @param options.followUp - continue the session itself instead of forking it
+   *   (comments posted while the previous turn was running)
+   * @param options.promptVersions - versions of templates the feedback was built from
    */
   async executeFeedback(
     task: LinearTask,
     feedback: string,
     sessionId: string,
     callbacks?: ProgressCallback,
+    {
+      runKind = 'feedback',
+      followUp = false,
+      promptVersions = {},
+    }: { runKind?: RunKind; followUp?: boolean; promptVersions?: PromptVersions } = {},
   ): Promise<TaskExecutionResult> {
     const authMethod = this.getAuthMethod();
-    const workspacePath = this.getWorkspacePath();
 
     this.logger.log(
       `Resuming session ${sessionId} for feedback on ${task.identifier} (auth: ${authMethod})`,
@@ -345,154 +1215,60 @@ export class ClaudeService implements OnModuleInit {
       callbacks?.onProgress('🔄 Processing feedback', 10);
 
       // Build feedback prompt
-      const feedbackPrompt = buildFeedbackPrompt(task, feedback);
+      const linearMcp = this.usesLinearMcp(task);
+      // Resume in the same directory (sessions are stored per working directory)
+      const workspace = await this.workspaces.prepare(task);
+      const details = await this.loadDetails(task);
+      const repo = this.repoConfig.load(workspace.cwd);
+      const received = await this.taskFiles.receive(details, workspace.cwd);
+      const feedbackTemplate = linearMcp ? 'feedback' : 'feedback_local';
+      const prompt = await this.promptTemplates.render(feedbackTemplate, details, { feedback });
+      callbacks?.onPromptVersions?.({ ...promptVersions, [feedbackTemplate]: prompt.version });
 
-      this.logger.log(`Resuming Claude session ${sessionId}...`);
+      // The resumed session already knows the folders; mention files attached since
+      let promptText = prompt.text;
+      if (received?.received.length) {
+        callbacks?.onProgress(`📎 Downloaded ${received.received.length} attached file(s)`, 15);
+        promptText += `\n\n${buildReceivedFilesNote(received.files.inbox, received.received)}`;
+      }
 
-      // Build environment variables based on auth method
-      const envVars = this.buildEnvVars();
+      this.logger.log(`Resuming Claude session ${sessionId}...`);
 
-      // Use V1 query() API with resume option to maintain full configuration
-      const agentQuery = query({
-        prompt: feedbackPrompt,
-        options: {
-          model: this.getModel(),
-          // Resume the previous session
+      const run = await this.runWithFallback(
+        task,
+        promptText,
+        {
           resume: sessionId,
-          // Pass environment variables to Claude Code subprocess
-          env: envVars,
-          // Set working directory if workspace path is configured
-          cwd: workspacePath,
-          // Bypass all permission checks for automated task execution
-          permissionMode: 'bypassPermissions',
-          allowDangerouslySkipPermissions: true,
-          // MCP servers configuration for Linear integration
-          // Linear MCP uses OAuth 2.1 or Bearer token authentication
-          // Pass API key via --header flag for direct authentication
-          mcpServers: {
-            linear: {
-              type: 'stdio',
-              command: 'npx',
-              args: [
-                '-y',
-                'mcp-remote',
-                'https://mcp.linear.app/mcp',
-                '--header',
-                `Authorization: Bearer ${this.settingsProvider.getLinearApiKey() || ''}`,
-              ],
-            },
-          },
+          // Follow-up turns continue the run's own session
+          forkSession: !followUp,
+          cwd: workspace.cwd,
+          tools: repo.allowedTools,
+          linearMcp,
+          budget: this.resolveBudget(details),
+          model: this.chooseModel(details, runKind, followUp),
         },
-      });
-
-      // Collect response text and track progress
-      let responseText = '';
-      let lastProgress = 10;
-      let toolCallCount = 0;
-      let newSessionId: string | undefined;
-
-      // Process streaming messages
-      for await (const msg of agentQuery) {
-        // Broadcast message to WebSocket subscribers
-        const currentSessionId = newSessionId || sessionId;
-        if (currentSessionId) {
-          this.monitorGateway.broadcastSessionMessage({
-            sessionId: currentSessionId,
-            message: msg,
-            timestamp: new Date(),
-          });
-        }
-
-        this.processMessage(msg, task.id, callbacks, {
-          onText: (text: string) => {
-            responseText += text;
-          },
-          onToolUse: (toolName: string) => {
-            toolCallCount++;
-            // Update progress based on tool calls
-            lastProgress = Math.min(90, 20 + toolCallCount * 15);
-            this.logger.log(`Tool used: ${toolName}`);
-            callbacks?.onProgress(`Using tool: ${toolName}`, lastProgress);
-          },
-          onResult: (result: string) => {
-            this.logger.log(`Query result: ${result.slice(0, 100)}...`);
-          },
-          onSessionId: (id: string) => {
-            newSessionId = id;
-            this.logger.log(`Session ID captured: ${id}`);
-            callbacks?.onSessionId?.(id);
-          },
-        });
-      }
+        callbacks,
+      );
 
       this.logger.log(
-        `Claude feedback processing completed, processed ${toolCallCount} tool calls`,
+        `Claude feedback processing completed, processed ${run.toolCallCount} tool calls`,
       );
 
-      // Check for failure indicators in response
-      const hasError =
-        responseText.includes('❌') && responseText.includes('failed');
-
-      // Broadcast session completion
-      const finalSessionId = newSessionId || sessionId;
-      if (finalSessionId) {
-        this.monitorGateway.broadcastSessionComplete(finalSessionId, !hasError);
-      }
-
-      if (hasError) {
-        callbacks?.onProgress('❌ Feedback processing failed', 100);
-        return {
-          success: false,
-          error: responseText,
-          sessionId: newSessionId || sessionId,
-        };
-      }
-
-      // Calculate execution time
-      const duration = Math.round((Date.now() - startTime) / 1000);
-
-      // Post completion summary if Claude didn't already
-      if (!responseText.includes('🎉') && !responseText.includes('👀')) {
-        await this.linearService.addComment(
-          task.id,
-          `🎉 Feedback processed\n\n**Execution Summary:**\n${responseText.slice(0, 500)}\n\n**Duration:** ${duration} seconds`,
-        );
-      }
-
-      callbacks?.onProgress('🎉 Feedback processed', 100);
-
-      return {
-        success: true,
-        sessionId: newSessionId || sessionId,
-      };
+      return await this.completeRun(task, run, startTime, callbacks, {
+        completed: '🎉 Feedback processed',
+        failed: '❌ Feedback processing failed',
+      }, { cwd: workspace.cwd, verifyCommand: repo.verifyCommand, files: received?.files });
     } catch (error) {
       this.logger.error('Claude feedback execution failed:', error);
       this.logger.error('Error details:', error.message, error.stack);
 
-      // Provide helpful error message based on auth method
-      let errorMessage = error.message;
-      if (
-        error.message.includes('401') ||
-        error.message.includes('invalid token') ||
-        error.message.includes('invalid')
-      ) {
-        if (authMethod === 'api_key') {
-          errorMessage = `Proxy API authentication failed. Please check if ANTHROPIC_BASE_URL and ANTHROPIC_AUTH_TOKEN are correct.\nOriginal error: ${error.message}`;
-        } else {
-          errorMessage = `Anthropic API authentication failed. Please check if ANTHROPIC_API_KEY is correct.\nOriginal error: ${error.message}`;
-        }
-      }
-
-      // Post error comment
-      await this.linearService.addComment(
-        task.id,
-        `❌ Feedback processing failed\n\n**Error:**\n\`\`\`\n${errorMessage}\n\`\`\``,
-      );
+      const errorMessage = this.describeError(error, authMethod);
 
       callbacks?.onProgress(`❌ Execution failed: ${errorMessage}`, 100);
       return {
         success: false,
         error: errorMessage,
+        failureReason: 'exception',
         sessionId,
       };
     }
@@ -0,0 +1,111 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { TaskSourceService } from '../task-source/task-source.service';
+import { PromptTemplateInfo, PromptTemplateService } from './prompt-template.service';
+import { PromptTemplateName, PromptTemplateVersion, isPromptTemplateName } from './prompts/prompt-templates';
+
+// Stands in for {{feedback}} when previewing feedback templates
+const PREVIEW_FEEDBACK = '(Feedback comments are inserted here)';
+
+@Controller('api/prompts')
+export class PromptTemplateController {
+  constructor(
+    private readonly promptTemplates: PromptTemplateService,
+    private readonly taskSources: TaskSourceService,
+  ) {}
+
+  private getName(name: string): PromptTemplateName {
+    if (!isPromptTemplateName(name)) {
+      throw new NotFoundException(`Prompt template ${name} not found`);
+    }
+    return name;
+  }
+
+  /**
+   * GET /api/prompts
+   * All templates with their current version
+   */
+  @Get()
+  listTemplates(): PromptTemplateInfo[] {
+    return this.promptTemplates.list();
+  }
+
+  /**
+   * GET /api/prompts/:name/versions
+   * Version history, newest first (version 0 is the built-in default)
+   */
+  @Get(':name/versions')
+  getVersions(@Param('name') name: string): PromptTemplateVersion[] {
+    return this.promptTemplates.getHistory(this.getName(name));
+  }
+
+  /**
+   * POST /api/prompts/:name
+   * Save a new version
+   */
+  @Post(':name')
+  saveTemplate(
+    @Param('name') name: string,
+    @Body() body: { body: string; note?: string },
+  ): PromptTemplateVersion {
+    const templateName = this.getName(name);
+    if (!body.body?.trim()) {
+      throw new BadRequestException('Template body is required');
+    }
+
+    const unknown = this.promptTemplates.getUnknownVariables(templateName, body.body);
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Unknown variables: ${unknown.map((v) => `{{${v}}}`).join(', ')}`);
+    }
+
+    return this.promptTemplates.save(templateName, body.body, body.note);
+  }
+
+  /**
+   * POST /api/prompts/:name/rollback
+   * Make an earlier version current again (saved as a new version)
+   */
+  @Post(':name/rollback')
+  rollback(
+    @Param('name') name: string,
+    @Body() body: { version: number },
+  ): PromptTemplateVersion {
+    const restored = this.promptTemplates.rollback(this.getName(name), Number(body.version));
+    if (!restored) {
+      throw new NotFoundException(`Version ${body.version} of ${name} not found`);
+    }
+    return restored;
+  }
+
+  /**
+   * POST /api/prompts/:name/preview
+   * Render a body (default: the current version) against a real task,
+   * by task ID or Linear identifier
+   */
+  @Post(':name/preview')
+  async preview(
+    @Param('name') name: string,
+    @Body() body: { taskId: string; body?: string },
+  ): Promise<{ text: string }> {
+    const templateName = this.getName(name);
+    const task = body.taskId
+      ? await this.taskSources.getTask(body.taskId.trim()).catch(() => null)
+      : null;
+    if (!task) {
+      throw new NotFoundException(`Task ${body.taskId || ''} not found`);
+    }
+
+    const templateBody = body.body ?? this.promptTemplates.getCurrent(templateName).body;
+    const text = await this.promptTemplates.renderBody(templateBody, task, {
+      feedback: PREVIEW_FEEDBACK,
+    });
+    return { text };
+  }
+}
@@ -0,0 +1,80 @@
+import { PromptTemplateService } from './prompt-template.service';
+import {
+  PROMPT_TEMPLATES,
+  PromptTemplateVersion,
+  getTemplateVariables,
+  renderTemplate,
+} from './prompts/prompt-templates';
+import { LinearTask } from '../linear/linear.types';
+
+describe('renderTemplate', () => {
+  it('replaces known variables and leaves unknown ones as written', () => {
+    expect(renderTemplate('{{identifier}}: {{title}} {{missing}}', { identifier: 'ENG-1', title: 'Fix' })).toBe(
+      'ENG-1: Fix {{missing}}',
+    );
+  });
+
+  it('lists each variable of a body once', () => {
+    expect(getTemplateVariables('{{title}} {{context}} {{title}}')).toEqual(['title', 'context']);
+  });
+});
+
+describe('PromptTemplateService', () => {
+  const task: LinearTask = {
+    id: 'issue-1',
+    identifier: 'ENG-1',
+    title: 'Fix login redirect',
+    createdAt: new Date('2024-01-01'),
+  };
+
+  let versions: PromptTemplateVersion[];
+  let taskContext: { render: jest.Mock; renderComments: jest.Mock };
+  let service: PromptTemplateService;
+
+  beforeEach(() => {
+    versions = [];
+    taskContext = {
+      render: jest.fn().mockResolvedValue('Parent: ENG-0'),
+      renderComments: jest.fn().mockResolvedValue('No comments'),
+    };
+    const sessionStore = {
+      getPromptTemplateVersions: (name: string, limit?: number) =>
+        versions.filter((v) => v.name === name).slice(0, limit),
+      savePromptTemplate: (name: PromptTemplateVersion['name'], body: string, note: string | null) => {
+        const version = versions.filter((v) => v.name === name).length + 1;
+        versions.unshift({ name, version, body, note, createdAt: '2024-01-01 10:00:00' });
+        return version;
+      },
+    };
+    service = new PromptTemplateService(taskContext as never, sessionStore as never);
+  });
+
+  it('uses the built-in default until a version is saved', () => {
+    expect(service.getCurrent('task')).toMatchObject({ version: 0, body: PROMPT_TEMPLATES.task.defaultBody });
+
+    service.save('task', 'Do {{title}}', 'Shorter');
+
+    expect(service.getCurrent('task')).toMatchObject({ version: 1, body: 'Do {{title}}', note: 'Shorter' });
+    expect(service.getHistory('task').map((v) => v.version)).toEqual([1, 0]);
+  });
+
+  it('rolls back by saving an earlier version again', () => {
+    service.save('task', 'First', undefined);
+    service.save('task', 'Second', undefined);
+
+    expect(service.rollback('task', 1)).toMatchObject({ version: 3, body: 'First', note: 'Rollback to v1' });
+    expect(service.rollback('task', 7)).toBeNull();
+  });
+
+  it('loads context and comments only when the body uses them', async () => {
+    await expect(service.renderBody('{{identifier}} {{labels}}', task)).resolves.toBe('ENG-1 None');
+    expect(taskContext.render).not.toHaveBeenCalled();
+    expect(taskContext.renderComments).not.toHaveBeenCalled();
+
+    await expect(service.renderBody('{{context}}\n{{comments}}', task)).resolves.toBe('Parent: ENG-0\nNo comments');
+  });
+
+  it('flags variables the template does not provide', () => {
+    expect(service.getUnknownVariables('task', '{{title}} {{feedback}}')).toEqual(['feedback']);
+  });
+});
@@ -0,0 +1,145 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { LinearTask } from '../linear/linear.types';
+import { SessionStoreService } from '../monitor/session-store.service';
+import { TaskContextService } from './task-context.service';
+import {
+  PROMPT_TEMPLATES,
+  PromptTemplateName,
+  PromptTemplateVersion,
+  getTemplateVariables,
+  renderTemplate,
+} from './prompts/prompt-templates';
+
+/**
+ * A template with its current version
+ */
+export interface PromptTemplateInfo extends PromptTemplateVersion {
+  description: string;
+  variables: string[];
+}
+
+export interface RenderedPrompt {
+  text: string;
+  version: number;
+}
+
+/**
+ * Editable, versioned prompt templates. Every save adds a version; the
+ * latest version is used, the built-in default until a version is saved.
+ */
+@Injectable()
+export class PromptTemplateService {
+  private readonly logger = new Logger(PromptTemplateService.name);
+
+  constructor(
+    private taskContext: TaskContextService,
+    private sessionStore: SessionStoreService,
+  ) {}
+
+  private getDefault(name: PromptTemplateName): PromptTemplateVersion {
+    return {
+      name,
+      version: 0,
+      body: PROMPT_TEMPLATES[name].defaultBody,
+      note: 'Built-in',
+      createdAt: null,
+    };
+  }
+
+  /**
+   * All templates with their current version
+   */
+  list(): PromptTemplateInfo[] {
+    return Object.values(PROMPT_TEMPLATES).map(({ name, description, variables }) => ({
+      ...this.getCurrent(name),
+      description,
+      variables,
+    }));
+  }
+
+  /**
+   * The version runs use: the latest saved one, or the built-in default
+   */
+  getCurrent(name: PromptTemplateName): PromptTemplateVersion {
+    const [latest] = this.sessionStore.getPromptTemplateVersions(name, 1);
+    return latest ?? this.getDefault(name);
+  }
+
+  /**
+   * All versions of a template, newest first, ending with the built-in default
+   */
+  getHistory(name: PromptTemplateName): PromptTemplateVersion[] {
+    return [...this.sessionStore.getPromptTemplateVersions(name), this.getDefault(name)];
+  }
+
+  /**
+   * Variables of a body that the template does not provide
+   */
+  getUnknownVariables(name: PromptTemplateName, body: string): string[] {
+    const allowed = PROMPT_TEMPLATES[name].variables;
+    return getTemplateVariables(body).filter((variable) => !allowed.includes(variable));
+  }
+
+  /**
+   * Save a new version of a template, which runs use from now on
+   */
+  save(name: PromptTemplateName, body: string, note?: string): PromptTemplateVersion {
+    const version = this.sessionStore.savePromptTemplate(name, body, note || null);
+
+    this.logger.log(`Saved prompt template ${name} v${version}`);
+    return this.getCurrent(name);
+  }
+
+  /**
+   * Make an earlier version current again, as a new version.
+   * Returns null if the version does not exist.
+   */
+  rollback(name: PromptTemplateName, version: number): PromptTemplateVersion | null {
+    const target = this.getHistory(name).find((v) => v.version === version);
+    if (!target) {
+      return null;
+    }
+    return this.save(name, target.body, `Rollback to v${version}`);
+  }
+
+  /**
+   * Render the current version of a template for a task
+   * @param extra - template-specific variables, e.g. feedback
+   */
+  async render(
+    name: PromptTemplateName,
+    task: LinearTask,
+    extra: Record<string, string> = {},
+  ): Promise<RenderedPrompt> {
+    const { body, version } = this.getCurrent(name);
+    return { text: await this.renderBody(body, task, extra), version };
+  }
+
+  /**
+   * Render a template body for a task. Context and comments are only loaded when used.
+   */
+  async renderBody(body: string, task: LinearTask, extra: Record<string, string> = {}): Promise<string> {
+    const variables: Record<string, string> = {
+      id: task.id,
+      identifier: task.identifier,
+      title: task.title,
+      description: task.description || 'None',
+      priority: task.priority ? String(task.priority) : 'None',
+      estimate: task.estimate !== undefined && task.estimate !== null ? String(task.estimate) : 'None',
+      labels: task.labels?.map((label) => label.name).join(', ') || 'None',
+      state: task.state?.name || 'None',
+      project: task.project?.name || 'None',
+      ...extra,
+    };
+
+    const used = getTemplateVariables(body);
+    if (used.includes('context')) {
+      variables.context = await this.taskContext.render(task);
+    }
+    if (used.includes('comments')) {
+      variables.comments = await this.taskContext.renderComments(task.id);
+    }
+
+    return renderTemplate(body, variables);
+  }
+}
@@ -0,0 +1,133 @@
+import {
+  DEFAULT_FEEDBACK_TEMPLATE,
+  DEFAULT_LOCAL_FEEDBACK_TEMPLATE,
+  DEFAULT_LOCAL_SYSTEM_TEMPLATE,
+  DEFAULT_LOCAL_TASK_TEMPLATE,
+  DEFAULT_PLAN_TEMPLATE,
+  DEFAULT_RETRY_TEMPLATE,
+  DEFAULT_SYSTEM_TEMPLATE,
+  DEFAULT_TASK_TEMPLATE,
+} from './task-execution.prompt';
+
+export type PromptTemplateName =
+  | 'system'
+  | 'system_local'
+  | 'task'
+  | 'task_local'
+  | 'feedback'
+  | 'feedback_local'
+  | 'retry'
+  | 'plan';
+
+export interface PromptTemplateDefinition {
+  name: PromptTemplateName;
+  description: string;
+  variables: string[];
+  defaultBody: string;
+}
+
+/**
+ * One saved version of a template. Version 0 is the built-in default.
+ */
+export interface PromptTemplateVersion {
+  name: PromptTemplateName;
+  version: number;
+  body: string;
+  note: string | null;
+  createdAt: string | null; // null for the built-in default
+}
+
+/**
+ * Version of each template a run was prompted with (0: built-in)
+ */
+export type PromptVersions = Partial<Record<PromptTemplateName, number>>;
+
+// Available in every template
+export const TASK_VARIABLES = [
+  'id',
+  'identifier',
+  'title',
+  'description',
+  'priority',
+  'estimate',
+  'labels',
+  'state',
+  'project',
+  'comments',
+  'context',
+];
+
+const FEEDBACK_VARIABLES = [...TASK_VARIABLES, 'feedback'];
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const PROMPT_TEMPLATES: Record<PromptTemplateName, PromptTemplateDefinition> = {
+  system: {
+    name: 'system',
+    description: 'System prompt of Linear tasks (progress reported through Linear MCP)',
+    variables: TASK_VARIABLES,
+    defaultBody: DEFAULT_SYSTEM_TEMPLATE,
+  },
+  system_local: {
+    name: 'system_local',
+    description: 'System prompt of tasks from other sources',
+    variables: TASK_VARIABLES,
+    defaultBody: DEFAULT_LOCAL_SYSTEM_TEMPLATE,
+  },
+  task: {
+    name: 'task',
+    description: 'First prompt of a Linear task',
+    variables: TASK_VARIABLES,
+    defaultBody: DEFAULT_TASK_TEMPLATE,
+  },
+  task_local: {
+    name: 'task_local',
+    description: 'First prompt of a task from another source',
+    variables: TASK_VARIABLES,
+    defaultBody: DEFAULT_LOCAL_TASK_TEMPLATE,
+  },
+  feedback: {
+    name: 'feedback',
+    description: 'Prompt of a feedback or retry run of a Linear task',
+    variables: FEEDBACK_VARIABLES,
+    defaultBody: DEFAULT_FEEDBACK_TEMPLATE,
+  },
+  feedback_local: {
+    name: 'feedback_local',
+    description: 'Prompt of a feedback or retry run of a task from another source',
+    variables: FEEDBACK_VARIABLES,
+    defaultBody: DEFAULT_LOCAL_FEEDBACK_TEMPLATE,
+  },
+  retry: {
+    name: 'retry',
+    description: 'Retry instructions, inserted as {{feedback}} into the feedback prompt',
+    variables: TASK_VARIABLES,
+    defaultBody: DEFAULT_RETRY_TEMPLATE,
+  },
+  plan: {
+    name: 'plan',
+    description: 'Prompt of a planning run, breaking a Plan First task down into sub-issues',
+    variables: TASK_VARIABLES,
+    defaultBody: DEFAULT_PLAN_TEMPLATE,
+  },
+};
+
+export function isPromptTemplateName(name: string): name is PromptTemplateName {
+  return Object.prototype.hasOwnProperty.call(PROMPT_TEMPLATES, name);
+}
+
+/**
+ * Variables used in a template body
+ */
+export function getTemplateVariables(body: string): string[] {
+  return [...new Set(Array.from(body.matchAll(VARIABLE_PATTERN), (match) => match[1]))];
+}
+
+/**
+ * Replace {{variables}}; unknown ones are left as written
+ */
+export function renderTemplate(body: string, variables: Record<string, string>): string {
+  return body.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder,
+  );
+}
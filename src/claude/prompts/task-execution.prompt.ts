@@ -1,16 +1,40 @@
-import { LinearTask } from '../../linear/linear.types';
-
-export function buildTaskPrompt(task: LinearTask): string {
-  return `
+import { LinearComment } from '../../linear/linear.types';
+import { RepoInstructions } from '../../workspace/repo-config';
+
+// Built-in prompt templates: {{variables}} are filled in by PromptTemplateService,
+// edited versions are stored in SQLite (see prompt-templates.ts)
+
+/**
+ * How the agent reports its outcome (validated against TASK_VERDICT_SCHEMA)
+ */
+const VERDICT_INSTRUCTIONS = `Your final result is a structured verdict:
+- \`status\`: "completed" if the task was accomplished, "failed" if it could not be
+- \`summary\`: what was accomplished and key conclusions/data, or the failure reason, completed steps and recommendations
+- \`deliverables\`: files/links produced (empty if none)
+- \`needsReview\`: true for content creation, code generation or critical operations that a human should confirm before the task is closed`;
+
+const FEEDBACK_VERDICT_INSTRUCTIONS = `Your final result is a structured verdict:
+- \`status\`: "completed" if the feedback was handled, "failed" if it could not be addressed
+- \`summary\`: the actions taken (or why the feedback could not be addressed)
+- \`deliverables\`: files/links produced or changed (empty if none)
+- \`needsReview\`: false if the user approved the result (e.g., "LGTM", "approved", "OK"); true if you made modifications that need re-confirmation or the user's intent is unclear`;
+
+/**
+ * Task prompt when the agent reports progress through Linear MCP
+ */
+export const DEFAULT_TASK_TEMPLATE = `
 You are now executing the following task and reporting progress in real-time via Linear MCP.
 
 ## Task Information
-- Issue ID: ${task.id}
-- Identifier: ${task.identifier}
-- Title: ${task.title}
+- Issue ID: {{id}}
+- Identifier: {{identifier}}
+- Title: {{title}}
 - Description:
-${task.description || 'None'}
-- Priority: ${task.priority || 'None'}
+{{description}}
+- Priority: {{priority}}
+
+## Task Context
+{{context}}
 
 ## Execution Guidelines
 
@@ -58,82 +82,52 @@ Comment the issue and resolution:
 \`\`\`
 
 ### 5. Upon Completion
+Do NOT post a completion comment and do NOT change the issue status — the system does both based on your final result.
 
-**Success Scenario:**
-- Post summary comment:
-\`\`\`
-🤖
-🎉 Task completed
-
-**Execution Summary:**
-- What was accomplished
-- Key conclusions/data
+${VERDICT_INSTRUCTIONS}
 
-**Deliverables:**
-- Files/links (if any)
-
-**Duration:** x minutes
-\`\`\`
-- Use \`update_issue\` to change status to "Done"
-
-**Review Required Scenario (content creation, code generation, critical operations):**
-- Post review request comment:
-\`\`\`
-🤖
-👀 Task completed, awaiting human review
-
-**Execution Summary:**
-- What was accomplished
-- Key conclusions/data
-
-**Deliverables:**
-- Files/links (if any)
-
-**Please review and take action:**
-- ✅ Approved → Change status to "Done"
-- 🔄 Needs changes → Reply with feedback
-- ❌ Cancel task → Change status to "Canceled"
+## Important Notes
+- **CRITICAL: Every comment MUST start with "🤖 \\n" (robot emoji followed by a newline) to identify system-generated comments**
+- Keep each comment concise and focused
+- Wrap key data/code in Markdown code blocks
+- Report progress in real-time, don't wait until the end
+- Issue ID is "{{id}}", use this ID for all MCP operations
 
-**Duration:** x minutes
-\`\`\`
-- Use \`update_issue\` to change status to "In Review"
+Now please begin executing the task.
+`;
 
-**Failure Scenario:**
-- Post failure comment:
-\`\`\`
-🤖
-❌ Task failed
+/**
+ * Task prompt for tasks from non-Linear sources; progress is reported by
+ * the system and the agent only has to do the work
+ */
+export const DEFAULT_LOCAL_TASK_TEMPLATE = `
+You are now executing the following task. Progress and status are tracked by the system.
 
-**Failure Reason:**
-- Specific reason
+## Task Information
+- Task ID: {{id}}
+- Identifier: {{identifier}}
+- Title: {{title}}
+- Description:
+{{description}}
+- Priority: {{priority}}
 
-**Completed Steps:**
-- List completed steps
+## Task Context
+{{context}}
 
-**Recommendations:**
-- How to proceed
-\`\`\`
-- Use \`update_issue\` to change status to "Failed"
+## Upon Completion
+${VERDICT_INSTRUCTIONS}
 
 ## Important Notes
-- **CRITICAL: Every comment MUST start with "🤖 \\n" (robot emoji followed by a newline) to identify system-generated comments**
-- Keep each comment concise and focused
 - Wrap key data/code in Markdown code blocks
-- Report progress in real-time, don't wait until the end
-- Issue ID is "${task.id}", use this ID for all MCP operations
-- For tasks involving content creation, code, or critical operations, use "In Review" status after completion to await human confirmation
 
 Now please begin executing the task.
 `;
-}
 
-export function buildSystemPrompt(): string {
-  return `You are a task execution assistant that can use Linear MCP tools to:
+export const DEFAULT_SYSTEM_TEMPLATE = `You are a task execution assistant that can use Linear MCP tools to:
 - create_comment: Add comments to an issue
-- update_issue: Update issue status
-- list_issue_statuses: View available statuses
 
 Report progress in real-time via comments during task execution. Post a comment after each key step.
+The final outcome is returned as a structured result; the system posts the completion comment and updates the issue status.
 
 ## Comment Format Guidelines
 
@@ -150,53 +144,187 @@ Emoji meanings:
 - 📋 Indicates plan/analysis
 - ✅ Indicates step completed
 - ⚠️ Indicates warning/issue
-- ❌ Indicates failure
-- 🎉 Indicates successful completion
-- 👀 Indicates awaiting human review`;
-}
+- ❌ Indicates failure`;
+
+export const DEFAULT_LOCAL_SYSTEM_TEMPLATE = `You are a task execution assistant. Work autonomously until the task is complete, then return the structured result.`;
 
-export function buildFeedbackPrompt(task: LinearTask, feedback: string): string {
-  return `
+export const DEFAULT_FEEDBACK_TEMPLATE = `
 ## User Feedback
 
-The user has provided feedback on your previous execution of task "${task.title}":
+The user has provided feedback on your previous execution of task "{{title}}":
 
 ---
-${feedback}
+{{feedback}}
 ---
 
-Please process the user's feedback and use Linear MCP tools to update the task status:
-- If user approves (e.g., "LGTM", "approved", "OK") → Use \`update_issue\` to change status to "Done"
-- If modifications are needed → Make the changes, then use \`update_issue\` to change status to "In Review" for re-confirmation
-- If user intent is unclear → Keep "In Review" status and post a comment asking for clarification
+Please process the user's feedback. Do NOT change the issue status or post a completion comment — the system does both based on your final result.
 
 ## Task Information
-- Issue ID: ${task.id}
-- Identifier: ${task.identifier}
-- Title: ${task.title}
+- Issue ID: {{id}}
+- Identifier: {{identifier}}
+- Title: {{title}}
 
 ## Execution Guidelines
-
-### When Processing Feedback
 1. First analyze the user's feedback to understand their intent
-2. If it's a modification request, execute the changes and report progress
-3. Finally use \`update_issue\` to update the status
+2. If it's a modification request, execute the changes and report progress via comments
+3. If user intent is unclear, post a comment asking for clarification
 
-### Post Completion Comment
-\`\`\`
-🤖
-🎉 Feedback processed
-
-**Actions Taken:**
-- Describe what was done
-
-**Current Status:** Done / In Review
-\`\`\`
+${FEEDBACK_VERDICT_INSTRUCTIONS}
 
 ## Important Notes
 - **CRITICAL: Every comment MUST start with "🤖 \\n" (robot emoji followed by a newline) to identify system-generated comments**
-- Issue ID is "${task.id}", use this ID for all MCP operations
+- Issue ID is "{{id}}", use this ID for all MCP operations
 - You have full context and can continue from where you left off
 - No need to re-read the code, directly make changes based on feedback
 `;
+
+export const DEFAULT_LOCAL_FEEDBACK_TEMPLATE = `
+## User Feedback
+
+The user has provided feedback on your previous execution of task "{{title}}":
+
+---
+{{feedback}}
+---
+
+Please process the feedback and make any requested changes.
+
+${FEEDBACK_VERDICT_INSTRUCTIONS}
+`;
+
+/**
+ * Retry instructions, passed to the agent as the feedback of a retry run
+ */
+export const DEFAULT_RETRY_TEMPLATE =
+  `This is a task retry. Please review the previous execution history, identify the cause of failure, and attempt to complete the task again.\n\n` +
+  `Pay special attention to:\n` +
+  `1. Review the previous error messages\n` +
+  `2. Analyze the failure cause\n` +
+  `3. Take a different approach or fix the error\n` +
+  `4. Re-execute the task`;
+
+/**
+ * How a planning run reports the breakdown (validated against TASK_PLAN_SCHEMA)
+ */
+const PLAN_INSTRUCTIONS = `Your final result is a structured plan:
+- \`status\`: "completed" if you produced a plan, "failed" if the task cannot be planned (e.g. its goal is unclear)
+- \`summary\`: the approach and how the sub-tasks fit together, or why no plan could be made
+- \`subtasks\`: the sub-tasks in execution order, each with a \`title\`, a Markdown \`description\` and \`dependsOn\`, the numbers (from 1) of earlier sub-tasks it has to wait for`;
+
+/**
+ * Prompt of a planning run (tasks with the Plan First label): the agent
+ * breaks the task down, each sub-task becomes a sub-issue run on its own
+ */
+export const DEFAULT_PLAN_TEMPLATE = `
+The following task is too large for one session. Break it down into sub-tasks; do not implement anything yet.
+
+## Task Information
+- Task ID: {{id}}
+- Identifier: {{identifier}}
+- Title: {{title}}
+- Description:
+{{description}}
+- Priority: {{priority}}
+
+## Task Context
+{{context}}
+
+## Planning Guidelines
+1. Explore the code, documents and attached files as far as needed to plan, but do not change any files
+2. Split the work into sub-tasks that can each be completed and verified in one session of under an hour
+3. Each sub-task runs separately and only sees its own description and this task's context, so make the description self-contained: the goal, what to change where, and how to check it is done
+4. Order the sub-tasks and list the earlier ones each has to wait for; sub-tasks without dependencies run in parallel
+5. If the task fits in one session after all, return no sub-tasks and it runs as a whole
+
+The plan is reviewed by a human before any sub-task starts.
+
+${PLAN_INSTRUCTIONS}
+`;
+
+/**
+ * Resumes a planning session with the reviewer's feedback on the plan
+ */
+export function buildPlanFeedbackPrompt(feedback: string): string {
+  return `## Feedback on the Plan
+
+The reviewer has commented on your plan:
+
+---
+${feedback}
+---
+
+Revise the plan accordingly and return the complete revised plan; it replaces the previous one. Do not implement anything yet.
+
+${PLAN_INSTRUCTIONS}`;
+}
+
+/**
+ * Appended to the system prompt when the task runs in its own git worktree
+ */
+export function buildWorktreeInstructions(branch: string): string {
+  return `## Workspace
+You are working in a dedicated git worktree on branch "${branch}". Commit your changes to this branch before returning the result; uncommitted changes are not kept.`;
+}
+
+/**
+ * Instructions of the repository the agent works in, and the command its
+ * result is verified with
+ */
+export function buildRepoInstructions(
+  instructions: RepoInstructions[],
+  verifyCommand?: string,
+): string {
+  const sections = instructions.map(({ file, content }) => `### ${file}\n${content}`);
+  if (verifyCommand) {
+    sections.push(
+      `### Verification\nWhen you finish, \`${verifyCommand}\` is run in the working directory. The run only succeeds if it passes, so run it yourself before returning the result.`,
+    );
+  }
+
+  return `## Repository Instructions
+Follow these instructions from the repository you are working in, unless they conflict with the workflow above.
+
+${sections.join('\n\n')}`;
+}
+
+/**
+ * Where the task's attached files are and where to put files to hand back
+ */
+export function buildTaskFilesInstructions(inbox: string, outbox: string, received: string[]): string {
+  const attached = received.length
+    ? `Files attached to the task are in \`${inbox}\`: ${received.map((name) => `\`${name}\``).join(', ')}. Look at the ones the task refers to.`
+    : `Files attached to the task are downloaded into \`${inbox}\` (none so far).`;
+
+  return `## Task Files
+${attached}
+Put files meant for the requester (reports, exports, screenshots) in \`${outbox}\`; they are attached to the task once you finish. Both folders are ignored by git, so do not commit them.`;
+}
+
+/**
+ * Note on files attached since the previous run, added to a feedback prompt
+ */
+export function buildReceivedFilesNote(inbox: string, received: string[]): string {
+  return `📎 New file${received.length > 1 ? 's' : ''} attached to the task, downloaded into \`${inbox}\`: ${received.map((name) => `\`${name}\``).join(', ')}`;
+}
+
+/**
+ * Comments posted while the agent is working, delivered into the live session.
+ * The leading 💬 lets the dashboard tell them apart from the prompt.
+ */
+export function buildCommentDeliveryPrompt(
+  comments: LinearComment[],
+  linearMcp = true,
+): string {
+  const bodies = comments
+    .map((c) => `**${c.user?.name || 'User'}:**\n${c.body}`)
+    .join('\n\n---\n\n');
+  const acknowledge = linearMcp
+    ? 'Briefly acknowledge it in a comment (starting with "🤖 \\n") and say how you will handle it.'
+    : 'Mention how you handled it in your final summary.';
+
+  return `💬 New comment${comments.length > 1 ? 's' : ''} on the task while you are working:
+
+${bodies}
+
+Take this into account for the rest of the task. ${acknowledge} Then continue where you left off.`;
 }
@@ -0,0 +1,93 @@
+import { TaskContextService } from './task-context.service';
+import { LinearComment, LinearTask, LinearTaskContext } from '../linear/linear.types';
+
+describe('TaskContextService', () => {
+  const task: LinearTask = {
+    id: 'issue-1',
+    identifier: 'ENG-1',
+    title: 'Fix login redirect',
+    createdAt: new Date('2024-01-01'),
+    labels: [{ id: 'label-1', name: 'Bug' }],
+  };
+  const comment = (id: string, body: string, day: number, fromSystem = false): LinearComment => ({
+    id,
+    body,
+    createdAt: new Date(`2024-01-0${day}T10:00:00Z`),
+    user: { id: 'user-1', name: 'Alice' },
+    fromSystem,
+  });
+
+  let comments: Record<string, LinearComment[]>;
+  let context: LinearTaskContext | null;
+  let budgetTokens: number;
+  let service: TaskContextService;
+
+  beforeEach(() => {
+    comments = {};
+    context = null;
+    budgetTokens = 1000;
+    const taskSources = {
+      getComments: (taskId: string) => Promise.resolve(comments[taskId] ?? []),
+      getTaskContext: () => Promise.resolve(context),
+    };
+    const settingsProvider = { getContextTokenBudget: () => budgetTokens };
+    service = new TaskContextService(taskSources as never, settingsProvider as never);
+  });
+
+  describe('renderComments', () => {
+    it('lists human comments oldest first', async () => {
+      comments['issue-1'] = [
+        comment('c3', 'Also the logout page', 3),
+        comment('c2', '🤖 Task received by system', 2, true),
+        comment('c1', 'Use a 302', 1),
+      ];
+
+      await expect(service.renderComments('issue-1')).resolves.toBe(
+        '**Alice** (2024-01-01):\nUse a 302\n\n---\n\n**Alice** (2024-01-03):\nAlso the logout page',
+      );
+    });
+
+    it('leaves out the oldest comments that do not fit the budget', async () => {
+      budgetTokens = 30;
+      comments['issue-1'] = [comment('c3', 'c'.repeat(60), 3), comment('c2', 'b'.repeat(60), 2), comment('c1', 'a', 1)];
+
+      const text = await service.renderComments('issue-1');
+
+      expect(text).toBe(`(2 older comment(s) omitted)\n\n**Alice** (2024-01-03):\n${'c'.repeat(60)}`);
+    });
+
+    it('cuts the newest comment when it alone is over the budget', async () => {
+      budgetTokens = 10;
+      comments['issue-1'] = [comment('c1', 'a'.repeat(100), 1)];
+
+      await expect(service.renderComments('issue-1')).resolves.toBe(
+        `**Alice** (2024-01-01):\n${'a'.repeat(16)}\n...(truncated)`,
+      );
+    });
+
+    it('renders None without comments', async () => {
+      await expect(service.renderComments('issue-1')).resolves.toBe('None');
+    });
+  });
+
+  describe('render', () => {
+    it('adds the summaries of sub-issues and the comments to the details', async () => {
+      context = {
+        children: [{ id: 'issue-2', identifier: 'ENG-2', title: 'Add the endpoint', state: 'Done' }],
+        blockedBy: [],
+        blocks: [],
+        related: [],
+        attachments: [],
+      };
+      comments['issue-1'] = [comment('c1', 'Use a 302', 1)];
+      comments['issue-2'] = [comment('c2', '✅ Task completed\n\n**Execution Summary:**\nAdded GET /login', 2, true)];
+
+      const text = await service.render(task);
+
+      expect(text).toContain('- Labels: Bug');
+      expect(text).toContain('- Sub-issues:\n  - ENG-2 Add the endpoint (Done)');
+      expect(text).toContain('### Sub-issue Summaries\n**ENG-2 Add the endpoint (Done):**\nAdded GET /login');
+      expect(text).toContain('### Comments\n**Alice** (2024-01-01):\nUse a 302');
+    });
+  });
+});
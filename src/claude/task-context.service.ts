@@ -0,0 +1,178 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { LinearComment, LinearIssueRef, LinearTask, LinearTaskContext } from '../linear/linear.types';
+import { SettingsProviderService } from '../settings/settings-provider.service';
+import { TaskSourceService, isSystemComment } from '../task-source/task-source.service';
+import { parseVerdictSummary } from './task-verdict';
+
+// Rough token estimate used for the budget
+const CHARS_PER_TOKEN = 4;
+
+const COMMENT_SEPARATOR = '\n\n---\n\n';
+
+/**
+ * Everything around a task beyond its own fields, rendered for the prompt:
+ * labels, state, project, cycle, linked issues, attachments, what was done
+ * in its sub-issues, and comments.
+ * The result fits the Context Token Budget; the oldest comments go first.
+ */
+@Injectable()
+export class TaskContextService {
+  private readonly logger = new Logger(TaskContextService.name);
+
+  constructor(
+    private taskSources: TaskSourceService,
+    private settingsProvider: SettingsProviderService,
+  ) {}
+
+  /**
+   * Full context of a task as Markdown
+   */
+  async render(task: LinearTask): Promise<string> {
+    const [context, comments] = await Promise.all([
+      this.loadContext(task.id),
+      this.loadComments(task.id),
+    ]);
+
+    const summaries = context?.children.length ? await this.formatChildSummaries(context.children) : '';
+    const details = this.formatDetails(task, context) + summaries;
+    const budget = this.settingsProvider.getContextTokenBudget() * CHARS_PER_TOKEN;
+    const commentBudget = budget - details.length - '\n\n### Comments\n'.length;
+
+    const text = comments.length
+      ? `${details}\n\n### Comments\n${this.fitComments(comments, commentBudget)}`
+      : details;
+    return this.truncate(text, budget);
+  }
+
+  /**
+   * Human comments of a task, oldest first, within the budget
+   */
+  async renderComments(taskId: string): Promise<string> {
+    const comments = await this.loadComments(taskId);
+    const budget = this.settingsProvider.getContextTokenBudget() * CHARS_PER_TOKEN;
+    return comments.length ? this.truncate(this.fitComments(comments, budget), budget) : 'None';
+  }
+
+  private async loadContext(taskId: string): Promise<LinearTaskContext | null> {
+    try {
+      return await this.taskSources.getTaskContext(taskId);
+    } catch (error) {
+      this.logger.warn(`Could not load context of ${taskId}: ${error.message}`);
+      return null;
+    }
+  }
+
+  private async loadComments(taskId: string): Promise<LinearComment[]> {
+    try {
+      return (await this.taskSources.getComments(taskId))
+        .filter((c) => !isSystemComment(c))
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    } catch (error) {
+      this.logger.warn(`Could not load comments of ${taskId}: ${error.message}`);
+      return [];
+    }
+  }
+
+  private formatDetails(task: LinearTask, context: LinearTaskContext | null): string {
+    const lines = [
+      `- Labels: ${task.labels?.map((label) => label.name).join(', ') || 'None'}`,
+      `- State: ${task.state?.name || 'None'}`,
+      `- Project: ${task.project?.name || 'None'}`,
+    ];
+    if (!context) {
+      return lines.join('\n');
+    }
+
+    if (context.cycle) {
+      const { number, name, startsAt, endsAt } = context.cycle;
+      lines.push(
+        `- Cycle: ${name ? `${name} (#${number})` : `#${number}`}, ${formatDate(startsAt)} to ${formatDate(endsAt)}`,
+      );
+    }
+    if (context.parent) {
+      lines.push(`- Parent: ${formatIssue(context.parent)}`);
+    }
+    lines.push(...formatList('Sub-issues', context.children.map(formatIssue)));
+    lines.push(...formatList('Blocked by', context.blockedBy.map(formatIssue)));
+    lines.push(...formatList('Blocks', context.blocks.map(formatIssue)));
+    lines.push(...formatList('Related', context.related.map(formatIssue)));
+    lines.push(
+      ...formatList(
+        'Attachments',
+        context.attachments.map((a) => `[${a.title}](${a.url})${a.subtitle ? ` - ${a.subtitle}` : ''}`),
+      ),
+    );
+    return lines.join('\n');
+  }
+
+  /**
+   * Completion summary of an issue, from the latest system comment holding
+   * one (null if none was posted)
+   */
+  async getSummary(issue: LinearIssueRef): Promise<string | null> {
+    try {
+      // Newest first
+      const comments = await this.taskSources.getComments(issue.id);
+      return (
+        comments
+          .filter(isSystemComment)
+          .map((c) => parseVerdictSummary(c.body))
+          .find((s) => s !== null) ?? null
+      );
+    } catch (error) {
+      this.logger.warn(`Could not load comments of ${issue.identifier}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Completion summaries of the sub-issues. A parent runs after its
+   * sub-issues, so it builds on them.
+   */
+  private async formatChildSummaries(children: LinearIssueRef[]): Promise<string> {
+    const sections = await Promise.all(
+      children.map(
+        async (child) => `**${formatIssue(child)}:**\n${(await this.getSummary(child)) || 'No summary posted'}`,
+      ),
+    );
+    return `\n\n### Sub-issue Summaries\n${sections.join('\n\n')}`;
+  }
+
+  /**
+   * The newest comments that fit, with a note on how many older ones were left out
+   */
+  private fitComments(comments: LinearComment[], budget: number): string {
+    const formatted = comments.map(formatComment);
+    let start = 0;
+    let length = formatted.reduce((sum, text) => sum + text.length + COMMENT_SEPARATOR.length, 0);
+
+    // Keep at least the newest comment; truncate() cuts it if it alone is too long
+    while (start < formatted.length - 1 && length > budget) {
+      length -= formatted[start].length + COMMENT_SEPARATOR.length;
+      start++;
+    }
+
+    const kept = formatted.slice(start).join(COMMENT_SEPARATOR);
+    return start > 0 ? `(${start} older comment(s) omitted)\n\n${kept}` : kept;
+  }
+
+  private truncate(text: string, budget: number): string {
+    return text.length > budget ? `${text.slice(0, Math.max(budget, 0))}\n...(truncated)` : text;
+  }
+}
+
+function formatIssue(issue: LinearIssueRef): string {
+  return `${issue.identifier} ${issue.title}${issue.state ? ` (${issue.state})` : ''}`;
+}
+
+function formatList(label: string, items: string[]): string[] {
+  return items.length ? [`- ${label}:`, ...items.map((item) => `  - ${item}`)] : [];
+}
+
+function formatComment(comment: LinearComment): string {
+  return `**${comment.user?.name || 'User'}** (${formatDate(comment.createdAt)}):\n${comment.body}`;
+}
+
+function formatDate(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
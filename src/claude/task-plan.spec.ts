@@ -0,0 +1,48 @@
+import { parsePlan } from './task-plan';
+
+describe('parsePlan', () => {
+  it('reads the sub-tasks of a plan', () => {
+    expect(
+      parsePlan({
+        status: 'completed',
+        summary: 'API first, then the UI',
+        subtasks: [
+          { title: 'Add the endpoint', description: 'In the controller', dependsOn: [] },
+          { title: 'Call it from the UI', description: 'In the settings page', dependsOn: [1] },
+        ],
+      }),
+    ).toEqual({
+      summary: 'API first, then the UI',
+      subtasks: [
+        { title: 'Add the endpoint', description: 'In the controller', dependsOn: [] },
+        { title: 'Call it from the UI', description: 'In the settings page', dependsOn: [1] },
+      ],
+    });
+  });
+
+  it('drops dependencies on itself, later or unknown sub-tasks', () => {
+    const plan = parsePlan({
+      summary: 'Three steps',
+      subtasks: [
+        { title: 'One', description: '', dependsOn: [1, 2] },
+        { title: 'Two', description: '', dependsOn: [1, 1, 0, 1.5, '1'] },
+        { title: 'Three', description: '', dependsOn: [2, 3, 9] },
+      ],
+    });
+
+    expect(plan?.subtasks.map((subtask) => subtask.dependsOn)).toEqual([[], [1], [2]]);
+  });
+
+  it('fills in sub-tasks with missing fields', () => {
+    expect(parsePlan({ summary: 'Plan', subtasks: [{ title: '  ' }, null] })?.subtasks).toEqual([
+      { title: 'Sub-task 1', description: '', dependsOn: [] },
+      { title: 'Sub-task 2', description: '', dependsOn: [] },
+    ]);
+  });
+
+  it('rejects output without a summary or sub-task list', () => {
+    expect(parsePlan(null)).toBeNull();
+    expect(parsePlan({ subtasks: [] })).toBeNull();
+    expect(parsePlan({ summary: 'Plan', subtasks: 'none' })).toBeNull();
+  });
+});
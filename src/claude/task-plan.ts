@@ -0,0 +1,73 @@
+import { PlannedSubtask, TaskPlan } from '../queue/task.interface';
+
+/**
+ * JSON schema the result of a planning run must match (SDK `outputFormat`).
+ * `status` and `summary` are read like a verdict, so failures are handled
+ * the same way as in other runs.
+ */
+export const TASK_PLAN_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    status: {
+      type: 'string',
+      enum: ['completed', 'failed'],
+      description: 'Whether a plan was produced or the task could not be planned',
+    },
+    summary: {
+      type: 'string',
+      description: 'The approach and how the sub-tasks fit together, or why no plan could be made',
+    },
+    subtasks: {
+      type: 'array',
+      description: 'Sub-tasks in execution order (empty if the task fits in one session)',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', description: 'Short title of the sub-issue' },
+          description: {
+            type: 'string',
+            description: 'Self-contained Markdown description: goal, where to change what, how to check it is done',
+          },
+          dependsOn: {
+            type: 'array',
+            items: { type: 'integer' },
+            description: 'Numbers (from 1) of earlier sub-tasks that must be finished first',
+          },
+        },
+        required: ['title', 'description', 'dependsOn'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['status', 'summary', 'subtasks'],
+  additionalProperties: false,
+};
+
+/**
+ * Parse the structured output of a planning run. Dependencies on unknown or
+ * later sub-tasks are dropped, so they cannot form a cycle.
+ */
+export function parsePlan(output: unknown): TaskPlan | null {
+  if (!output || typeof output !== 'object') {
+    return null;
+  }
+
+  const value = output as Record<string, unknown>;
+  if (typeof value.summary !== 'string' || !Array.isArray(value.subtasks)) {
+    return null;
+  }
+
+  const subtasks = value.subtasks.map((raw, index): PlannedSubtask => {
+    const item = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const title = typeof item.title === 'string' ? item.title.trim() : '';
+    return {
+      title: title || `Sub-task ${index + 1}`,
+      description: typeof item.description === 'string' ? item.description : '',
+      dependsOn: Array.isArray(item.dependsOn)
+        ? [...new Set(item.dependsOn.filter((n): n is number => Number.isInteger(n) && n >= 1 && n <= index))]
+        : [],
+    };
+  });
+
+  return { summary: value.summary, subtasks };
+}
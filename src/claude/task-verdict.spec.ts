@@ -0,0 +1,80 @@
+import { formatVerdictComment, getFailureReason, parseVerdict, parseVerdictSummary } from './task-verdict';
+
+describe('parseVerdict', () => {
+  it('reads a completed verdict', () => {
+    expect(
+      parseVerdict({
+        status: 'completed',
+        summary: 'Fixed the login redirect',
+        deliverables: ['PR #12'],
+        needsReview: true,
+      }),
+    ).toEqual({
+      status: 'completed',
+      summary: 'Fixed the login redirect',
+      deliverables: ['PR #12'],
+      needsReview: true,
+    });
+  });
+
+  it('defaults missing deliverables and review to none', () => {
+    expect(parseVerdict({ status: 'failed', summary: 'No access to the repository' })).toEqual({
+      status: 'failed',
+      summary: 'No access to the repository',
+      deliverables: [],
+      needsReview: false,
+    });
+  });
+
+  it('drops deliverables that are not strings', () => {
+    const verdict = parseVerdict({ status: 'completed', summary: 'Done', deliverables: ['a.md', 3, null] });
+    expect(verdict?.deliverables).toEqual(['a.md']);
+  });
+
+  it('rejects output without a valid status or summary', () => {
+    expect(parseVerdict(undefined)).toBeNull();
+    expect(parseVerdict('completed')).toBeNull();
+    expect(parseVerdict({ status: 'done', summary: 'Done' })).toBeNull();
+    expect(parseVerdict({ status: 'completed' })).toBeNull();
+  });
+});
+
+describe('getFailureReason', () => {
+  it('maps SDK error subtypes to failure reasons', () => {
+    expect(getFailureReason('error_max_turns')).toBe('max_turns');
+    expect(getFailureReason('error_max_budget_usd')).toBe('budget_exceeded');
+    expect(getFailureReason('error_max_structured_output_retries')).toBe('invalid_verdict');
+    expect(getFailureReason('error_during_execution')).toBe('execution_error');
+  });
+});
+
+describe('formatVerdictComment', () => {
+  it('lists deliverables when there are any', () => {
+    const verdict = { status: 'completed' as const, summary: 'Done', deliverables: ['a.md'], needsReview: false };
+    expect(formatVerdictComment('✅ Task completed', verdict, 42)).toBe(
+      '✅ Task completed\n\n**Execution Summary:**\nDone\n\n**Deliverables:**\n- a.md\n\n**Duration:** 42 seconds',
+    );
+    expect(formatVerdictComment('✅ Task completed', { ...verdict, deliverables: [] }, 42)).not.toContain(
+      'Deliverables',
+    );
+  });
+});
+
+describe('parseVerdictSummary', () => {
+  it('reads the summary back from a verdict comment', () => {
+    const verdict = {
+      status: 'completed' as const,
+      summary: 'Added GET /login',
+      deliverables: ['a.md'],
+      needsReview: false,
+    };
+    expect(parseVerdictSummary(formatVerdictComment('✅ Task completed', verdict, 42))).toBe('Added GET /login');
+    expect(parseVerdictSummary('🎉 Done\n\n**Execution Summary:**\nRolled up\n\n**ENG-2 Step**:\nDone')).toBe(
+      'Rolled up\n\n**ENG-2 Step**:\nDone',
+    );
+  });
+
+  it('returns null for comments without a summary', () => {
+    expect(parseVerdictSummary('🤖 Task received by system, execution starting soon...')).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import type { SDKResultMessage } from '@anthropic-ai/claude-agent-sdk';
+import { FailureReason, TaskVerdict } from '../queue/task.interface';
+
+/**
+ * JSON schema the agent's final result must match (SDK `outputFormat`).
+ * The SDK validates the agent's output against it and returns the parsed
+ * object as `structured_output` on the result message.
+ */
+export const TASK_VERDICT_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    status: {
+      type: 'string',
+      enum: ['completed', 'failed'],
+      description: 'Whether the task was completed or could not be completed',
+    },
+    summary: {
+      type: 'string',
+      description: 'What was accomplished, key conclusions/data, or why it failed',
+    },
+    deliverables: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Files, links or artifacts produced (empty if none)',
+    },
+    needsReview: {
+      type: 'boolean',
+      description:
+        'True if a human should review the result before the task is closed',
+    },
+  },
+  required: ['status', 'summary', 'deliverables', 'needsReview'],
+  additionalProperties: false,
+};
+
+/**
+ * Human-readable labels for failure reasons (used in Linear comments)
+ */
+export const FAILURE_REASON_LABELS: Record<FailureReason, string> = {
+  agent_reported: 'Agent reported failure',
+  max_turns: 'Maximum agent turns reached',
+  budget_exceeded: 'Budget exceeded',
+  execution_error: 'Error during execution',
+  invalid_verdict: 'Agent did not return a valid result',
+  verification_failed: 'Verification failed',
+  exception: 'Unexpected error',
+};
+
+/**
+ * Parse the structured output of a result message into a verdict
+ */
+export function parseVerdict(output: unknown): TaskVerdict | null {
+  if (!output || typeof output !== 'object') {
+    return null;
+  }
+
+  const value = output as Record<string, unknown>;
+  if (
+    (value.status !== 'completed' && value.status !== 'failed') ||
+    typeof value.summary !== 'string'
+  ) {
+    return null;
+  }
+
+  return {
+    status: value.status,
+    summary: value.summary,
+    deliverables: Array.isArray(value.deliverables)
+      ? value.deliverables.filter((d): d is string => typeof d === 'string')
+      : [],
+    needsReview: value.needsReview === true,
+  };
+}
+
+/**
+ * Map an SDK error result subtype to a failure reason
+ */
+export function getFailureReason(
+  subtype: SDKResultMessage['subtype'],
+): FailureReason {
+  switch (subtype) {
+    case 'error_max_turns':
+      return 'max_turns';
+    case 'error_max_budget_usd':
+      return 'budget_exceeded';
+    case 'error_max_structured_output_retries':
+      return 'invalid_verdict';
+    default:
+      return 'execution_error';
+  }
+}
+
+/**
+ * Format the completion comment posted to the task
+ */
+export function formatVerdictComment(
+  heading: string,
+  verdict: TaskVerdict,
+  durationSeconds: number,
+): string {
+  const deliverables =
+    verdict.deliverables.length > 0
+      ? `\n\n**Deliverables:**\n${verdict.deliverables.map((d) => `- ${d}`).join('\n')}`
+      : '';
+
+  return `${heading}\n\n**Execution Summary:**\n${verdict.summary}${deliverables}\n\n**Duration:** ${durationSeconds} seconds`;
+}
+
+/**
+ * Summary of a completion comment posted by formatVerdictComment, or null
+ * if the comment is not one
+ */
+export function parseVerdictSummary(comment: string): string | null {
+  const match = /\*\*Execution Summary:\*\*\n([\s\S]*?)(?:\n\n\*\*(?:Deliverables|Duration):\*\*|$)/.exec(comment);
+  return match ? match[1].trim() : null;
+}
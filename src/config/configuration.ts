@@ -3,6 +3,8 @@ export default () => ({
     apiKey: process.env.LINEAR_API_KEY,
     teamId: process.env.LINEAR_TEAM_ID,
     workspace: process.env.LINEAR_WORKSPACE,
+    // Signing secret shown when creating the webhook in Linear
+    webhookSecret: process.env.LINEAR_WEBHOOK_SECRET,
   },
   anthropic: {
     // Authentication method: 'api_key' (proxy) or 'login' (standard Anthropic)
@@ -12,8 +14,32 @@ export default () => ({
     // For 'api_key' mode: Proxy API configuration
     baseUrl: process.env.ANTHROPIC_BASE_URL,
     authToken: process.env.ANTHROPIC_AUTH_TOKEN,
+    // Profiles (model, endpoint, credentials) to fall back to as JSON, see README
+    fallbackProfiles: process.env.ANTHROPIC_FALLBACK_PROFILES,
     // Workspace path: restrict Claude to work only in this directory
     workspacePath: process.env.CLAUDE_WORKSPACE_PATH,
+    // 'per_task': run each task in its own git worktree under the workspace
+    worktreeMode: process.env.CLAUDE_WORKTREE_MODE || 'off',
+  },
+  sources: {
+    // Comma-separated list of enabled task sources: linear, local
+    enabled: process.env.TASK_SOURCES || 'linear',
+    // Directory of YAML task files for the local source
+    localTasksPath: process.env.LOCAL_TASKS_PATH,
+  },
+  policy: {
+    // Review policy as JSON ({ rules: [...], defaultAction }), see README
+    review: process.env.REVIEW_POLICY,
+    // Per-task caps as JSON ({ default: {...}, labels: { name: {...} } })
+    budgets: process.env.TASK_BUDGETS,
+    // Model routing rules as JSON ({ rules: [...], escalate: [...] })
+    modelRouting: process.env.MODEL_ROUTING,
+    // Seconds without a new comment before feedback is processed (debounce)
+    feedbackQuietPeriod: process.env.FEEDBACK_QUIET_PERIOD || '60',
+    // Approximate tokens of task context (links, attachments, comments) in the prompt
+    contextTokenBudget: process.env.TASK_CONTEXT_TOKENS || '8000',
+    // Label of tasks that are broken down into sub-issues before they run
+    planFirstLabel: process.env.PLAN_FIRST_LABEL || 'plan-first',
   },
   redis: {
     host: process.env.REDIS_HOST || 'localhost',
@@ -21,7 +47,14 @@ export default () => ({
   },
   app: {
     pollingInterval: parseInt(process.env.POLLING_INTERVAL || '30000', 10),
+    // Polling cadence once webhooks are enabled (reconciliation fallback only)
+    reconciliationInterval: parseInt(
+      process.env.RECONCILIATION_INTERVAL || '600000',
+      10,
+    ),
     taskTimeout: parseInt(process.env.TASK_TIMEOUT || '10800000', 10),
     maxConcurrentTasks: parseInt(process.env.MAX_CONCURRENT_TASKS || '3', 10),
+    // Lease duration of a task claim; renewed while the task runs
+    claimTtl: parseInt(process.env.CLAIM_TTL || '60000', 10),
   },
 });
@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  fetchFile,
+  findUploadLinks,
+  getDispositionFileName,
+  getUniqueFileName,
+  isLinearUpload,
+} from './linear-files';
+
+const UPLOAD = 'https://uploads.linear.app/team/abc/screenshot.png';
+
+describe('findUploadLinks', () => {
+  it('finds Markdown links and images with their names', () => {
+    expect(findUploadLinks(`See ![Screen shot](${UPLOAD}) and [spec](https://uploads.linear.app/x/spec.pdf)`)).toEqual([
+      { url: UPLOAD, name: 'Screen shot' },
+      { url: 'https://uploads.linear.app/x/spec.pdf', name: 'spec' },
+    ]);
+  });
+
+  it('finds plain URLs without the punctuation ending the sentence', () => {
+    expect(findUploadLinks(`The data is at ${UPLOAD}.`)).toEqual([{ url: UPLOAD }]);
+  });
+
+  it('lists a file linked several times once, under its name', () => {
+    expect(findUploadLinks(`[shot](${UPLOAD})\n${UPLOAD}`)).toEqual([{ url: UPLOAD, name: 'shot' }]);
+  });
+
+  it('leaves links to other hosts out', () => {
+    expect(findUploadLinks('[PR](https://github.com/org/repo/pull/1) https://example.com/a.png')).toEqual([]);
+  });
+
+  it('leaves an empty name unset', () => {
+    expect(findUploadLinks(`![](${UPLOAD})`)).toEqual([{ url: UPLOAD, name: undefined }]);
+  });
+});
+
+describe('isLinearUpload', () => {
+  it('accepts files on the upload host over https only', () => {
+    expect(isLinearUpload(UPLOAD)).toBe(true);
+    expect(isLinearUpload('http://uploads.linear.app/team/abc/screenshot.png')).toBe(false);
+    expect(isLinearUpload('https://uploads.linear.app.example.com/a.png')).toBe(false);
+    expect(isLinearUpload('http://169.254.169.254/latest/meta-data')).toBe(false);
+    expect(isLinearUpload('not a url')).toBe(false);
+  });
+});
+
+describe('getDispositionFileName', () => {
+  it('reads quoted and unquoted names', () => {
+    expect(getDispositionFileName('attachment; filename="report.csv"')).toBe('report.csv');
+    expect(getDispositionFileName('inline; filename=data.json')).toBe('data.json');
+  });
+
+  it('decodes RFC 5987 names', () => {
+    expect(getDispositionFileName("attachment; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf")).toBe('résumé.pdf');
+  });
+
+  it('keeps a name that is not valid percent-encoding', () => {
+    expect(getDispositionFileName('attachment; filename="100%.txt"')).toBe('100%.txt');
+  });
+
+  it('returns undefined without a name', () => {
+    expect(getDispositionFileName(null)).toBeUndefined();
+    expect(getDispositionFileName('inline')).toBeUndefined();
+  });
+});
+
+describe('getUniqueFileName', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'linear-files-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps a free, safe name', () => {
+    expect(getUniqueFileName(dir, 'report.csv')).toBe('report.csv');
+  });
+
+  it('numbers names that are taken', () => {
+    fs.writeFileSync(path.join(dir, 'report.csv'), '');
+    fs.writeFileSync(path.join(dir, 'report-2.csv'), '');
+    expect(getUniqueFileName(dir, 'report.csv')).toBe('report-3.csv');
+  });
+
+  it('strips directories and unsafe characters', () => {
+    expect(getUniqueFileName(dir, '../../etc/passwd')).toBe('passwd');
+    expect(getUniqueFileName(dir, 'a:b*c?.txt')).toBe('a_b_c_.txt');
+    expect(getUniqueFileName(dir, '.env')).toBe('env');
+  });
+
+  it('falls back to a default name', () => {
+    expect(getUniqueFileName(dir, '')).toBe('attachment');
+  });
+});
+
+describe('fetchFile', () => {
+  const MAX_BYTES = 1024;
+  let server: http.Server;
+  let baseUrl: string;
+
+  // Fake file server standing in for Linear uploads
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      switch (req.url) {
+        case '/report.csv':
+          res.writeHead(200, {
+            'Content-Type': 'text/csv',
+            'Content-Disposition': 'attachment; filename="report.csv"',
+          });
+          res.end('a,b\n1,2\n');
+          break;
+        case '/auth':
+          res.writeHead(200, { 'Content-Type': 'text/plain' });
+          res.end(req.headers.authorization ?? '');
+          break;
+        case '/page':
+          res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+          res.end('<html></html>');
+          break;
+        case '/large':
+          res.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Content-Length': MAX_BYTES + 1 });
+          res.end(Buffer.alloc(MAX_BYTES + 1));
+          break;
+        case '/chunked':
+          // No Content-Length: the size is only known while streaming
+          res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+          for (let i = 0; i < 4; i++) {
+            res.write(Buffer.alloc(MAX_BYTES / 2));
+          }
+          res.end();
+          break;
+        default:
+          res.writeHead(404);
+          res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const options = { maxBytes: MAX_BYTES, timeoutMs: 5000 };
+
+  it('downloads a file with the name it was sent under', async () => {
+    const file = await fetchFile(`${baseUrl}/report.csv`, options);
+    expect(file?.data.toString()).toBe('a,b\n1,2\n');
+    expect(file?.name).toBe('report.csv');
+  });
+
+  it('sends the given headers', async () => {
+    const file = await fetchFile(`${baseUrl}/auth`, { ...options, headers: { Authorization: 'lin_api_key' } });
+    expect(file?.data.toString()).toBe('lin_api_key');
+  });
+
+  it('skips web pages', async () => {
+    await expect(fetchFile(`${baseUrl}/page`, options)).resolves.toBeNull();
+  });
+
+  it('skips files announced as over the limit', async () => {
+    await expect(fetchFile(`${baseUrl}/large`, options)).resolves.toBeNull();
+  });
+
+  it('stops streaming once a file without a length goes over the limit', async () => {
+    await expect(fetchFile(`${baseUrl}/chunked`, options)).resolves.toBeNull();
+  });
+
+  it('throws on error responses', async () => {
+    await expect(fetchFile(`${baseUrl}/missing`, options)).rejects.toThrow('HTTP 404');
+  });
+});
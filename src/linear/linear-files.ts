@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Files uploaded to Linear; downloading them needs the API key
+const LINEAR_UPLOAD_HOST = 'uploads.linear.app';
+
+// Markdown links and images to uploaded files: [name](url) or ![name](url)
+const UPLOAD_LINK_PATTERN = /!?\[([^\]]*)\]\((https:\/\/uploads\.linear\.app\/[^)\s]+)\)/g;
+// Uploaded files pasted as plain URLs
+const UPLOAD_URL_PATTERN = /https:\/\/uploads\.linear\.app\/[^\s)\]"'<>]+/g;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.html': 'text/html',
+  '.zip': 'application/zip',
+};
+
+/**
+ * A file to download: its URL and the name it was shared under, if any
+ */
+export interface FileSource {
+  url: string;
+  name?: string;
+}
+
+/**
+ * Whether a URL points to a file uploaded to Linear (over https). Only those
+ * are downloaded: fetching any link from an issue would let whoever can edit
+ * it make the server request internal addresses.
+ */
+export function isLinearUpload(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === 'https:' && hostname === LINEAR_UPLOAD_HOST;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Uploaded files linked from Markdown (a description or comment)
+ */
+export function findUploadLinks(markdown: string): FileSource[] {
+  const sources = new Map<string, FileSource>();
+  for (const [, name, url] of markdown.matchAll(UPLOAD_LINK_PATTERN)) {
+    sources.set(url, { url, name: name.trim() || undefined });
+  }
+  for (const [match] of markdown.matchAll(UPLOAD_URL_PATTERN)) {
+    // Punctuation ending the sentence is not part of the URL
+    const url = match.replace(/[.,;:!?]+$/, '');
+    if (!sources.has(url)) {
+      sources.set(url, { url });
+    }
+  }
+  return [...sources.values()];
+}
+
+/**
+ * Fetch a file; null for web pages and files over the size limit. The body is
+ * streamed, so a response without a Content-Length stops at the limit.
+ */
+export async function fetchFile(
+  url: string,
+  options: { headers?: Record<string, string>; maxBytes: number; timeoutMs: number },
+): Promise<{ data: Buffer; name?: string } | null> {
+  const response = await fetch(url, {
+    headers: options.headers,
+    signal: AbortSignal.timeout(options.timeoutMs),
+  });
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const size = Number(response.headers.get('content-length') || 0);
+  if (response.headers.get('content-type')?.startsWith('text/html') || size > options.maxBytes) {
+    await response.body?.cancel();
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+  let length = 0;
+  if (response.body) {
+    const reader = response.body.getReader();
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      length += chunk.value.length;
+      if (length > options.maxBytes) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(Buffer.from(chunk.value));
+    }
+  }
+
+  return {
+    data: Buffer.concat(chunks, length),
+    name: getDispositionFileName(response.headers.get('content-disposition')),
+  };
+}
+
+/**
+ * File name from a Content-Disposition header
+ */
+export function getDispositionFileName(header: string | null): string | undefined {
+  const match = header && /filename\*?=(?:UTF-8'')?"?([^";]+)"?/i.exec(header);
+  if (!match) {
+    return undefined;
+  }
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return match[1];
+  }
+}
+
+export function getContentType(fileName: string): string {
+  return CONTENT_TYPES[path.extname(fileName).toLowerCase()] ?? 'application/octet-stream';
+}
+
+/**
+ * A file name that is safe to write and not taken yet in the directory
+ */
+export function getUniqueFileName(dir: string, name: string): string {
+  const safe = path.basename(name).replace(/[^\w .-]/g, '_').replace(/^\.+/, '').trim() || 'attachment';
+  const ext = path.extname(safe);
+  const base = safe.slice(0, safe.length - ext.length);
+
+  let candidate = safe;
+  for (let i = 2; fs.existsSync(path.join(dir, candidate)); i++) {
+    candidate = `${base}-${i}${ext}`;
+  }
+  return candidate;
+}
@@ -0,0 +1,230 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { LinearService } from './linear.service';
+import { SettingsProviderService } from '../settings/settings-provider.service';
+
+const UPLOAD_HOST = 'https://uploads.linear.app';
+
+interface ReceivedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('LinearService comments', () => {
+  let client: Record<string, any>;
+  let service: LinearService;
+
+  const node = (id: string, userId: string | null, botActor: unknown = null) => ({
+    id,
+    body: `Comment ${id}`,
+    createdAt: new Date('2024-01-01T10:00:00Z'),
+    user: Promise.resolve(userId ? { id: userId, name: userId } : undefined),
+    botActor,
+  });
+
+  beforeEach(() => {
+    client = {
+      viewer: Promise.resolve({ id: 'viewer-1', name: 'Automation' }),
+      issue: jest.fn().mockResolvedValue({
+        comments: () =>
+          Promise.resolve({
+            nodes: [node('ours', 'viewer-1'), node('human', 'user-1'), node('app', null, { name: 'GitHub' })],
+          }),
+      }),
+    };
+    const settingsProvider = {} as SettingsProviderService;
+    service = new LinearService(settingsProvider);
+    Object.assign(service, { client, isConfigured: true });
+  });
+
+  const fromSystem = async () =>
+    Object.fromEntries((await service.getComments('issue-1')).map((c) => [c.id, c.fromSystem]));
+
+  it("marks comments by the API key's user and by apps as system comments", async () => {
+    await service['resolveViewer']();
+
+    expect(service.isViewer('viewer-1')).toBe(true);
+    expect(service.isViewer('user-1')).toBe(false);
+    await expect(fromSystem()).resolves.toEqual({ ours: true, human: false, app: true });
+  });
+
+  it('leaves the author undecided while the API key user is unresolved', async () => {
+    client.viewer = Promise.reject(new Error('Authentication required'));
+    await service['resolveViewer']();
+
+    expect(service.isViewer('viewer-1')).toBeUndefined();
+    await expect(fromSystem()).resolves.toEqual({ ours: undefined, human: undefined, app: true });
+  });
+});
+
+describe('LinearService files', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: ReceivedRequest[];
+  let dir: string;
+  let client: Record<string, jest.Mock>;
+  let service: LinearService;
+  const realFetch = global.fetch;
+
+  // Fake file server standing in for Linear's upload host and its storage
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk) => chunks.push(chunk));
+      req.on('end', () => {
+        requests.push({
+          method: req.method!,
+          url: req.url!,
+          headers: req.headers,
+          body: Buffer.concat(chunks).toString(),
+        });
+
+        if (req.method === 'PUT') {
+          res.writeHead(req.url === '/storage/broken.txt' ? 500 : 200);
+        } else if (req.url === '/files/shot.png') {
+          res.writeHead(200, { 'Content-Type': 'image/png' });
+          res.write('PNG');
+        } else if (req.url === '/files/report') {
+          res.writeHead(200, {
+            'Content-Type': 'text/csv',
+            'Content-Disposition': 'attachment; filename="report.csv"',
+          });
+          res.write('a,b');
+        } else {
+          res.writeHead(404);
+        }
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'linear-service-'));
+
+    // Requests to the upload host go to the fake server instead
+    jest
+      .spyOn(global, 'fetch')
+      .mockImplementation((url, init) => realFetch(String(url).replace(UPLOAD_HOST, baseUrl), init));
+
+    client = {
+      issue: jest.fn(),
+      fileUpload: jest.fn(),
+      createAttachment: jest.fn(),
+    };
+    const settingsProvider = {
+      getLinearApiKey: () => 'lin_api_key',
+    } as unknown as SettingsProviderService;
+    service = new LinearService(settingsProvider);
+    Object.assign(service, { client, isConfigured: true });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('uploadAttachments', () => {
+    const upload = (name: string) => ({
+      uploadFile: {
+        uploadUrl: `${baseUrl}/storage/${name}`,
+        assetUrl: `${UPLOAD_HOST}/assets/${name}`,
+        headers: [{ key: 'x-amz-acl', value: 'public-read' }],
+      },
+    });
+
+    it('uploads each file and attaches it to the issue', async () => {
+      const file = path.join(dir, 'summary.md');
+      fs.writeFileSync(file, '# Summary');
+      client.fileUpload.mockResolvedValue(upload('summary.md'));
+      client.createAttachment.mockResolvedValue({ attachment: Promise.resolve({ id: 'attachment-1' }) });
+
+      const attached = await service.uploadAttachments('issue-1', [file]);
+
+      expect(client.fileUpload).toHaveBeenCalledWith('text/markdown', 'summary.md', 9);
+      const put = requests.find((r) => r.method === 'PUT');
+      expect(put).toMatchObject({
+        url: '/storage/summary.md',
+        body: '# Summary',
+        headers: expect.objectContaining({ 'content-type': 'text/markdown', 'x-amz-acl': 'public-read' }),
+      });
+      expect(client.createAttachment).toHaveBeenCalledWith({
+        issueId: 'issue-1',
+        title: 'summary.md',
+        url: `${UPLOAD_HOST}/assets/summary.md`,
+      });
+      expect(attached).toEqual([
+        { id: 'attachment-1', title: 'summary.md', url: `${UPLOAD_HOST}/assets/summary.md` },
+      ]);
+    });
+
+    it('leaves out files whose upload fails', async () => {
+      const broken = path.join(dir, 'broken.txt');
+      const good = path.join(dir, 'good.txt');
+      fs.writeFileSync(broken, 'x');
+      fs.writeFileSync(good, 'y');
+      client.fileUpload.mockImplementation((_type: string, name: string) => Promise.resolve(upload(name)));
+      client.createAttachment.mockResolvedValue({ attachment: Promise.resolve({ id: 'attachment-2' }) });
+
+      const attached = await service.uploadAttachments('issue-1', [broken, good]);
+
+      expect(attached.map((a) => a.title)).toEqual(['good.txt']);
+      expect(client.createAttachment).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('downloadAttachments', () => {
+    beforeEach(() => {
+      client.issue.mockResolvedValue({
+        description: `Layout: ![shot.png](${UPLOAD_HOST}/files/shot.png)`,
+        attachments: () =>
+          Promise.resolve({
+            nodes: [
+              { url: 'https://github.com/org/repo/pull/1', title: 'Pull request' },
+              { url: 'http://127.0.0.1/internal', title: 'Internal' },
+              { url: `${UPLOAD_HOST}/files/report`, title: 'Report' },
+            ],
+          }),
+      });
+      jest.spyOn(service, 'getComments').mockResolvedValue([]);
+    });
+
+    it('downloads files uploaded to Linear only, with the API key', async () => {
+      const downloaded = await service.downloadAttachments('issue-1', dir);
+
+      expect(downloaded.sort()).toEqual(['report.csv', 'shot.png']);
+      expect(fs.readFileSync(path.join(dir, 'report.csv'), 'utf8')).toBe('a,b');
+      expect(requests.map((r) => r.url).sort()).toEqual(['/files/report', '/files/shot.png']);
+      expect(requests.every((r) => r.headers.authorization === 'lin_api_key')).toBe(true);
+    });
+
+    it('skips files downloaded by an earlier call', async () => {
+      await service.downloadAttachments('issue-1', dir);
+      requests = [];
+
+      await expect(service.downloadAttachments('issue-1', dir)).resolves.toEqual([]);
+      expect(requests).toEqual([]);
+    });
+
+    it('starts a corrupt manifest over', async () => {
+      fs.writeFileSync(path.join(dir, '.downloaded.json'), '{"truncated');
+
+      const downloaded = await service.downloadAttachments('issue-1', dir);
+
+      expect(downloaded.sort()).toEqual(['report.csv', 'shot.png']);
+      const manifest = JSON.parse(fs.readFileSync(path.join(dir, '.downloaded.json'), 'utf8'));
+      expect(manifest[`${UPLOAD_HOST}/files/report`]).toBe('report.csv');
+    });
+  });
+});
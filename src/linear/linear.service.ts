@@ -1,14 +1,59 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
-import { LinearClient } from '@linear/sdk';
-import { LinearTask, LinearState, LinearComment, TaskStatus } from './linear.types';
+import { Issue, LinearClient, LinearDocument } from '@linear/sdk';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  LinearTask,
+  LinearState,
+  LinearComment,
+  LinearIssueRef,
+  LinearAttachment,
+  LinearTaskContext,
+  LinearTaskDependencies,
+  NewSubIssue,
+  TaskStatus,
+} from './linear.types';
+import {
+  FileSource,
+  fetchFile,
+  findUploadLinks,
+  getContentType,
+  getUniqueFileName,
+  isLinearUpload,
+} from './linear-files';
 import { SettingsProviderService } from '../settings/settings-provider.service';
+import { TaskSource } from '../task-source/task-source.interface';
+
+// URLs already downloaded into a directory, so later runs only fetch new files
+const DOWNLOAD_MANIFEST = '.downloaded.json';
+const DOWNLOAD_TIMEOUT_MS = 60 * 1000;
+const MAX_DOWNLOAD_BYTES = 50 * 1024 * 1024;
+
+// Blockers and sub-issues with their states in one request; checked on every poll
+const DEPENDENCIES_QUERY = `
+  query TaskDependencies($id: String!) {
+    issue(id: $id) {
+      children { nodes { id identifier title state { name } } }
+      inverseRelations { nodes { type issue { id identifier title state { name } } } }
+    }
+  }
+`;
+
+interface DependencyIssueNode {
+  id: string;
+  identifier: string;
+  title: string;
+  state?: { name: string } | null;
+}
 
 @Injectable()
-export class LinearService implements OnModuleInit {
+export class LinearService implements OnModuleInit, TaskSource {
+  readonly name = 'linear';
   private readonly logger = new Logger(LinearService.name);
   private client: LinearClient | null = null;
   private teamKey: string = '';
   private teamId: string = '';
+  private viewerId: string = ''; // User (or app) behind the API key, author of system comments
   private stateCache: Map<string, LinearState> = new Map();
   private isConfigured: boolean = false;
 
@@ -41,6 +86,9 @@ export class LinearService implements OnModuleInit {
       // Find the actual team ID by team key
       await this.resolveTeamId();
 
+      // Comments are recognised as ours by their author
+      await this.resolveViewer();
+
       // Cache states on startup
       await this.refreshStateCache();
 
@@ -61,6 +109,13 @@ export class LinearService implements OnModuleInit {
     return this.isConfigured && this.client !== null;
   }
 
+  /**
+   * Get the resolved team UUID (empty until the client is initialized)
+   */
+  getTeamId(): string {
+    return this.teamId;
+  }
+
   /**
    * Ensure client is ready, attempt to initialize if not
    */
@@ -105,6 +160,31 @@ export class LinearService implements OnModuleInit {
     }
   }
 
+  /**
+   * Resolve the user (or app) the API key acts as. Without it, system
+   * comments are recognised by their prefix only.
+   */
+  private async resolveViewer(): Promise<void> {
+    if (!this.client) return;
+
+    try {
+      const viewer = await this.client.viewer;
+      this.viewerId = viewer.id;
+      this.logger.log(`Posting comments as ${viewer.name} (${viewer.id})`);
+    } catch (error) {
+      this.viewerId = '';
+      this.logger.warn(`Failed to resolve API key user, falling back to comment prefix: ${error.message}`);
+    }
+  }
+
+  /**
+   * Whether a comment author is the user the API key acts as: this service,
+   * or the agent through Linear MCP. Undefined while that user is unresolved.
+   */
+  isViewer(userId: string | undefined): boolean | undefined {
+    return this.viewerId ? userId === this.viewerId : undefined;
+  }
+
   /**
    * Refresh the state cache
    */
@@ -180,6 +260,7 @@ export class LinearService implements OnModuleInit {
         title: issue.title,
         description: issue.description,
         priority: issue.priority,
+        estimate: issue.estimate,
         createdAt: issue.createdAt,
       }));
     } catch (error) {
@@ -192,9 +273,14 @@ export class LinearService implements OnModuleInit {
   }
 
   /**
-   * Lock a task by updating its status to In Progress
+   * Lock a task by updating its status to In Progress.
+   * Compare-and-set: the issue is re-read first and only transitioned if it is
+   * still in the expected status, since the poll result may be stale.
    */
-  async lockTask(issueId: string): Promise<boolean> {
+  async lockTask(
+    issueId: string,
+    expectedStatus: string = TaskStatus.TODO,
+  ): Promise<boolean> {
     if (!(await this.ensureClient())) {
       this.logger.warn('Cannot lock task: Linear not configured');
       return false;
@@ -206,6 +292,15 @@ export class LinearService implements OnModuleInit {
         throw new Error('In Progress state not found');
       }
 
+      const issue = await this.client!.issue(issueId);
+      const state = await issue.state;
+      if (state?.name !== expectedStatus) {
+        this.logger.warn(
+          `Task ${issue.identifier} is "${state?.name}", expected "${expectedStatus}", not locking`,
+        );
+        return false;
+      }
+
       await this.client!.updateIssue(issueId, {
         stateId: inProgressStateId,
       });
@@ -294,6 +389,7 @@ export class LinearService implements OnModuleInit {
         title: issue.title,
         description: issue.description,
         priority: issue.priority,
+        estimate: issue.estimate,
         createdAt: issue.createdAt,
       };
     } catch (error) {
@@ -315,6 +411,7 @@ export class LinearService implements OnModuleInit {
       const state = await issue.state;
       const assignee = await issue.assignee;
       const labels = await issue.labels();
+      const project = await issue.project;
 
       return {
         id: issue.id,
@@ -322,6 +419,7 @@ export class LinearService implements OnModuleInit {
         title: issue.title,
         description: issue.description,
         priority: issue.priority,
+        estimate: issue.estimate,
         createdAt: issue.createdAt,
         updatedAt: issue.updatedAt,
         state: state
@@ -344,6 +442,7 @@ export class LinearService implements OnModuleInit {
           name: label.name,
           color: label.color,
         })),
+        project: project ? { id: project.id, name: project.name } : undefined,
       };
     } catch (error) {
       this.logger.error(`Failed to get issue with state ${issueId}:`, error.message);
@@ -351,6 +450,13 @@ export class LinearService implements OnModuleInit {
     }
   }
 
+  /**
+   * Get a single task with its current state (TaskSource)
+   */
+  getTask(issueId: string): Promise<LinearTask | null> {
+    return this.getIssueWithState(issueId);
+  }
+
   /**
    * Get comments for an issue
    */
@@ -377,6 +483,8 @@ export class LinearService implements OnModuleInit {
                 avatarUrl: user.avatarUrl,
               }
             : undefined,
+          // Posted as the API key's user, or by an app
+          fromSystem: comment.botActor ? true : this.isViewer(user?.id),
         });
       }
 
@@ -393,6 +501,326 @@ export class LinearService implements OnModuleInit {
     }
   }
 
+  /**
+   * Get the issues blocking a task and its sub-issues
+   */
+  async getTaskDependencies(issueId: string): Promise<LinearTaskDependencies | null> {
+    if (!(await this.ensureClient())) {
+      return null;
+    }
+
+    try {
+      const { data } = await this.client!.client.rawRequest<
+        {
+          issue: {
+            children: { nodes: DependencyIssueNode[] };
+            inverseRelations: { nodes: { type: string; issue: DependencyIssueNode | null }[] };
+          };
+        },
+        { id: string }
+      >(DEPENDENCIES_QUERY, { id: issueId });
+      if (!data) {
+        return null;
+      }
+
+      const toRef = (node: DependencyIssueNode): LinearIssueRef => ({
+        id: node.id,
+        identifier: node.identifier,
+        title: node.title,
+        state: node.state?.name,
+      });
+      return {
+        children: data.issue.children.nodes.map(toRef),
+        blockedBy: data.issue.inverseRelations.nodes
+          .filter((relation) => relation.type === 'blocks' && relation.issue)
+          .map((relation) => toRef(relation.issue!)),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to get dependencies of ${issueId}:`, error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Get the issues a task is linked to (parent, sub-issues, relations),
+   * its cycle and attachments
+   */
+  async getTaskContext(issueId: string): Promise<LinearTaskContext | null> {
+    if (!(await this.ensureClient())) {
+      return null;
+    }
+
+    try {
+      const issue = await this.client!.issue(issueId);
+      const [parent, children, relations, inverseRelations, cycle, attachments] = await Promise.all([
+        issue.parent,
+        issue.children(),
+        issue.relations(),
+        issue.inverseRelations(),
+        issue.cycle,
+        issue.attachments(),
+      ]);
+
+      const context: LinearTaskContext = {
+        parent: parent ? await this.toIssueRef(parent) : undefined,
+        children: await Promise.all(children.nodes.map((child) => this.toIssueRef(child))),
+        blockedBy: [],
+        blocks: [],
+        related: [],
+        cycle: cycle
+          ? {
+              id: cycle.id,
+              number: cycle.number,
+              name: cycle.name,
+              startsAt: cycle.startsAt,
+              endsAt: cycle.endsAt,
+            }
+          : undefined,
+        attachments: attachments.nodes.map((attachment) => ({
+          id: attachment.id,
+          title: attachment.title,
+          url: attachment.url,
+          subtitle: attachment.subtitle,
+        })),
+      };
+
+      // Relations point from this issue, inverse relations point at it
+      for (const relation of relations.nodes) {
+        const other = await relation.relatedIssue;
+        if (other && relation.type === 'blocks') {
+          context.blocks.push(await this.toIssueRef(other));
+        } else if (other && relation.type === 'related') {
+          context.related.push(await this.toIssueRef(other));
+        }
+      }
+      for (const relation of inverseRelations.nodes) {
+        const other = await relation.issue;
+        if (other && relation.type === 'blocks') {
+          context.blockedBy.push(await this.toIssueRef(other));
+        } else if (other && relation.type === 'related') {
+          context.related.push(await this.toIssueRef(other));
+        }
+      }
+
+      return context;
+    } catch (error) {
+      this.logger.error(`Failed to get context of ${issueId}:`, error.message);
+      return null;
+    }
+  }
+
+  private async toIssueRef(issue: Issue): Promise<LinearIssueRef> {
+    const state = await issue.state;
+    return {
+      id: issue.id,
+      identifier: issue.identifier,
+      title: issue.title,
+      state: state?.name,
+    };
+  }
+
+  /**
+   * Download the issue's attachments and the files uploaded into its
+   * description and comments into a directory. Only files uploaded to Linear
+   * are fetched; URLs downloaded by an earlier call are skipped, as are web
+   * pages and files over the size limit.
+   * @returns names of the files downloaded now
+   */
+  async downloadAttachments(issueId: string, dir: string): Promise<string[]> {
+    if (!(await this.ensureClient())) {
+      return [];
+    }
+
+    let sources: FileSource[];
+    try {
+      const issue = await this.client!.issue(issueId);
+      const [attachments, comments] = await Promise.all([issue.attachments(), this.getComments(issueId)]);
+      sources = [
+        ...attachments.nodes.map((attachment) => ({ url: attachment.url, name: attachment.title })),
+        ...findUploadLinks(issue.description || ''),
+        ...comments.flatMap((comment) => findUploadLinks(comment.body)),
+      ];
+    } catch (error) {
+      this.logger.error(`Failed to list attachments of ${issueId}:`, error.message);
+      return [];
+    }
+
+    const manifestPath = path.join(dir, DOWNLOAD_MANIFEST);
+    const manifest = this.readManifest(manifestPath);
+    const downloaded: string[] = [];
+
+    for (const source of sources) {
+      // Links to other hosts (pull requests, documents) are left to the agent
+      if (manifest[source.url] !== undefined || !isLinearUpload(source.url)) {
+        continue;
+      }
+      try {
+        const file = await fetchFile(source.url, {
+          headers: { Authorization: this.settingsProvider.getLinearApiKey() || '' },
+          maxBytes: MAX_DOWNLOAD_BYTES,
+          timeoutMs: DOWNLOAD_TIMEOUT_MS,
+        });
+        // Recorded even when skipped, so it is not fetched on every run
+        manifest[source.url] = file ? getUniqueFileName(dir, file.name ?? source.name ?? '') : '';
+        if (file) {
+          fs.writeFileSync(path.join(dir, manifest[source.url]), file.data);
+          downloaded.push(manifest[source.url]);
+        }
+      } catch (error) {
+        this.logger.warn(`Could not download ${source.url} of ${issueId}: ${error.message}`);
+      }
+    }
+
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+    return downloaded;
+  }
+
+  /**
+   * Downloaded URL → file name (empty if skipped). A corrupt manifest is
+   * started over; files already in the folder are kept under new names.
+   */
+  private readManifest(manifestPath: string): Record<string, string> {
+    if (!fs.existsSync(manifestPath)) {
+      return {};
+    }
+    try {
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+      if (manifest && typeof manifest === 'object' && !Array.isArray(manifest)) {
+        return manifest;
+      }
+      this.logger.warn(`Ignoring invalid download manifest ${manifestPath}`);
+    } catch (error) {
+      this.logger.warn(`Ignoring corrupt download manifest ${manifestPath}: ${error.message}`);
+    }
+    return {};
+  }
+
+  /**
+   * Upload files to Linear and attach them to the issue. Files that fail
+   * are logged and left out of the result.
+   * @param files - absolute paths
+   */
+  async uploadAttachments(issueId: string, files: string[]): Promise<LinearAttachment[]> {
+    if (!(await this.ensureClient())) {
+      return [];
+    }
+
+    const attached: LinearAttachment[] = [];
+    for (const file of files) {
+      const name = path.basename(file);
+      try {
+        const data = fs.readFileSync(file);
+        const contentType = getContentType(name);
+        const { uploadFile } = await this.client!.fileUpload(contentType, name, data.length);
+        if (!uploadFile) {
+          throw new Error('no upload URL returned');
+        }
+
+        const headers: Record<string, string> = {
+          'Content-Type': contentType,
+          'Cache-Control': 'public, max-age=31536000',
+        };
+        for (const { key, value } of uploadFile.headers) {
+          headers[key] = value;
+        }
+        const response = await fetch(uploadFile.uploadUrl, { method: 'PUT', headers, body: data });
+        if (!response.ok) {
+          throw new Error(`upload failed with HTTP ${response.status}`);
+        }
+
+        const payload = await this.client!.createAttachment({
+          issueId,
+          title: name,
+          url: uploadFile.assetUrl,
+        });
+        const attachment = await payload.attachment;
+        attached.push({ id: attachment?.id ?? '', title: name, url: uploadFile.assetUrl });
+      } catch (error) {
+        this.logger.error(`Failed to upload ${name} to ${issueId}:`, error.message);
+      }
+    }
+    return attached;
+  }
+
+  /**
+   * Create sub-issues under an issue, in Backlog and with a label (created if
+   * missing). They take the parent's project and priority; "blocks" relations
+   * are added for their dependencies. Issues that fail are logged and left
+   * out of the result, as are relations to them.
+   */
+  async createSubIssues(
+    parentId: string,
+    subIssues: NewSubIssue[],
+    label: string,
+  ): Promise<LinearIssueRef[]> {
+    if (!(await this.ensureClient()) || !this.teamId) {
+      return [];
+    }
+
+    const parent = await this.client!.issue(parentId);
+    const project = await parent.project;
+    const labelId = await this.getLabelId(label);
+    if (!this.getStateId(TaskStatus.BACKLOG)) {
+      await this.refreshStateCache();
+    }
+
+    const created: (LinearIssueRef | null)[] = [];
+    for (const subIssue of subIssues) {
+      try {
+        const payload = await this.client!.createIssue({
+          teamId: this.teamId,
+          parentId,
+          title: subIssue.title,
+          description: subIssue.description,
+          priority: parent.priority,
+          projectId: project?.id,
+          stateId: this.getStateId(TaskStatus.BACKLOG),
+          labelIds: labelId ? [labelId] : undefined,
+        });
+        const issue = await payload.issue;
+        if (!issue) {
+          throw new Error('no issue returned');
+        }
+        created.push({ id: issue.id, identifier: issue.identifier, title: issue.title, state: TaskStatus.BACKLOG });
+
+        for (const index of subIssue.blockedBy) {
+          const blocker = created[index];
+          if (blocker) {
+            await this.client!.createIssueRelation({
+              issueId: blocker.id,
+              relatedIssueId: issue.id,
+              type: LinearDocument.IssueRelationType.Blocks,
+            });
+          }
+        }
+      } catch (error) {
+        this.logger.error(`Failed to create sub-issue "${subIssue.title}" of ${parentId}:`, error.message);
+        created.push(null);
+      }
+    }
+    return created.filter((issue): issue is LinearIssueRef => !!issue);
+  }
+
+  /**
+   * ID of a label by name (workspace or team label), created on the team if missing
+   */
+  private async getLabelId(name: string): Promise<string | undefined> {
+    try {
+      const labels = await this.client!.issueLabels({ filter: { name: { eqIgnoreCase: name } } });
+      const existing =
+        labels.nodes.find((label) => label.name === name) ?? labels.nodes[0];
+      if (existing) {
+        return existing.id;
+      }
+
+      const payload = await this.client!.createIssueLabel({ name, teamId: this.teamId });
+      return (await payload.issueLabel)?.id;
+    } catch (error) {
+      this.logger.error(`Failed to resolve label "${name}":`, error.message);
+      return undefined;
+    }
+  }
+
   /**
    * Get issue with comments
    */
@@ -409,6 +837,7 @@ export class LinearService implements OnModuleInit {
       const state = await issue.state;
       const assignee = await issue.assignee;
       const labels = await issue.labels();
+      const project = await issue.project;
 
       return {
         issue: {
@@ -417,6 +846,7 @@ export class LinearService implements OnModuleInit {
           title: issue.title,
           description: issue.description,
           priority: issue.priority,
+          estimate: issue.estimate,
           createdAt: issue.createdAt,
           updatedAt: issue.updatedAt,
           state: state
@@ -439,6 +869,7 @@ export class LinearService implements OnModuleInit {
             name: label.name,
             color: label.color,
           })),
+          project: project ? { id: project.id, name: project.name } : undefined,
         },
         comments,
       };
@@ -476,6 +907,7 @@ export class LinearService implements OnModuleInit {
         const state = await issue.state;
         const assignee = await issue.assignee;
         const labels = await issue.labels();
+        const project = await issue.project;
 
         tasks.push({
           id: issue.id,
@@ -483,6 +915,7 @@ export class LinearService implements OnModuleInit {
           title: issue.title,
           description: issue.description,
           priority: issue.priority,
+          estimate: issue.estimate,
           createdAt: issue.createdAt,
           updatedAt: issue.updatedAt,
           state: state
@@ -505,6 +938,7 @@ export class LinearService implements OnModuleInit {
             name: label.name,
             color: label.color,
           })),
+          project: project ? { id: project.id, name: project.name } : undefined,
         });
       }
 
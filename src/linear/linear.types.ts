@@ -4,11 +4,14 @@ export interface LinearTask {
   title: string;
   description?: string;
   priority?: number;
+  estimate?: number; // Estimate points, if the team uses estimates
   createdAt: Date;
   updatedAt?: Date;
   state?: LinearState;
   assignee?: LinearUser;
   labels?: LinearLabel[];
+  project?: LinearProject;
+  source?: string; // Task source name (see TaskSourceService), defaults to Linear
 }
 
 export interface LinearState {
@@ -24,6 +27,11 @@ export interface LinearUser {
   avatarUrl?: string;
 }
 
+export interface LinearProject {
+  id: string;
+  name: string;
+}
+
 export interface LinearLabel {
   id: string;
   name: string;
@@ -35,6 +43,60 @@ export interface LinearComment {
   body: string;
   createdAt: Date;
   user?: LinearUser;
+  fromSystem?: boolean; // Posted by this system or an app, by author; unset if the source cannot tell
+}
+
+/**
+ * Another issue a task is linked to (parent, sub-issue or relation)
+ */
+export interface LinearIssueRef {
+  id: string;
+  identifier: string;
+  title: string;
+  state?: string; // State name
+}
+
+export interface LinearCycle {
+  id: string;
+  number: number;
+  name?: string;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+export interface LinearAttachment {
+  id: string;
+  title: string;
+  url: string;
+  subtitle?: string;
+}
+
+/**
+ * What surrounds a task beyond its own fields: linked issues, cycle and
+ * attachments (sources that have no such concepts leave them empty)
+ */
+export interface LinearTaskContext {
+  parent?: LinearIssueRef;
+  children: LinearIssueRef[]; // Sub-issues
+  blockedBy: LinearIssueRef[];
+  blocks: LinearIssueRef[];
+  related: LinearIssueRef[];
+  cycle?: LinearCycle;
+  attachments: LinearAttachment[];
+}
+
+/**
+ * What a task has to wait for: the issues blocking it and its sub-issues
+ */
+export type LinearTaskDependencies = Pick<LinearTaskContext, 'blockedBy' | 'children'>;
+
+/**
+ * A sub-issue to create under a task
+ */
+export interface NewSubIssue {
+  title: string;
+  description: string;
+  blockedBy: number[]; // Indexes of earlier sub-issues in the same batch
 }
 
 export enum TaskStatus {
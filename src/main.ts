@@ -4,7 +4,8 @@ import { Logger } from '@nestjs/common';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
-  const app = await NestFactory.create(AppModule);
+  // rawBody is needed to verify Linear webhook signatures
+  const app = await NestFactory.create(AppModule, { rawBody: true });
 
   // Enable CORS for frontend
   app.enableCors({
@@ -19,6 +20,7 @@ async function bootstrap() {
   logger.log(`24Hours Automation Service running on port ${port}`);
   logger.log(`WebSocket endpoint: ws://localhost:${port}/monitor`);
   logger.log(`API endpoint: http://localhost:${port}/api`);
+  logger.log(`Linear webhook endpoint: http://localhost:${port}/api/webhooks/linear`);
 }
 
 bootstrap();
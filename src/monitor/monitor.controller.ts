@@ -1,12 +1,18 @@
-import { Controller, Get, Post, Param } from '@nestjs/common';
+import { Controller, Get, Post, Param, Query, NotFoundException } from '@nestjs/common';
 import { MonitorService } from './monitor.service';
 import { LinearService } from '../linear/linear.service';
+import { TaskSourceService } from '../task-source/task-source.service';
+import { ClaudeService, EffectivePrompt } from '../claude/claude.service';
+import { TaskPlanService } from '../plan/task-plan.service';
 
 @Controller('api/monitor')
 export class MonitorController {
   constructor(
     private monitorService: MonitorService,
     private linearService: LinearService,
+    private taskSources: TaskSourceService,
+    private claudeService: ClaudeService,
+    private taskPlans: TaskPlanService,
   ) {}
 
   /**
@@ -42,6 +48,85 @@ export class MonitorController {
     return { taskId, sessionId };
   }
 
+  /**
+   * Get the review policy decision for a task (which rule fired and why)
+   */
+  @Get('tasks/:taskId/review')
+  getTaskReview(@Param('taskId') taskId: string) {
+    const review = this.monitorService.getReviewDecision(taskId);
+    return { taskId, review };
+  }
+
+  /**
+   * Get the run history of a task (execute, feedback and retry runs)
+   */
+  @Get('tasks/:taskId/runs')
+  getTaskRuns(@Param('taskId') taskId: string) {
+    return { taskId, runs: this.monitorService.getTaskRuns(taskId) };
+  }
+
+  /**
+   * Get the Plan First breakdown of a task and its sub-issues
+   */
+  @Get('tasks/:taskId/plan')
+  getTaskPlan(@Param('taskId') taskId: string) {
+    return { taskId, plan: this.taskPlans.get(taskId) };
+  }
+
+  /**
+   * Approve a task's plan, queueing its sub-issues
+   */
+  @Post('tasks/:taskId/plan/approve')
+  async approveTaskPlan(@Param('taskId') taskId: string) {
+    const task = await this.taskSources.getTask(taskId);
+    if (!task) {
+      throw new NotFoundException(`Task ${taskId} not found`);
+    }
+    return this.taskPlans.approve(task, 'a dashboard user');
+  }
+
+  /**
+   * Get the prompts a new run of the task would get: templates merged with
+   * the repository's instructions, plus the model and repository defaults
+   */
+  @Get('tasks/:taskId/prompt')
+  async getTaskPrompt(@Param('taskId') taskId: string): Promise<EffectivePrompt> {
+    const task = await this.taskSources.getTask(taskId);
+    if (!task) {
+      throw new NotFoundException(`Task ${taskId} not found`);
+    }
+    return this.claudeService.getEffectivePrompt(task);
+  }
+
+  /**
+   * Get tokens and cost aggregated by day, label, model or task
+   * e.g. /api/monitor/usage?groupBy=day&from=2026-01-01&to=2026-02-01
+   */
+  @Get('usage')
+  getUsage(
+    @Query('groupBy') groupBy = 'day',
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    return this.monitorService.getUsageAggregate(groupBy, from, to);
+  }
+
+  /**
+   * Get individual runs with their usage
+   */
+  @Get('usage/runs')
+  getUsageRuns(@Query('from') from?: string, @Query('to') to?: string) {
+    return this.monitorService.getUsageRuns(from, to);
+  }
+
+  /**
+   * Get active task claims (which worker holds which task)
+   */
+  @Get('claims')
+  async getClaims() {
+    return this.monitorService.getClaims();
+  }
+
   /**
    * Get task history
    */
@@ -59,37 +144,37 @@ export class MonitorController {
   }
 
   /**
-   * Get all tasks from Linear
+   * Get all tasks from the enabled task sources
    */
   @Get('linear/tasks')
   async getAllTasks() {
-    const tasks = await this.linearService.getAllTasks();
+    const tasks = await this.taskSources.getAllTasks();
     return { tasks };
   }
 
   /**
-   * Get tasks by status from Linear
+   * Get tasks by status from the enabled task sources
    */
   @Get('linear/tasks/:status')
   async getTasksByStatus(@Param('status') status: string) {
-    const tasks = await this.linearService.getTasksByStatus(status);
+    const tasks = await this.taskSources.getTasksByStatus(status);
     return { status, tasks };
   }
 
   /**
-   * Get issue with comments from Linear
+   * Get issue with comments from its task source
    */
   @Get('linear/issues/:issueId')
   async getIssueWithComments(@Param('issueId') issueId: string) {
-    return this.linearService.getIssueWithComments(issueId);
+    return this.taskSources.getTaskWithComments(issueId);
   }
 
   /**
-   * Get comments for an issue from Linear
+   * Get comments for an issue from its task source
    */
   @Get('linear/issues/:issueId/comments')
   async getIssueComments(@Param('issueId') issueId: string) {
-    const comments = await this.linearService.getComments(issueId);
+    const comments = await this.taskSources.getComments(issueId);
     return { issueId, comments };
   }
 
@@ -132,4 +217,12 @@ export class MonitorController {
   async retryTask(@Param('taskId') taskId: string) {
     return this.monitorService.retryTask(taskId);
   }
+
+  /**
+   * Cancel a running or queued task
+   */
+  @Post('tasks/:taskId/cancel')
+  async cancelTask(@Param('taskId') taskId: string) {
+    return this.monitorService.cancelTask(taskId);
+  }
 }
@@ -7,16 +7,30 @@ import {
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
 import { Logger } from '@nestjs/common';
+import { LinearIssueRef } from '../linear/linear.types';
 
 export interface TaskUpdateEvent {
   taskId: string;
   identifier: string;
-  status: 'queued' | 'running' | 'completed' | 'failed';
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
   progress?: number;
   currentStep?: string;
   startedAt?: Date;
   duration?: number;
   sessionId?: string;
+  claimedBy?: string;
+}
+
+/**
+ * A Todo task held back until its blockers and sub-issues are finished
+ */
+export interface WaitingTaskEvent {
+  taskId: string;
+  identifier: string;
+  title: string;
+  blockedBy: LinearIssueRef[];
+  subIssues: LinearIssueRef[];
+  since: Date;
 }
 
 export interface LogEvent {
@@ -77,6 +91,13 @@ export class MonitorGateway
     this.server.emit('log:new', data);
   }
 
+  /**
+   * Broadcast the tasks waiting on dependencies (the full list)
+   */
+  broadcastWaitingTasks(tasks: WaitingTaskEvent[]) {
+    this.server.emit('task:waiting', tasks);
+  }
+
   /**
    * Broadcast stats update
    */
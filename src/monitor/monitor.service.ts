@@ -2,10 +2,22 @@ import { Injectable, Inject, forwardRef, BadRequestException, NotFoundException
 import { InjectQueue } from '@nestjs/bull';
 import { Queue } from 'bull';
 import { ConfigService } from '@nestjs/config';
-import { MonitorGateway } from './monitor.gateway';
-import { LinearService } from '../linear/linear.service';
-import { TaskStatus } from '../linear/linear.types';
-import { SessionStoreService } from './session-store.service';
+import { MonitorGateway, WaitingTaskEvent } from './monitor.gateway';
+import { TaskSourceService } from '../task-source/task-source.service';
+import { LinearTask, TaskStatus } from '../linear/linear.types';
+import {
+  RunKind,
+  SessionStoreService,
+  TaskOutcome,
+  UsageGroupBy,
+} from './session-store.service';
+import { TaskClaimService } from '../claim/task-claim.service';
+import { ClaudeService } from '../claude/claude.service';
+import { PromptVersions } from '../claude/prompts/prompt-templates';
+import { addUniqueJob, retryJobId } from '../queue/task-jobs';
+import { TaskDependencies } from '../scheduler/task-dependencies';
+
+const USAGE_GROUP_BY: UsageGroupBy[] = ['day', 'label', 'model', 'task'];
 
 export interface RunningTaskInfo {
   taskId: string;
@@ -17,6 +29,10 @@ export interface RunningTaskInfo {
   steps: { step: string; timestamp: Date }[];
   startedAt: Date;
   sessionId?: string;
+  claimedBy?: string; // Worker holding the task claim
+  runId?: number; // Row in task_runs
+  runKind: RunKind;
+  model?: string;
 }
 
 export interface TaskExecutionHistory {
@@ -27,6 +43,7 @@ export interface TaskExecutionHistory {
   startedAt: Date;
   completedAt: Date;
   success: boolean;
+  outcome: TaskOutcome;
 }
 
 @Injectable()
@@ -35,14 +52,19 @@ export class MonitorService {
   private runningTasks: Map<string, RunningTaskInfo> = new Map();
   // Store completed task execution history (with sessionId)
   private taskHistory: Map<string, TaskExecutionHistory> = new Map();
+  // Todo tasks held back by unfinished blockers or sub-issues
+  private waitingTasks: Map<string, WaitingTaskEvent> = new Map();
   // Execution paused state
   private isPaused = false;
 
   constructor(
     private gateway: MonitorGateway,
-    private linearService: LinearService,
+    private taskSources: TaskSourceService,
     private sessionStore: SessionStoreService,
     private configService: ConfigService,
+    private taskClaims: TaskClaimService,
+    @Inject(forwardRef(() => ClaudeService))
+    private claudeService: ClaudeService,
     @InjectQueue('task-queue') private taskQueue: Queue,
   ) {}
 
@@ -64,6 +86,7 @@ export class MonitorService {
       },
       linear: linearStats,
       runningTasks: Array.from(this.runningTasks.values()),
+      waitingTasks: this.getWaitingTasks(),
     };
   }
 
@@ -72,11 +95,11 @@ export class MonitorService {
    */
   private async getLinearStats() {
     const [todo, inProgress, inReview, done, failed] = await Promise.all([
-      this.linearService.getTasksByStatus(TaskStatus.TODO),
-      this.linearService.getTasksByStatus(TaskStatus.IN_PROGRESS),
-      this.linearService.getTasksByStatus(TaskStatus.IN_REVIEW),
-      this.linearService.getTasksByStatus(TaskStatus.DONE),
-      this.linearService.getTasksByStatus(TaskStatus.FAILED),
+      this.taskSources.getTasksByStatus(TaskStatus.TODO),
+      this.taskSources.getTasksByStatus(TaskStatus.IN_PROGRESS),
+      this.taskSources.getTasksByStatus(TaskStatus.IN_REVIEW),
+      this.taskSources.getTasksByStatus(TaskStatus.DONE),
+      this.taskSources.getTasksByStatus(TaskStatus.FAILED),
     ]);
 
     return {
@@ -122,7 +145,7 @@ export class MonitorService {
     if (historyTask) {
       return {
         ...historyTask,
-        status: historyTask.success ? 'completed' : 'failed',
+        status: historyTask.outcome,
         duration: historyTask.completedAt.getTime() - historyTask.startedAt.getTime(),
       };
     }
@@ -138,7 +161,7 @@ export class MonitorService {
         startedAt: new Date(storedSession.startedAt),
         completedAt: storedSession.completedAt ? new Date(storedSession.completedAt) : undefined,
         status: storedSession.completedAt
-          ? (storedSession.success ? 'completed' : 'failed')
+          ? storedSession.outcome ?? (storedSession.success ? 'completed' : 'failed')
           : 'unknown',
         success: storedSession.success,
       };
@@ -147,6 +170,13 @@ export class MonitorService {
     return null;
   }
 
+  /**
+   * Get active task claims across all workers
+   */
+  async getClaims() {
+    return this.taskClaims.getAllClaims();
+  }
+
   /**
    * Get session ID for a task (from SQLite)
    */
@@ -162,27 +192,92 @@ export class MonitorService {
     return storedSession?.sessionId || null;
   }
 
+  /**
+   * ID of the run in progress for a task (task_runs row)
+   */
+  getCurrentRunId(taskId: string): number | undefined {
+    return this.runningTasks.get(taskId)?.runId;
+  }
+
+  /**
+   * Get all runs of a task (execute, feedback, retry), oldest first
+   */
+  getTaskRuns(taskId: string) {
+    return this.sessionStore.getRuns(taskId);
+  }
+
+  /**
+   * Get the review policy decision of the latest run (from SQLite)
+   */
+  getReviewDecision(taskId: string) {
+    return this.sessionStore.getReviewDecision(taskId);
+  }
+
   /**
    * Get task history (completed/failed)
    */
   async getTaskHistory() {
     const [done, failed] = await Promise.all([
-      this.linearService.getTasksByStatus(TaskStatus.DONE),
-      this.linearService.getTasksByStatus(TaskStatus.FAILED),
+      this.taskSources.getTasksByStatus(TaskStatus.DONE),
+      this.taskSources.getTasksByStatus(TaskStatus.FAILED),
     ]);
 
-    return [...done, ...failed]
+    const tasks = [...done, ...failed]
       .sort(
         (a, b) =>
           new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
       )
       .slice(0, 50); // Last 50 tasks
+
+    // Attach tokens and cost summed over all runs of each task
+    const usage = this.sessionStore.getUsageTotalsByTask(tasks.map((task) => task.id));
+    return tasks.map((task) => ({ ...task, usage: usage.get(task.id) || null }));
+  }
+
+  /**
+   * Aggregate run usage by day, label, model or task within an optional date range
+   */
+  getUsageAggregate(groupBy: string, from?: string, to?: string) {
+    if (!USAGE_GROUP_BY.includes(groupBy as UsageGroupBy)) {
+      throw new BadRequestException(
+        `groupBy must be one of: ${USAGE_GROUP_BY.join(', ')}`,
+      );
+    }
+
+    return {
+      groupBy,
+      from: from || null,
+      to: to || null,
+      groups: this.sessionStore.getUsageAggregate(
+        groupBy as UsageGroupBy,
+        this.toIsoDate(from),
+        this.toIsoDate(to),
+      ),
+    };
+  }
+
+  /**
+   * List individual runs with their usage (for CSV export)
+   */
+  getUsageRuns(from?: string, to?: string) {
+    return this.sessionStore.getRunUsage(this.toIsoDate(from), this.toIsoDate(to));
+  }
+
+  /**
+   * Normalize a date query parameter to the ISO format stored in SQLite
+   */
+  private toIsoDate(value?: string): string | undefined {
+    if (!value) return undefined;
+    if (isNaN(Date.parse(value))) {
+      throw new BadRequestException(`Invalid date: ${value}`);
+    }
+    return new Date(value).toISOString();
   }
 
   /**
    * Record task start
    */
-  taskStarted(taskId: string, identifier: string, title: string) {
+  taskStarted(taskId: string, identifier: string, title: string, runKind: RunKind = 'execute') {
     const info: RunningTaskInfo = {
       taskId,
       identifier,
@@ -191,10 +286,22 @@ export class MonitorService {
       progress: 0,
       steps: [],
       startedAt: new Date(),
+      claimedBy: this.taskClaims.workerId,
+      runKind,
     };
 
     this.runningTasks.set(taskId, info);
 
+    // Feedback and retry runs continue the session of the latest run
+    info.runId = this.sessionStore.startRun({
+      linearTaskId: taskId,
+      identifier,
+      runKind,
+      parentRunId:
+        runKind === 'execute' ? null : this.sessionStore.getLatestSessionRunId(taskId),
+      startedAt: info.startedAt.toISOString(),
+    });
+
     // Persist to SQLite
     this.sessionStore.saveSession({
       linearTaskId: taskId,
@@ -209,6 +316,7 @@ export class MonitorService {
       identifier,
       status: 'running',
       startedAt: info.startedAt,
+      claimedBy: info.claimedBy,
     });
 
     this.gateway.broadcastLog({
@@ -219,6 +327,57 @@ export class MonitorService {
     });
   }
 
+  /**
+   * Record a task held back by unfinished dependencies
+   * @returns whether it was not waiting before
+   */
+  taskWaiting(task: LinearTask, dependencies: TaskDependencies): boolean {
+    const existing = this.waitingTasks.get(task.id);
+    this.waitingTasks.set(task.id, {
+      taskId: task.id,
+      identifier: task.identifier,
+      title: task.title,
+      ...dependencies,
+      since: existing?.since ?? new Date(),
+    });
+    this.gateway.broadcastWaitingTasks(this.getWaitingTasks());
+
+    if (!existing) {
+      this.gateway.broadcastLog({
+        timestamp: new Date(),
+        level: 'info',
+        taskId: task.id,
+        message: `⏳ [${task.identifier}] Waiting on dependencies`,
+      });
+    }
+    return !existing;
+  }
+
+  /**
+   * A waiting task's dependencies are finished (or it was never waiting)
+   */
+  taskReady(taskId: string) {
+    if (this.waitingTasks.delete(taskId)) {
+      this.gateway.broadcastWaitingTasks(this.getWaitingTasks());
+    }
+  }
+
+  /**
+   * Forget waiting tasks that are no longer in Todo
+   * @param todoTaskIds - IDs of all tasks currently in Todo
+   */
+  retainWaiting(todoTaskIds: string[]) {
+    const stale = [...this.waitingTasks.keys()].filter((id) => !todoTaskIds.includes(id));
+    stale.forEach((id) => this.waitingTasks.delete(id));
+    if (stale.length > 0) {
+      this.gateway.broadcastWaitingTasks(this.getWaitingTasks());
+    }
+  }
+
+  getWaitingTasks(): WaitingTaskEvent[] {
+    return Array.from(this.waitingTasks.values());
+  }
+
   /**
    * Update task progress
    */
@@ -260,6 +419,9 @@ export class MonitorService {
 
       // Persist to SQLite
       this.sessionStore.updateSessionId(taskId, sessionId);
+      if (info.runId) {
+        this.sessionStore.setRunSessionId(info.runId, sessionId);
+      }
 
       this.gateway.broadcastTaskUpdate({
         taskId,
@@ -280,10 +442,54 @@ export class MonitorService {
     }
   }
 
+  /**
+   * Record the model and Anthropic profile a run uses and why the model was picked
+   */
+  taskModel(taskId: string, model: string, reason: string, profile: string) {
+    const info = this.runningTasks.get(taskId);
+    if (info) {
+      info.model = model;
+      if (info.runId) {
+        this.sessionStore.setRunModel(info.runId, model, reason, profile);
+      }
+
+      this.gateway.broadcastLog({
+        timestamp: new Date(),
+        level: 'info',
+        taskId,
+        message: `[${info.identifier}] Model: ${model} (${reason}), profile: ${profile}`,
+      });
+    }
+  }
+
+  /**
+   * Record the prompt template versions a run was prompted with
+   */
+  taskPromptVersions(taskId: string, versions: PromptVersions) {
+    const info = this.runningTasks.get(taskId);
+    if (info?.runId) {
+      this.sessionStore.setRunPromptVersions(info.runId, versions);
+    }
+  }
+
   /**
    * Record task completion
    */
   taskCompleted(taskId: string, success: boolean, summary?: string) {
+    this.finishTask(taskId, success ? 'completed' : 'failed', summary);
+  }
+
+  /**
+   * Record task cancellation (not counted as a failure)
+   */
+  taskCancelled(taskId: string, reason: string) {
+    this.finishTask(taskId, 'cancelled', reason);
+  }
+
+  /**
+   * Move a running task to history with its outcome
+   */
+  private finishTask(taskId: string, outcome: TaskOutcome, summary?: string) {
     const info = this.runningTasks.get(taskId);
     if (info) {
       const duration = Date.now() - info.startedAt.getTime();
@@ -296,16 +502,24 @@ export class MonitorService {
         sessionId: info.sessionId,
         startedAt: info.startedAt,
         completedAt: new Date(),
-        success,
+        success: outcome === 'completed',
+        outcome,
       });
 
       // Persist completion to SQLite
-      this.sessionStore.completeTask(taskId, success);
+      this.sessionStore.completeTask(taskId, outcome);
+      if (info.runId) {
+        this.sessionStore.finishRun(
+          info.runId,
+          outcome,
+          outcome === 'completed' ? undefined : summary,
+        );
+      }
 
       this.gateway.broadcastTaskUpdate({
         taskId,
         identifier: info.identifier,
-        status: success ? 'completed' : 'failed',
+        status: outcome,
         progress: 100,
         duration,
         sessionId: info.sessionId,
@@ -313,11 +527,14 @@ export class MonitorService {
 
       this.gateway.broadcastLog({
         timestamp: new Date(),
-        level: success ? 'info' : 'error',
+        level: outcome === 'completed' ? 'info' : outcome === 'cancelled' ? 'warn' : 'error',
         taskId,
-        message: success
-          ? `🎉 [${info.identifier}] Task completed (duration: ${Math.round(duration / 1000)}s)`
-          : `❌ [${info.identifier}] Task failed: ${summary}`,
+        message:
+          outcome === 'completed'
+            ? `🎉 [${info.identifier}] Task completed (duration: ${Math.round(duration / 1000)}s)${summary ? ` - ${summary}` : ''}`
+            : outcome === 'cancelled'
+              ? `🛑 [${info.identifier}] Task cancelled: ${summary}`
+              : `❌ [${info.identifier}] Task failed: ${summary}`,
       });
 
       this.runningTasks.delete(taskId);
@@ -389,8 +606,8 @@ export class MonitorService {
    */
   async retryTask(taskId: string): Promise<{ success: boolean; message: string }> {
     try {
-      // Get task details from Linear with state
-      const taskDetails = await this.linearService.getIssueWithState(taskId);
+      // Get task details (with state) from its source
+      const taskDetails = await this.taskSources.getTask(taskId);
 
       if (!taskDetails) {
         throw new NotFoundException(`Task with ID ${taskId} not found`);
@@ -412,23 +629,13 @@ export class MonitorService {
         );
       }
 
-      // Update status to In Progress immediately
-      await this.linearService.updateStatus(taskId, TaskStatus.IN_PROGRESS);
-
-      // Add retry comment
-      await this.linearService.addComment(
-        taskId,
-        `🔄 **Manual task retry**\n\n` +
-        `Using previous execution context (Session ID: ${sessionId})\n` +
-        `System will review the previous failure and retry...`
-      );
-
-      // Add to Bull queue with 'retry' job type
+      // Add to Bull queue with 'retry' job type (one retry per failed session)
       const timeout = this.configService.get<number>('app.taskTimeout');
-      await this.taskQueue.add('retry', {
+      const added = await addUniqueJob(this.taskQueue, 'retry', {
         task: taskDetails,
         sessionId: sessionId,
       }, {
+        jobId: retryJobId(taskId, sessionId),
         attempts: 3,
         backoff: {
           type: 'exponential',
@@ -439,6 +646,24 @@ export class MonitorService {
         removeOnFail: false,
       });
 
+      if (!added) {
+        return {
+          success: true,
+          message: `Task ${taskDetails.identifier} is already queued for retry`,
+        };
+      }
+
+      // Update status to In Progress immediately
+      await this.taskSources.updateStatus(taskId, TaskStatus.IN_PROGRESS);
+
+      // Add retry comment
+      await this.taskSources.addComment(
+        taskId,
+        `🔄 **Manual task retry**\n\n` +
+        `Using previous execution context (Session ID: ${sessionId})\n` +
+        `System will review the previous failure and retry...`
+      );
+
       this.gateway.broadcastLog({
         timestamp: new Date(),
         level: 'info',
@@ -460,4 +685,66 @@ export class MonitorService {
       throw new BadRequestException(`Failed to retry task: ${error.message}`);
     }
   }
+
+  /**
+   * Cancel a running or queued task.
+   * The source status moves to Canceled, which also stops runs on other workers.
+   */
+  async cancelTask(
+    taskId: string,
+    reason = 'Cancelled from the dashboard',
+  ): Promise<{ success: boolean; message: string }> {
+    const taskDetails = await this.taskSources.getTask(taskId);
+    if (!taskDetails) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+
+    // Drop jobs that have not started yet
+    const jobs = await this.taskQueue.getJobs(['waiting', 'delayed']);
+    // getJobs returns null for jobs removed while it runs
+    const queuedJobs = jobs.filter((job) => job && (job.data.task?.id ?? job.data.id) === taskId);
+    await Promise.all(queuedJobs.map((job) => job.remove()));
+
+    const claim = await this.taskClaims.getClaim(taskId);
+    if (!queuedJobs.length && !claim && !this.claudeService.isRunning(taskId)) {
+      throw new BadRequestException(`Task ${taskDetails.identifier} is not running or queued`);
+    }
+
+    await this.taskSources.updateStatus(taskId, TaskStatus.CANCELED);
+
+    // Running here: abort now; the processor posts the cancellation comment
+    if (this.claudeService.cancel(taskId, reason)) {
+      return {
+        success: true,
+        message: `Task ${taskDetails.identifier} has been cancelled`,
+      };
+    }
+
+    if (claim) {
+      // Running on another worker: its status check picks up the Canceled state
+      return {
+        success: true,
+        message: `Cancellation of ${taskDetails.identifier} requested from worker ${claim.holder}`,
+      };
+    }
+
+    await this.taskSources.addComment(
+      taskId,
+      `🛑 Task cancelled before execution\n\n**Reason:** ${reason}`,
+    );
+
+    this.gateway.broadcastLog({
+      timestamp: new Date(),
+      level: 'warn',
+      taskId,
+      message: `🛑 [${taskDetails.identifier}] Removed from queue`,
+    });
+
+    await this.refreshStats();
+
+    return {
+      success: true,
+      message: `Task ${taskDetails.identifier} has been removed from the queue`,
+    };
+  }
 }
@@ -1,6 +1,11 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import Database from 'better-sqlite3';
 import * as path from 'path';
+import { ReviewDecision } from '../policy/policy.types';
+import { RunUsage, TaskPlanRecord, TaskPlanStatus } from '../queue/task.interface';
+import { PromptTemplateName, PromptTemplateVersion, PromptVersions } from '../claude/prompts/prompt-templates';
+
+export type TaskOutcome = 'completed' | 'failed' | 'cancelled';
 
 export interface TaskSession {
   linearTaskId: string;
@@ -10,8 +15,103 @@ export interface TaskSession {
   startedAt: string;
   completedAt?: string;
   success?: boolean;
+  outcome?: TaskOutcome;
+}
+
+/**
+ * Git worktree a task runs in (worktree mode 'per_task')
+ */
+export interface TaskWorktree {
+  linearTaskId: string;
+  identifier: string;
+  path: string;
+  branch: string;
+}
+
+/**
+ * Per-task settings set with comment commands (/model, /budget)
+ */
+export interface TaskOverrides {
+  model?: 'opus' | 'sonnet' | 'haiku';
+  maxCostUsd?: number;
+}
+
+export type RunKind = 'execute' | 'feedback' | 'retry';
+
+export type RunOutcome = 'running' | TaskOutcome;
+
+/**
+ * One agent run of a task. Feedback and retry runs point at the run whose
+ * session they resumed.
+ */
+export interface TaskRun {
+  id: number;
+  linearTaskId: string;
+  identifier: string;
+  runKind: RunKind;
+  parentRunId: number | null;
+  sessionId: string | null;
+  startedAt: string;
+  completedAt: string | null;
+  outcome: RunOutcome;
+  error: string | null;
+  model: string | null; // Model alias the run used (opus, sonnet, haiku)
+  modelReason: string | null; // Why that model was picked
+  profile: string | null; // Anthropic profile the run ended on (fallbacks)
+  promptVersions: PromptVersions | null; // Prompt template versions the run used
+  costUsd: number | null; // From run_usage, null if not recorded
+  totalTokens: number | null; // Input + output tokens
 }
 
+/**
+ * Usage of one agent run (execute, feedback or retry)
+ */
+export interface RunUsageRecord extends RunUsage {
+  linearTaskId: string;
+  identifier: string;
+  sessionId?: string;
+  runKind: RunKind;
+  runId?: number;
+  labels: string[];
+  success: boolean;
+  completedAt: string;
+}
+
+export interface UsageTotals {
+  runs: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+  numTurns: number;
+  durationMs: number;
+}
+
+export type UsageGroupBy = 'day' | 'label' | 'model' | 'task';
+
+export interface UsageGroup extends UsageTotals {
+  key: string;
+}
+
+// task_plans row, with sub-tasks and sub-issues as JSON
+interface TaskPlanRow extends Omit<TaskPlanRecord, 'subtasks' | 'subIssues'> {
+  subtasks: string;
+  subIssues: string;
+}
+
+// Shared SELECT list for usage aggregates
+const USAGE_TOTALS_SQL = `
+  COUNT(*) as runs,
+  COALESCE(SUM(input_tokens), 0) as inputTokens,
+  COALESCE(SUM(output_tokens), 0) as outputTokens,
+  COALESCE(SUM(cache_read_tokens), 0) as cacheReadTokens,
+  COALESCE(SUM(cache_creation_tokens), 0) as cacheCreationTokens,
+  COALESCE(SUM(total_cost_usd), 0) as costUsd,
+  COALESCE(SUM(num_turns), 0) as numTurns,
+  COALESCE(SUM(duration_ms), 0) as durationMs
+`;
+
 @Injectable()
 export class SessionStoreService implements OnModuleInit {
   private readonly logger = new Logger(SessionStoreService.name);
@@ -61,11 +161,109 @@ export class SessionStoreService implements OnModuleInit {
       );
 
       CREATE INDEX IF NOT EXISTS idx_processed_comments_task_id ON processed_comments(linear_task_id);
+
+      CREATE TABLE IF NOT EXISTS run_usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        linear_task_id TEXT NOT NULL,
+        identifier TEXT NOT NULL,
+        session_id TEXT,
+        run_kind TEXT NOT NULL,
+        model TEXT,
+        labels TEXT NOT NULL DEFAULT '[]',
+        success INTEGER NOT NULL,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_creation_tokens INTEGER NOT NULL DEFAULT 0,
+        total_cost_usd REAL NOT NULL DEFAULT 0,
+        num_turns INTEGER NOT NULL DEFAULT 0,
+        duration_ms INTEGER NOT NULL DEFAULT 0,
+        completed_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_run_usage_task_id ON run_usage(linear_task_id);
+      CREATE INDEX IF NOT EXISTS idx_run_usage_completed_at ON run_usage(completed_at);
+
+      CREATE TABLE IF NOT EXISTS task_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        linear_task_id TEXT NOT NULL,
+        identifier TEXT NOT NULL,
+        run_kind TEXT NOT NULL,
+        parent_run_id INTEGER,
+        session_id TEXT,
+        started_at TEXT NOT NULL,
+        completed_at TEXT,
+        outcome TEXT NOT NULL DEFAULT 'running',
+        error TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_task_runs_task_id ON task_runs(linear_task_id);
+
+      CREATE TABLE IF NOT EXISTS prompt_templates (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        body TEXT NOT NULL,
+        note TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(name, version)
+      );
+
+      CREATE TABLE IF NOT EXISTS task_plans (
+        task_id TEXT PRIMARY KEY,
+        identifier TEXT NOT NULL,
+        status TEXT NOT NULL,
+        summary TEXT NOT NULL,
+        subtasks TEXT NOT NULL,
+        sub_issues TEXT NOT NULL,
+        approved_by TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
     `);
 
+    // Review policy decision of the latest run
+    this.ensureColumn('task_sessions', 'review_action', 'TEXT');
+    this.ensureColumn('task_sessions', 'review_rule', 'TEXT');
+    this.ensureColumn('task_sessions', 'review_reason', 'TEXT');
+    this.ensureColumn('task_sessions', 'approvals_required', 'INTEGER');
+    this.ensureColumn('task_sessions', 'review_decided_at', 'TEXT');
+
+    // Outcome of the latest run (cancelled runs are not successful, but not failed either)
+    this.ensureColumn('task_sessions', 'outcome', 'TEXT');
+
+    // Git worktree of the task (kept until the task is Done or Canceled)
+    this.ensureColumn('task_sessions', 'worktree_path', 'TEXT');
+    this.ensureColumn('task_sessions', 'branch', 'TEXT');
+
+    // Per-task overrides from comment commands
+    this.ensureColumn('task_sessions', 'model_override', 'TEXT');
+    this.ensureColumn('task_sessions', 'max_cost_usd_override', 'REAL');
+
+    // Model of a run and why it was picked (model routing)
+    this.ensureColumn('task_runs', 'model', 'TEXT');
+    this.ensureColumn('task_runs', 'model_reason', 'TEXT');
+    this.ensureColumn('task_runs', 'profile', 'TEXT');
+
+    // Prompt template versions of a run (JSON object, name -> version)
+    this.ensureColumn('task_runs', 'prompt_versions', 'TEXT');
+
+    // Run of task_runs a usage record belongs to
+    this.ensureColumn('run_usage', 'run_id', 'INTEGER');
+
     this.logger.log('Database schema initialized');
   }
 
+  /**
+   * Add a column to an existing table (databases created by older versions)
+   */
+  private ensureColumn(table: string, column: string, definition: string) {
+    const columns = this.getDb().prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (!columns.some((c) => c.name === column)) {
+      this.getDb().exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
   /**
    * Save or update a task session
    */
@@ -111,16 +309,16 @@ export class SessionStoreService implements OnModuleInit {
   }
 
   /**
-   * Mark task as completed
+   * Mark task as completed, failed or cancelled
    */
-  completeTask(linearTaskId: string, success: boolean): void {
+  completeTask(linearTaskId: string, outcome: TaskOutcome): void {
     const stmt = this.getDb().prepare(`
       UPDATE task_sessions
-      SET completed_at = CURRENT_TIMESTAMP, success = ?, updated_at = CURRENT_TIMESTAMP
+      SET completed_at = CURRENT_TIMESTAMP, success = ?, outcome = ?, updated_at = CURRENT_TIMESTAMP
       WHERE linear_task_id = ?
     `);
 
-    stmt.run(success ? 1 : 0, linearTaskId);
+    stmt.run(outcome === 'completed' ? 1 : 0, outcome, linearTaskId);
   }
 
   /**
@@ -135,7 +333,8 @@ export class SessionStoreService implements OnModuleInit {
         title,
         started_at as startedAt,
         completed_at as completedAt,
-        success
+        success,
+        outcome
       FROM task_sessions
       WHERE linear_task_id = ?
     `);
@@ -146,9 +345,407 @@ export class SessionStoreService implements OnModuleInit {
     return {
       ...row,
       success: row.success !== null ? row.success === 1 : undefined,
+      outcome: row.outcome ?? undefined,
     };
   }
 
+  /**
+   * Save the review policy decision for a task
+   */
+  saveReviewDecision(
+    linearTaskId: string,
+    identifier: string,
+    title: string,
+    decision: ReviewDecision,
+  ): void {
+    const stmt = this.getDb().prepare(`
+      INSERT INTO task_sessions (linear_task_id, identifier, title, started_at, review_action, review_rule, review_reason, approvals_required, review_decided_at)
+      VALUES (@linearTaskId, @identifier, @title, @decidedAt, @action, @rule, @reason, @approvalsRequired, @decidedAt)
+      ON CONFLICT(linear_task_id) DO UPDATE SET
+        review_action = @action,
+        review_rule = @rule,
+        review_reason = @reason,
+        approvals_required = @approvalsRequired,
+        review_decided_at = @decidedAt,
+        updated_at = CURRENT_TIMESTAMP
+    `);
+
+    stmt.run({ linearTaskId, identifier, title, ...decision });
+  }
+
+  /**
+   * Get the review policy decision for a task
+   */
+  getReviewDecision(linearTaskId: string): ReviewDecision | null {
+    const stmt = this.getDb().prepare(`
+      SELECT
+        review_action as action,
+        review_rule as rule,
+        review_reason as reason,
+        approvals_required as approvalsRequired,
+        review_decided_at as decidedAt
+      FROM task_sessions
+      WHERE linear_task_id = ? AND review_action IS NOT NULL
+    `);
+
+    return (stmt.get(linearTaskId) as ReviewDecision | undefined) || null;
+  }
+
+  /**
+   * Save the git worktree and branch a task runs in
+   */
+  saveWorktree(linearTaskId: string, identifier: string, title: string, worktreePath: string, branch: string): void {
+    const stmt = this.getDb().prepare(`
+      INSERT INTO task_sessions (linear_task_id, identifier, title, started_at, worktree_path, branch)
+      VALUES (@linearTaskId, @identifier, @title, @startedAt, @worktreePath, @branch)
+      ON CONFLICT(linear_task_id) DO UPDATE SET
+        worktree_path = @worktreePath,
+        branch = @branch,
+        updated_at = CURRENT_TIMESTAMP
+    `);
+
+    stmt.run({
+      linearTaskId,
+      identifier,
+      title,
+      startedAt: new Date().toISOString(),
+      worktreePath,
+      branch,
+    });
+  }
+
+  /**
+   * Get the git worktree of a task
+   */
+  getWorktree(linearTaskId: string): TaskWorktree | null {
+    const stmt = this.getDb().prepare(`
+      SELECT linear_task_id as linearTaskId, identifier, worktree_path as path, branch
+      FROM task_sessions
+      WHERE linear_task_id = ? AND worktree_path IS NOT NULL
+    `);
+
+    return (stmt.get(linearTaskId) as TaskWorktree | undefined) || null;
+  }
+
+  /**
+   * List all tasks that still have a git worktree
+   */
+  getWorktrees(): TaskWorktree[] {
+    const stmt = this.getDb().prepare(`
+      SELECT linear_task_id as linearTaskId, identifier, worktree_path as path, branch
+      FROM task_sessions
+      WHERE worktree_path IS NOT NULL
+    `);
+
+    return stmt.all() as TaskWorktree[];
+  }
+
+  /**
+   * Forget a removed worktree (the branch name is kept for reference)
+   */
+  clearWorktree(linearTaskId: string): void {
+    const stmt = this.getDb().prepare(`
+      UPDATE task_sessions
+      SET worktree_path = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE linear_task_id = ?
+    `);
+
+    stmt.run(linearTaskId);
+  }
+
+  /**
+   * Save a task's overrides (unset fields clear the override)
+   */
+  saveOverrides(linearTaskId: string, identifier: string, title: string, overrides: TaskOverrides): void {
+    const stmt = this.getDb().prepare(`
+      INSERT INTO task_sessions (linear_task_id, identifier, title, started_at, model_override, max_cost_usd_override)
+      VALUES (@linearTaskId, @identifier, @title, @startedAt, @model, @maxCostUsd)
+      ON CONFLICT(linear_task_id) DO UPDATE SET
+        model_override = @model,
+        max_cost_usd_override = @maxCostUsd,
+        updated_at = CURRENT_TIMESTAMP
+    `);
+
+    stmt.run({
+      linearTaskId,
+      identifier,
+      title,
+      startedAt: new Date().toISOString(),
+      model: overrides.model ?? null,
+      maxCostUsd: overrides.maxCostUsd ?? null,
+    });
+  }
+
+  /**
+   * Get a task's overrides (empty if none were set)
+   */
+  getOverrides(linearTaskId: string): TaskOverrides {
+    const stmt = this.getDb().prepare(`
+      SELECT model_override as model, max_cost_usd_override as maxCostUsd
+      FROM task_sessions
+      WHERE linear_task_id = ?
+    `);
+
+    const row = stmt.get(linearTaskId) as
+      | { model: TaskOverrides['model'] | null; maxCostUsd: number | null }
+      | undefined;
+    return {
+      model: row?.model ?? undefined,
+      maxCostUsd: row?.maxCostUsd ?? undefined,
+    };
+  }
+
+  /**
+   * Record the usage of a finished run
+   */
+  saveRunUsage(record: RunUsageRecord): void {
+    const stmt = this.getDb().prepare(`
+      INSERT INTO run_usage (
+        linear_task_id, identifier, session_id, run_kind, run_id, model, labels, success,
+        input_tokens, output_tokens, cache_read_tokens, cache_creation_tokens,
+        total_cost_usd, num_turns, duration_ms, completed_at
+      ) VALUES (
+        @linearTaskId, @identifier, @sessionId, @runKind, @runId, @model, @labels, @success,
+        @inputTokens, @outputTokens, @cacheReadTokens, @cacheCreationTokens,
+        @costUsd, @numTurns, @durationMs, @completedAt
+      )
+    `);
+
+    stmt.run({
+      ...record,
+      sessionId: record.sessionId || null,
+      runId: record.runId ?? null,
+      labels: JSON.stringify(record.labels),
+      success: record.success ? 1 : 0,
+    });
+
+    this.logger.debug(
+      `Recorded ${record.runKind} usage for ${record.identifier}: $${record.costUsd.toFixed(4)}`,
+    );
+  }
+
+  /**
+   * Record the start of a run; returns its ID
+   */
+  startRun(run: {
+    linearTaskId: string;
+    identifier: string;
+    runKind: RunKind;
+    parentRunId: number | null;
+    startedAt: string;
+  }): number {
+    const stmt = this.getDb().prepare(`
+      INSERT INTO task_runs (linear_task_id, identifier, run_kind, parent_run_id, started_at)
+      VALUES (@linearTaskId, @identifier, @runKind, @parentRunId, @startedAt)
+    `);
+
+    return Number(stmt.run(run).lastInsertRowid);
+  }
+
+  /**
+   * Set the Claude session ID of a run
+   */
+  setRunSessionId(runId: number, sessionId: string): void {
+    this.getDb()
+      .prepare(`UPDATE task_runs SET session_id = ? WHERE id = ?`)
+      .run(sessionId, runId);
+  }
+
+  /**
+   * Record the model and profile of a run and why the model was picked
+   */
+  setRunModel(runId: number, model: string, reason: string, profile: string): void {
+    this.getDb()
+      .prepare(`UPDATE task_runs SET model = ?, model_reason = ?, profile = ? WHERE id = ?`)
+      .run(model, reason, profile, runId);
+  }
+
+  /**
+   * Record the prompt template versions a run used. Follow-up turns of the
+   * run add theirs to the ones already recorded.
+   */
+  setRunPromptVersions(runId: number, versions: PromptVersions): void {
+    const db = this.getDb();
+    const row = db.prepare(`SELECT prompt_versions FROM task_runs WHERE id = ?`).get(runId) as
+      | { prompt_versions: string | null }
+      | undefined;
+    const merged = { ...(row?.prompt_versions ? JSON.parse(row.prompt_versions) : {}), ...versions };
+
+    db.prepare(`UPDATE task_runs SET prompt_versions = ? WHERE id = ?`).run(JSON.stringify(merged), runId);
+  }
+
+  /**
+   * Model of the task's latest run that recorded one (escalation starts from it)
+   */
+  getLatestRunModel(linearTaskId: string): { model: string; reason: string } | null {
+    const row = this.getDb()
+      .prepare(`
+        SELECT model, model_reason as reason FROM task_runs
+        WHERE linear_task_id = ? AND model IS NOT NULL
+        ORDER BY id DESC
+        LIMIT 1
+      `)
+      .get(linearTaskId) as { model: string; reason: string } | undefined;
+
+    return row ?? null;
+  }
+
+  /**
+   * Record how a run ended
+   */
+  finishRun(runId: number, outcome: TaskOutcome, error?: string): void {
+    this.getDb()
+      .prepare(`
+        UPDATE task_runs
+        SET completed_at = ?, outcome = ?, error = ?
+        WHERE id = ?
+      `)
+      .run(new Date().toISOString(), outcome, error ?? null, runId);
+  }
+
+  /**
+   * Latest run of a task that has a session (the one a feedback or retry run resumes)
+   */
+  getLatestSessionRunId(linearTaskId: string): number | null {
+    const row = this.getDb()
+      .prepare(`
+        SELECT id FROM task_runs
+        WHERE linear_task_id = ? AND session_id IS NOT NULL
+        ORDER BY id DESC
+        LIMIT 1
+      `)
+      .get(linearTaskId) as { id: number } | undefined;
+
+    return row?.id ?? null;
+  }
+
+  /**
+   * All runs of a task, oldest first, with their cost and tokens
+   */
+  getRuns(linearTaskId: string): TaskRun[] {
+    const stmt = this.getDb().prepare(`
+      SELECT
+        r.id,
+        r.linear_task_id as linearTaskId,
+        r.identifier,
+        r.run_kind as runKind,
+        r.parent_run_id as parentRunId,
+        r.session_id as sessionId,
+        r.started_at as startedAt,
+        r.completed_at as completedAt,
+        r.outcome,
+        r.error,
+        r.model,
+        r.model_reason as modelReason,
+        r.profile,
+        r.prompt_versions as promptVersions,
+        u.costUsd,
+        u.totalTokens
+      FROM task_runs r
+      LEFT JOIN (
+        -- A run can have several usage records (follow-up turns)
+        SELECT
+          run_id,
+          SUM(total_cost_usd) as costUsd,
+          SUM(input_tokens + output_tokens) as totalTokens
+        FROM run_usage
+        GROUP BY run_id
+      ) u ON u.run_id = r.id
+      WHERE r.linear_task_id = ?
+      ORDER BY r.id ASC
+    `);
+
+    const rows = stmt.all(linearTaskId) as any[];
+    return rows.map((row) => ({
+      ...row,
+      promptVersions: row.promptVersions ? JSON.parse(row.promptVersions) : null,
+    }));
+  }
+
+  /**
+   * Get usage totals per task (all runs summed)
+   */
+  getUsageTotalsByTask(linearTaskIds: string[]): Map<string, UsageTotals> {
+    const totals = new Map<string, UsageTotals>();
+    if (linearTaskIds.length === 0) return totals;
+
+    const stmt = this.getDb().prepare(`
+      SELECT linear_task_id as linearTaskId, ${USAGE_TOTALS_SQL}
+      FROM run_usage
+      WHERE linear_task_id IN (${linearTaskIds.map(() => '?').join(', ')})
+      GROUP BY linear_task_id
+    `);
+
+    for (const row of stmt.all(...linearTaskIds) as (UsageTotals & { linearTaskId: string })[]) {
+      const { linearTaskId, ...usage } = row;
+      totals.set(linearTaskId, usage);
+    }
+    return totals;
+  }
+
+  /**
+   * List individual runs, newest first
+   */
+  getRunUsage(from?: string, to?: string, limit = 5000): (RunUsageRecord & { id: number })[] {
+    const stmt = this.getDb().prepare(`
+      SELECT
+        id,
+        linear_task_id as linearTaskId,
+        identifier,
+        session_id as sessionId,
+        run_kind as runKind,
+        model,
+        labels,
+        success,
+        input_tokens as inputTokens,
+        output_tokens as outputTokens,
+        cache_read_tokens as cacheReadTokens,
+        cache_creation_tokens as cacheCreationTokens,
+        total_cost_usd as costUsd,
+        num_turns as numTurns,
+        duration_ms as durationMs,
+        completed_at as completedAt
+      FROM run_usage
+      WHERE (@from IS NULL OR completed_at >= @from)
+        AND (@to IS NULL OR completed_at < @to)
+      ORDER BY completed_at DESC
+      LIMIT @limit
+    `);
+
+    const rows = stmt.all({ from: from || null, to: to || null, limit }) as any[];
+    return rows.map((row) => ({
+      ...row,
+      labels: JSON.parse(row.labels),
+      success: row.success === 1,
+    }));
+  }
+
+  /**
+   * Aggregate run usage by UTC day, task label, model or task.
+   * Runs of unlabeled tasks are grouped under "(unlabeled)".
+   */
+  getUsageAggregate(groupBy: UsageGroupBy, from?: string, to?: string): UsageGroup[] {
+    const keyExpr = {
+      day: 'substr(completed_at, 1, 10)',
+      label: `COALESCE(label.value, '(unlabeled)')`,
+      model: `COALESCE(model, 'unknown')`,
+      task: 'identifier',
+    }[groupBy];
+    const join =
+      groupBy === 'label' ? 'LEFT JOIN json_each(run_usage.labels) AS label' : '';
+
+    const stmt = this.getDb().prepare(`
+      SELECT ${keyExpr} as key, ${USAGE_TOTALS_SQL}
+      FROM run_usage ${join}
+      WHERE (@from IS NULL OR completed_at >= @from)
+        AND (@to IS NULL OR completed_at < @to)
+      GROUP BY key
+      ORDER BY ${groupBy === 'day' ? 'key ASC' : 'costUsd DESC'}
+    `);
+
+    return stmt.all({ from: from || null, to: to || null }) as UsageGroup[];
+  }
+
   /**
    * Get all sessions (for debugging/admin)
    */
@@ -161,7 +758,8 @@ export class SessionStoreService implements OnModuleInit {
         title,
         started_at as startedAt,
         completed_at as completedAt,
-        success
+        success,
+        outcome
       FROM task_sessions
       ORDER BY updated_at DESC
       LIMIT ?
@@ -171,6 +769,7 @@ export class SessionStoreService implements OnModuleInit {
     return rows.map(row => ({
       ...row,
       success: row.success !== null ? row.success === 1 : undefined,
+      outcome: row.outcome ?? undefined,
     }));
   }
 
@@ -233,4 +832,107 @@ export class SessionStoreService implements OnModuleInit {
 
     return new Date(row.lastProcessed);
   }
+
+  /**
+   * Saved versions of a prompt template, newest first
+   */
+  getPromptTemplateVersions(name: PromptTemplateName, limit?: number): PromptTemplateVersion[] {
+    const stmt = this.getDb().prepare(`
+      SELECT name, version, body, note, created_at as createdAt
+      FROM prompt_templates
+      WHERE name = ?
+      ORDER BY version DESC
+      ${limit ? 'LIMIT ?' : ''}
+    `);
+
+    return (limit ? stmt.all(name, limit) : stmt.all(name)) as PromptTemplateVersion[];
+  }
+
+  /**
+   * Save a new version of a prompt template and return its number
+   */
+  savePromptTemplate(name: PromptTemplateName, body: string, note: string | null): number {
+    const db = this.getDb();
+    const save = db.transaction(() => {
+      const { version } = db
+        .prepare(`SELECT COALESCE(MAX(version), 0) + 1 as version FROM prompt_templates WHERE name = ?`)
+        .get(name) as { version: number };
+
+      db.prepare(`INSERT INTO prompt_templates (name, version, body, note) VALUES (?, ?, ?, ?)`).run(
+        name,
+        version,
+        body,
+        note,
+      );
+      return version;
+    });
+
+    return save();
+  }
+
+  /**
+   * A task's plan, or null if it was not planned
+   */
+  getTaskPlan(taskId: string): TaskPlanRecord | null {
+    const row = this.getDb()
+      .prepare(`
+        SELECT
+          task_id as taskId,
+          identifier,
+          status,
+          summary,
+          subtasks,
+          sub_issues as subIssues,
+          approved_by as approvedBy,
+          created_at as createdAt,
+          updated_at as updatedAt
+        FROM task_plans
+        WHERE task_id = ?
+      `)
+      .get(taskId) as TaskPlanRow | undefined;
+
+    return row
+      ? { ...row, subtasks: JSON.parse(row.subtasks), subIssues: JSON.parse(row.subIssues) }
+      : null;
+  }
+
+  /**
+   * Save a task's plan, replacing an earlier one (and its approval)
+   */
+  saveTaskPlan(plan: Omit<TaskPlanRecord, 'approvedBy' | 'createdAt' | 'updatedAt'>): void {
+    this.getDb()
+      .prepare(`
+        INSERT INTO task_plans (task_id, identifier, status, summary, subtasks, sub_issues)
+        VALUES (@taskId, @identifier, @status, @summary, @subtasks, @subIssues)
+        ON CONFLICT(task_id) DO UPDATE SET
+          status = @status,
+          summary = @summary,
+          subtasks = @subtasks,
+          sub_issues = @subIssues,
+          approved_by = NULL,
+          updated_at = CURRENT_TIMESTAMP
+      `)
+      .run({
+        ...plan,
+        subtasks: JSON.stringify(plan.subtasks),
+        subIssues: JSON.stringify(plan.subIssues),
+      });
+  }
+
+  /**
+   * Move a task's plan on (approved: who approved it)
+   */
+  setTaskPlanStatus(taskId: string, status: TaskPlanStatus, approvedBy?: string): void {
+    this.getDb()
+      .prepare(`
+        UPDATE task_plans
+        SET status = ?, approved_by = COALESCE(?, approved_by), updated_at = CURRENT_TIMESTAMP
+        WHERE task_id = ?
+      `)
+      .run(status, approvedBy ?? null, taskId);
+  }
+
+  deleteTaskPlan(taskId: string): void {
+    this.getDb().prepare(`DELETE FROM task_plans WHERE task_id = ?`).run(taskId);
+  }
 }
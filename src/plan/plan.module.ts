@@ -0,0 +1,9 @@
+import { Module, Global } from '@nestjs/common';
+import { TaskPlanService } from './task-plan.service';
+
+@Global()
+@Module({
+  providers: [TaskPlanService],
+  exports: [TaskPlanService],
+})
+export class PlanModule {}
@@ -0,0 +1,236 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { LinearIssueRef, LinearTask, TaskStatus } from '../linear/linear.types';
+import { TaskSourceService } from '../task-source/task-source.service';
+import { SettingsProviderService } from '../settings/settings-provider.service';
+import { TaskContextService } from '../claude/task-context.service';
+import { SessionStoreService } from '../monitor/session-store.service';
+import { TaskPlan, TaskPlanRecord, TaskPlanStatus } from '../queue/task.interface';
+
+// Label of the sub-issues created from a plan
+export const AGENT_GENERATED_LABEL = 'agent-generated';
+
+/**
+ * Plan First: tasks with the Plan First label are broken down by the agent
+ * before anything is implemented. Each sub-task becomes a sub-issue; once a
+ * human approves the plan the sub-issues are queued, and the task is closed
+ * with a roll-up summary when they are finished (the task waits on its
+ * sub-issues like any parent).
+ */
+@Injectable()
+export class TaskPlanService {
+  private readonly logger = new Logger(TaskPlanService.name);
+
+  constructor(
+    private taskSources: TaskSourceService,
+    private settingsProvider: SettingsProviderService,
+    private taskContext: TaskContextService,
+    private sessionStore: SessionStoreService,
+  ) {}
+
+  /**
+   * The task's plan, or null if it was not planned
+   */
+  get(taskId: string): TaskPlanRecord | null {
+    return this.sessionStore.getTaskPlan(taskId);
+  }
+
+  isAwaitingApproval(taskId: string): boolean {
+    return this.get(taskId)?.status === 'awaiting_approval';
+  }
+
+  isApproved(taskId: string): boolean {
+    return this.get(taskId)?.status === 'approved';
+  }
+
+  /**
+   * Whether a run of the task should plan instead of execute: it has the
+   * Plan First label, was not planned yet, and its source has sub-issues
+   */
+  async shouldPlan(task: LinearTask): Promise<boolean> {
+    if (this.get(task.id) || !this.taskSources.canCreateSubIssues(task.id)) {
+      return false;
+    }
+
+    // Queued tasks may lack labels
+    const labels = task.labels ?? (await this.taskSources.getTask(task.id))?.labels ?? [];
+    const planFirst = this.settingsProvider.getPlanFirstLabel().toLowerCase();
+    return labels.some((label) => label.name.toLowerCase() === planFirst);
+  }
+
+  /**
+   * Turn a plan into sub-issues in Backlog and put it up for approval
+   * (In Review). A plan without sub-tasks sends the task back to Todo to
+   * run as a whole. Replaces a plan still awaiting approval.
+   * @returns a description of the outcome
+   */
+  async propose(task: LinearTask, plan: TaskPlan): Promise<string> {
+    await this.discardPending(task);
+
+    if (plan.subtasks.length === 0) {
+      this.save(task, 'skipped', plan, []);
+      await this.taskSources.updateStatus(task.id, TaskStatus.TODO);
+      await this.taskSources.addComment(
+        task.id,
+        `📋 No breakdown needed, ${task.identifier} runs as one task\n\n**Plan:**\n${plan.summary}`,
+      );
+      this.logger.log(`${task.identifier} needs no breakdown, running it as a whole`);
+      return 'Planned as a single task';
+    }
+
+    const subIssues = await this.taskSources.createSubIssues(
+      task.id,
+      plan.subtasks.map((subtask) => ({
+        title: subtask.title,
+        description: subtask.description,
+        blockedBy: subtask.dependsOn.map((n) => n - 1),
+      })),
+      AGENT_GENERATED_LABEL,
+    );
+    if (!subIssues?.length) {
+      throw new Error('No sub-issues could be created from the plan');
+    }
+
+    this.save(task, 'awaiting_approval', plan, subIssues);
+    await this.taskSources.updateStatus(task.id, TaskStatus.IN_REVIEW);
+
+    const missing = plan.subtasks.length - subIssues.length;
+    await this.taskSources.addComment(
+      task.id,
+      `📋 **Plan awaiting approval**\n\n${plan.summary}\n\n` +
+        `**Sub-issues** (in Backlog, labelled "${AGENT_GENERATED_LABEL}"):\n` +
+        subIssues.map((issue, i) => `${i + 1}. ${issue.identifier} ${issue.title}`).join('\n') +
+        (missing > 0 ? `\n\n⚠️ ${missing} sub-task(s) could not be created, see the logs` : '') +
+        `\n\nPlease check the plan, then:\n` +
+        `- ✅ Approve → Reply "LGTM" or \`/approve\` to queue the sub-issues\n` +
+        `- ✏️ Adjust → Edit, add or cancel sub-issues before approving\n` +
+        `- 🔄 Re-plan → Reply with feedback\n` +
+        `- ❌ Cancel → Change status to "Canceled"`,
+    );
+
+    this.logger.log(`${task.identifier} planned into ${subIssues.length} sub-issue(s), awaiting approval`);
+    return `Plan of ${subIssues.length} sub-issue(s) awaiting approval`;
+  }
+
+  /**
+   * Approve the task's plan: its sub-issues still in Backlog move to Todo
+   * and the task waits in Todo until they are finished
+   */
+  async approve(task: LinearTask, approvedBy: string): Promise<{ success: boolean; message: string }> {
+    const plan = this.get(task.id);
+    if (plan?.status !== 'awaiting_approval') {
+      throw new BadRequestException(`${task.identifier} has no plan awaiting approval`);
+    }
+
+    const queued = (await this.getSubIssues(plan)).filter((issue) => issue.state === TaskStatus.BACKLOG);
+    for (const issue of queued) {
+      await this.taskSources.updateStatus(issue.id, TaskStatus.TODO);
+    }
+
+    this.sessionStore.setTaskPlanStatus(task.id, 'approved', approvedBy);
+    await this.taskSources.updateStatus(task.id, TaskStatus.TODO);
+    await this.taskSources.addComment(
+      task.id,
+      `✅ Plan approved by ${approvedBy}, ${queued.length} sub-issue(s) queued` +
+        (queued.length ? `: ${queued.map((issue) => issue.identifier).join(', ')}` : '') +
+        `\n\n${task.identifier} is closed with a roll-up summary once its sub-issues are Done or Canceled.`,
+    );
+
+    this.logger.log(`Plan of ${task.identifier} approved by ${approvedBy}, ${queued.length} sub-issue(s) queued`);
+    return {
+      success: true,
+      message: `Plan of ${task.identifier} approved, ${queued.length} sub-issue(s) queued`,
+    };
+  }
+
+  /**
+   * Close a task whose approved plan is carried out: a roll-up of its
+   * sub-issues' summaries is posted and the task moves to Done
+   */
+  async rollUp(task: LinearTask): Promise<void> {
+    const plan = this.get(task.id);
+    if (plan?.status !== 'approved') {
+      return;
+    }
+
+    const subIssues = await this.getSubIssues(plan, true);
+    const sections = await Promise.all(
+      subIssues.map(
+        async (issue) =>
+          `**${issue.identifier} ${issue.title}** (${issue.state || 'unknown'}):\n` +
+          ((await this.taskContext.getSummary(issue)) || 'No summary posted'),
+      ),
+    );
+    const done = subIssues.filter((issue) => issue.state === TaskStatus.DONE).length;
+
+    this.sessionStore.setTaskPlanStatus(task.id, 'completed');
+    await this.taskSources.updateStatus(task.id, TaskStatus.DONE);
+    // Posted as an execution summary, so a parent of this task can roll it up in turn
+    await this.taskSources.addComment(
+      task.id,
+      `🎉 Sub-issues finished, task completed (${done}/${subIssues.length} done)\n\n` +
+        `**Execution Summary:**\n${plan.summary}\n\n${sections.join('\n\n')}`,
+    );
+    this.logger.log(`${task.identifier} closed after its ${subIssues.length} sub-issue(s)`);
+  }
+
+  /**
+   * Forget the task's plan so the next run plans again (/rerun-from-scratch).
+   * Sub-issues of a plan awaiting approval are canceled; an approved plan
+   * is in progress and kept.
+   */
+  async reset(task: LinearTask): Promise<void> {
+    if (this.isApproved(task.id)) {
+      return;
+    }
+    await this.discardPending(task);
+    this.sessionStore.deleteTaskPlan(task.id);
+  }
+
+  /**
+   * Cancel the sub-issues of a plan awaiting approval that nobody started
+   */
+  private async discardPending(task: LinearTask): Promise<void> {
+    const plan = this.get(task.id);
+    if (plan?.status !== 'awaiting_approval') {
+      return;
+    }
+
+    const unstarted = (await this.getSubIssues(plan)).filter((issue) => issue.state === TaskStatus.BACKLOG);
+    for (const issue of unstarted) {
+      await this.taskSources.updateStatus(issue.id, TaskStatus.CANCELED);
+    }
+    if (unstarted.length > 0) {
+      this.logger.log(`Canceled ${unstarted.length} sub-issue(s) of the previous plan of ${task.identifier}`);
+    }
+  }
+
+  /**
+   * The plan's sub-issues with their current states
+   * @param all - include sub-issues added by humans
+   */
+  private async getSubIssues(plan: TaskPlanRecord, all = false): Promise<LinearIssueRef[]> {
+    let children: LinearIssueRef[] | null = null;
+    try {
+      children = (await this.taskSources.getTaskDependencies(plan.taskId))?.children ?? null;
+    } catch (error) {
+      this.logger.warn(`Could not load sub-issues of ${plan.identifier}: ${error.message}`);
+    }
+    if (!children) {
+      return plan.subIssues;
+    }
+
+    const planned = new Set(plan.subIssues.map((issue) => issue.id));
+    return all ? children : children.filter((issue) => planned.has(issue.id));
+  }
+
+  private save(task: LinearTask, status: TaskPlanStatus, plan: TaskPlan, subIssues: LinearIssueRef[]): void {
+    this.sessionStore.saveTaskPlan({
+      taskId: task.id,
+      identifier: task.identifier,
+      status,
+      summary: plan.summary,
+      subtasks: plan.subtasks,
+      subIssues,
+    });
+  }
+}
@@ -0,0 +1,61 @@
+import { checkBudget, getRemainingBudget } from './budget-check';
+import { RunUsage } from '../queue/task.interface';
+
+describe('checkBudget', () => {
+  const usage = { turns: 10, toolCallCount: 20, inputTokens: 600, outputTokens: 400 };
+
+  it('allows a run to use exactly its caps', () => {
+    expect(checkBudget(usage, { maxTurns: 10, maxToolCalls: 20, maxTokens: 1000 })).toBeNull();
+  });
+
+  it('stops a run that goes over a cap', () => {
+    expect(checkBudget({ ...usage, turns: 11 }, { maxTurns: 10 })).toBe('Turn cap of 10 reached');
+    expect(checkBudget({ ...usage, toolCallCount: 21 }, { maxToolCalls: 20 })).toBe('Tool call cap of 20 reached');
+    expect(checkBudget({ ...usage, outputTokens: 401 }, { maxTokens: 1000 })).toBe(
+      'Token cap of 1000 reached (1001 used)',
+    );
+  });
+
+  it('ignores caps that are not set', () => {
+    expect(checkBudget(usage, {})).toBeNull();
+    expect(checkBudget(usage, { maxTurns: 0 })).toBeNull();
+  });
+});
+
+describe('getRemainingBudget', () => {
+  const spent: RunUsage = {
+    model: 'sonnet',
+    inputTokens: 300,
+    outputTokens: 200,
+    cacheReadTokens: 5000,
+    cacheCreationTokens: 0,
+    costUsd: 0.5,
+    numTurns: 4,
+    durationMs: 120000,
+  };
+
+  it('subtracts what earlier attempts used', () => {
+    expect(
+      getRemainingBudget(
+        { maxCostUsd: 2, maxTokens: 1000, maxTurns: 10, maxToolCalls: 20, maxDurationMinutes: 30 },
+        spent,
+        5,
+      ),
+    ).toEqual({ maxCostUsd: 1.5, maxTokens: 500, maxTurns: 6, maxToolCalls: 15, maxDurationMinutes: 28 });
+  });
+
+  it('keeps caps that are not set unset', () => {
+    expect(getRemainingBudget({ maxTurns: 10 }, spent, 5)).toEqual({
+      maxCostUsd: undefined,
+      maxTokens: undefined,
+      maxTurns: 6,
+      maxToolCalls: undefined,
+      maxDurationMinutes: undefined,
+    });
+  });
+
+  it('returns null once a cap is used up', () => {
+    expect(getRemainingBudget({ maxTurns: 4 }, spent, 5)).toBeNull();
+    expect(getRemainingBudget({ maxToolCalls: 3 }, spent, 5)).toBeNull();
+  });
+});
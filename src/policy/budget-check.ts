@@ -0,0 +1,51 @@
+import { RunUsage } from '../queue/task.interface';
+import { TaskBudget } from './policy.types';
+
+/**
+ * Live counters of a run that the caps are checked against
+ */
+export interface BudgetUsage {
+  turns: number;
+  toolCallCount: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Check a run against its caps. Caps are inclusive: a run may use up to the
+ * cap and is stopped once it goes over. Returns which cap was exceeded, or null.
+ */
+export function checkBudget(usage: BudgetUsage, budget: TaskBudget): string | null {
+  if (budget.maxTurns && usage.turns > budget.maxTurns) {
+    return `Turn cap of ${budget.maxTurns} reached`;
+  }
+  if (budget.maxToolCalls && usage.toolCallCount > budget.maxToolCalls) {
+    return `Tool call cap of ${budget.maxToolCalls} reached`;
+  }
+  const tokens = usage.inputTokens + usage.outputTokens;
+  if (budget.maxTokens && tokens > budget.maxTokens) {
+    return `Token cap of ${budget.maxTokens} reached (${tokens} used)`;
+  }
+  return null;
+}
+
+/**
+ * Caps left for another attempt at the same run (a fallback after an
+ * unavailable endpoint) once `spent` was used. Null if any cap is used up.
+ */
+export function getRemainingBudget(
+  budget: TaskBudget,
+  spent: RunUsage,
+  toolCallCount: number,
+): TaskBudget | null {
+  const left = (cap: number | undefined, used: number) => (cap ? cap - used : undefined);
+  const remaining: TaskBudget = {
+    maxCostUsd: left(budget.maxCostUsd, spent.costUsd),
+    maxTokens: left(budget.maxTokens, spent.inputTokens + spent.outputTokens),
+    maxTurns: left(budget.maxTurns, spent.numTurns),
+    maxToolCalls: left(budget.maxToolCalls, toolCallCount),
+    maxDurationMinutes: left(budget.maxDurationMinutes, spent.durationMs / 60000),
+  };
+  const usedUp = Object.values(remaining).some((cap) => cap !== undefined && cap <= 0);
+  return usedUp ? null : remaining;
+}
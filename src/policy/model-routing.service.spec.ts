@@ -0,0 +1,117 @@
+import { ModelRoutingService, getFrontMatterModel } from './model-routing.service';
+import { LinearTask } from '../linear/linear.types';
+import { SettingsProviderService } from '../settings/settings-provider.service';
+import { SettingsService } from '../settings/settings.service';
+import { RepoConfigService } from '../workspace/repo-config.service';
+
+describe('getFrontMatterModel', () => {
+  it('reads the model from the front-matter of the description', () => {
+    expect(getFrontMatterModel('---\nmodel: Opus\n---\nFix the login redirect')).toBe('opus');
+    expect(getFrontMatterModel("---\npriority: high\nmodel: 'haiku'\n---")).toBe('haiku');
+  });
+
+  it('ignores unknown models and models outside the front-matter', () => {
+    expect(getFrontMatterModel('---\nmodel: gpt\n---')).toBeNull();
+    expect(getFrontMatterModel('Fix it\n---\nmodel: opus\n---')).toBeNull();
+    expect(getFrontMatterModel(undefined)).toBeNull();
+  });
+});
+
+describe('ModelRoutingService', () => {
+  const task: LinearTask = {
+    id: 'issue-1',
+    identifier: 'ENG-1',
+    title: 'Fix login redirect',
+    createdAt: new Date('2024-01-01'),
+    labels: [{ id: 'label-1', name: 'Bug' }],
+  };
+
+  let routing: string | undefined;
+  let repoModel: string | undefined;
+  let service: ModelRoutingService;
+
+  beforeEach(() => {
+    routing = undefined;
+    repoModel = undefined;
+    const settingsProvider = {
+      getModelRouting: () => routing,
+      getModel: () => 'sonnet',
+    } as unknown as SettingsProviderService;
+    const settingsService = { getProfileByName: () => undefined } as unknown as SettingsService;
+    const repoConfig = { forTask: () => ({ instructions: [], model: repoModel }) } as unknown as RepoConfigService;
+    service = new ModelRoutingService(settingsProvider, settingsService, repoConfig);
+  });
+
+  describe('parseRouting', () => {
+    it('names unnamed rules', () => {
+      expect(service.parseRouting({ rules: [{ model: 'opus' }], escalate: ['retry'] })).toEqual({
+        rules: [{ name: 'Rule 1', match: {}, model: 'opus', profile: undefined }],
+        escalate: ['retry'],
+      });
+    });
+
+    it('rejects invalid documents', () => {
+      expect(() => service.parseRouting({ rules: {} })).toThrow('"rules" must be an array');
+      expect(() => service.parseRouting({ rules: [{ match: {} }] })).toThrow('Rule 1 must set a model or a profile');
+      expect(() => service.parseRouting({ rules: [{ model: 'gpt' }] })).toThrow('Rule 1 has an invalid model "gpt"');
+      expect(() => service.parseRouting({ escalate: ['execute'] })).toThrow('"escalate" must list run kinds');
+    });
+
+    it('routes nothing when the setting is invalid', () => {
+      routing = '{"rules": [{"model": "gpt"}]}';
+      expect(service.getRouting()).toEqual({ rules: [], escalate: [] });
+    });
+  });
+
+  describe('resolve', () => {
+    beforeEach(() => {
+      routing = JSON.stringify({
+        rules: [
+          { name: 'Bugs', match: { labels: ['bug'] }, model: 'haiku' },
+          { name: 'Research', match: { labels: ['research'] }, model: 'opus' },
+        ],
+        escalate: ['retry'],
+      });
+    });
+
+    it('uses the first matching rule', () => {
+      expect(service.resolve(task, 'execute')).toMatchObject({ model: 'haiku', reason: 'Rule "Bugs": label Bug' });
+    });
+
+    it('prefers the front-matter of the description to the rules', () => {
+      const choice = service.resolve({ ...task, description: '---\nmodel: opus\n---' }, 'execute');
+      expect(choice).toMatchObject({ model: 'opus', reason: 'Set in the description front-matter' });
+    });
+
+    it('falls back to the Model setting', () => {
+      expect(service.resolve({ ...task, labels: [] }, 'execute')).toMatchObject({
+        model: 'sonnet',
+        reason: 'Model setting',
+      });
+    });
+
+    it("prefers the repository's default model to the Model setting, not to the rules", () => {
+      repoModel = 'opus';
+      expect(service.resolve({ ...task, labels: [] }, 'execute')).toMatchObject({
+        model: 'opus',
+        reason: 'Repository default (.24hours/instructions.md)',
+      });
+      expect(service.resolve(task, 'execute').model).toBe('haiku');
+    });
+
+    it('steps up one model from the previous run for escalating run kinds', () => {
+      expect(service.resolve(task, 'retry', 'haiku')).toMatchObject({
+        model: 'sonnet',
+        reason: 'Escalated from haiku for retry run',
+      });
+      expect(service.resolve(task, 'retry', 'opus').model).toBe('opus');
+      expect(service.resolve(task, 'feedback', 'haiku').model).toBe('haiku');
+      expect(service.resolve(task, 'retry', 'claude-3-opus').model).toBe('haiku');
+    });
+
+    it('does not step down to the previous model', () => {
+      const research = { ...task, labels: [{ id: 'label-2', name: 'Research' }] };
+      expect(service.resolve(research, 'retry', 'haiku').model).toBe('opus');
+    });
+  });
+});
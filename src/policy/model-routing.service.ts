@@ -0,0 +1,184 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SettingsProviderService } from '../settings/settings-provider.service';
+import { SettingsService } from '../settings/settings.service';
+import { RepoConfigService } from '../workspace/repo-config.service';
+import { REPO_INSTRUCTIONS_FILE } from '../workspace/repo-config';
+import { LinearTask } from '../linear/linear.types';
+import { matchTask } from './task-matcher';
+import { ClaudeModel, ModelChoice, ModelRouting, ProfileChoice } from './policy.types';
+
+// Weakest to strongest; escalation moves one step to the right
+const MODEL_TIERS: ClaudeModel[] = ['haiku', 'sonnet', 'opus'];
+const ESCALATING_RUN_KINDS = ['feedback', 'retry'];
+
+// `model: opus` in a "---" delimited block at the start of the description
+const FRONT_MATTER_PATTERN = /^\s*---\r?\n([\s\S]*?)\r?\n---/;
+const FRONT_MATTER_MODEL_PATTERN = /^model:\s*["']?(\w+)["']?\s*$/im;
+
+// A "profile:Direct" label selects the named Anthropic profile
+const PROFILE_LABEL_PREFIX = 'profile:';
+
+const isModel = (value: unknown): value is ClaudeModel =>
+  MODEL_TIERS.includes(value as ClaudeModel);
+
+/**
+ * Model named in the task description's front-matter, if any
+ */
+export function getFrontMatterModel(description?: string): ClaudeModel | null {
+  const frontMatter = description && FRONT_MATTER_PATTERN.exec(description);
+  const model = frontMatter && FRONT_MATTER_MODEL_PATTERN.exec(frontMatter[1]);
+  const name = model?.[1].toLowerCase();
+  return isModel(name) ? name : null;
+}
+
+@Injectable()
+export class ModelRoutingService {
+  private readonly logger = new Logger(ModelRoutingService.name);
+
+  constructor(
+    private settingsProvider: SettingsProviderService,
+    private settingsService: SettingsService,
+    private repoConfig: RepoConfigService,
+  ) {}
+
+  /**
+   * Get the configured routing (no rules on invalid JSON)
+   */
+  getRouting(): ModelRouting {
+    const raw = this.settingsProvider.getModelRouting();
+    if (!raw) {
+      return { rules: [], escalate: [] };
+    }
+
+    try {
+      return this.parseRouting(JSON.parse(raw));
+    } catch (error) {
+      this.logger.warn(`Invalid model routing, using the Model setting: ${error.message}`);
+      return { rules: [], escalate: [] };
+    }
+  }
+
+  /**
+   * Validate a parsed routing document
+   */
+  parseRouting(value: any): ModelRouting {
+    if (!value || !Array.isArray(value.rules ?? [])) {
+      throw new Error('"rules" must be an array');
+    }
+
+    const rules = (value.rules ?? []).map((rule: any, index: number) => {
+      if (!rule?.model && !rule?.profile) {
+        throw new Error(`Rule ${index + 1} must set a model or a profile`);
+      }
+      if (rule.model !== undefined && !isModel(rule.model)) {
+        throw new Error(`Rule ${index + 1} has an invalid model "${rule.model}"`);
+      }
+      if (rule.profile !== undefined && typeof rule.profile !== 'string') {
+        throw new Error(`Rule ${index + 1} has an invalid profile`);
+      }
+      return {
+        name: rule.name || `Rule ${index + 1}`,
+        match: rule.match || {},
+        model: rule.model,
+        profile: rule.profile,
+      };
+    });
+
+    const escalate = value.escalate ?? [];
+    if (!Array.isArray(escalate) || escalate.some((kind) => !ESCALATING_RUN_KINDS.includes(kind))) {
+      throw new Error('"escalate" must list run kinds "feedback" and/or "retry"');
+    }
+
+    return { rules, escalate };
+  }
+
+  /**
+   * Pick the model for a run: description front-matter, then the first
+   * matching rule, then the profile's default model, then the repository's
+   * default model, then the Model setting.
+   * Feedback and retry runs listed in `escalate` use one model stronger than
+   * the previous run, if that is stronger.
+   */
+  resolve(
+    task: LinearTask,
+    runKind: 'execute' | 'feedback' | 'retry',
+    previousModel?: string | null,
+  ): ModelChoice {
+    const routing = this.getRouting();
+    const profile = this.selectProfile(task, routing);
+    const choice = { ...this.route(task, routing, profile), profile };
+
+    if (runKind === 'execute' || !routing.escalate.includes(runKind) || !isModel(previousModel)) {
+      return choice;
+    }
+
+    const escalated = MODEL_TIERS[Math.min(MODEL_TIERS.indexOf(previousModel) + 1, MODEL_TIERS.length - 1)];
+    if (MODEL_TIERS.indexOf(escalated) <= MODEL_TIERS.indexOf(choice.model)) {
+      return choice;
+    }
+    return {
+      model: escalated,
+      reason: `Escalated from ${previousModel} for ${runKind} run`,
+      profile,
+    };
+  }
+
+  /**
+   * Pick the named Anthropic profile for a run: a "profile:<name>" label,
+   * then the first matching rule with a profile. Unset means the Anthropic
+   * settings; unknown profile names are skipped.
+   */
+  selectProfile(task: LinearTask, routing = this.getRouting()): ProfileChoice | undefined {
+    const candidates: ProfileChoice[] = [];
+
+    for (const label of task.labels ?? []) {
+      if (label.name.toLowerCase().startsWith(PROFILE_LABEL_PREFIX)) {
+        const name = label.name.slice(PROFILE_LABEL_PREFIX.length).trim();
+        candidates.push({ name, reason: `Label "${label.name}"` });
+      }
+    }
+
+    for (const rule of routing.rules) {
+      if (rule.profile && matchTask(rule.match, task)) {
+        candidates.push({ name: rule.profile, reason: `Rule "${rule.name}"` });
+      }
+    }
+
+    return candidates.find((candidate) => {
+      if (this.settingsService.getProfileByName(candidate.name)) {
+        return true;
+      }
+      this.logger.warn(`Profile "${candidate.name}" (${candidate.reason}) does not exist, skipping it`);
+      return false;
+    });
+  }
+
+  private route(task: LinearTask, routing: ModelRouting, profile?: ProfileChoice): ModelChoice {
+    const frontMatterModel = getFrontMatterModel(task.description);
+    if (frontMatterModel) {
+      return { model: frontMatterModel, reason: 'Set in the description front-matter' };
+    }
+
+    for (const rule of routing.rules) {
+      const reasons = rule.model && matchTask(rule.match, task);
+      if (reasons) {
+        return {
+          model: rule.model!,
+          reason: `Rule "${rule.name}": ${reasons.length > 0 ? reasons.join('; ') : 'matches all tasks'}`,
+        };
+      }
+    }
+
+    const profileModel = profile && this.settingsService.getProfileByName(profile.name)?.model;
+    if (profileModel) {
+      return { model: profileModel, reason: `Default model of profile "${profile.name}"` };
+    }
+
+    const repoModel = this.repoConfig.forTask(task).model;
+    if (repoModel) {
+      return { model: repoModel, reason: `Repository default (${REPO_INSTRUCTIONS_FILE})` };
+    }
+
+    return { model: this.settingsProvider.getModel(), reason: 'Model setting' };
+  }
+}
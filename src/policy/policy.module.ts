@@ -0,0 +1,11 @@
+import { Module, Global } from '@nestjs/common';
+import { ReviewPolicyService } from './review-policy.service';
+import { TaskBudgetService } from './task-budget.service';
+import { ModelRoutingService } from './model-routing.service';
+
+@Global()
+@Module({
+  providers: [ReviewPolicyService, TaskBudgetService, ModelRoutingService],
+  exports: [ReviewPolicyService, TaskBudgetService, ModelRoutingService],
+})
+export class PolicyModule {}
@@ -0,0 +1,94 @@
+/**
+ * Conditions a task must meet for a rule to apply.
+ * All specified conditions must match; list conditions match if any entry matches.
+ */
+export interface TaskMatch {
+  labels?: string[]; // Label names (case-insensitive)
+  priority?: number[]; // Linear priorities: 1 Urgent, 2 High, 3 Medium, 4 Low, 0 None
+  estimate?: { min?: number; max?: number }; // Estimate points, bounds inclusive
+  assignee?: string[]; // Assignee name or ID
+  project?: string[]; // Project name or ID
+  source?: string[]; // Task source name (linear, local, ...)
+  titleRegex?: string; // Case-insensitive regular expression over the title
+  tools?: string[]; // Tools used by the agent, "mcp__linear__*" style wildcards allowed
+}
+
+/**
+ * Facts about a run that are only known after execution
+ */
+export interface TaskMatchContext {
+  toolsUsed?: string[];
+}
+
+export type ReviewAction = 'auto_done' | 'review' | 'two_approvals';
+
+export interface ReviewRule {
+  name: string;
+  match: TaskMatch;
+  action: ReviewAction;
+}
+
+export interface ReviewPolicy {
+  rules: ReviewRule[]; // Evaluated in order, first match wins
+  defaultAction: ReviewAction | 'agent'; // 'agent' follows the verdict's needsReview
+}
+
+/**
+ * Outcome of evaluating the review policy for a finished run
+ */
+export interface ReviewDecision {
+  action: ReviewAction;
+  rule: string | null; // Name of the rule that fired, null for the default action
+  reason: string;
+  approvalsRequired: number; // 0 for auto_done
+  decidedAt: string;
+}
+
+export type ClaudeModel = 'opus' | 'sonnet' | 'haiku';
+
+export interface ModelRule {
+  name: string;
+  match: TaskMatch;
+  model?: ClaudeModel;
+  profile?: string; // Named Anthropic profile to run with
+}
+
+export interface ModelRouting {
+  // Evaluated in order: the first matching rule with a model picks the model
+  // (otherwise the Model setting), the first with a profile picks the profile
+  rules: ModelRule[];
+  escalate: ('feedback' | 'retry')[]; // Run kinds that step up one model from the previous run
+}
+
+/**
+ * Model picked for a run and why
+ */
+export interface ModelChoice {
+  model: ClaudeModel;
+  reason: string;
+  profile?: ProfileChoice; // Unset: the Anthropic settings
+}
+
+/**
+ * Named Anthropic profile picked for a run and why
+ */
+export interface ProfileChoice {
+  name: string;
+  reason: string;
+}
+
+/**
+ * Per-run caps; unset fields are unlimited
+ */
+export interface TaskBudget {
+  maxCostUsd?: number;
+  maxTokens?: number; // Input + output tokens (cache reads excluded)
+  maxTurns?: number;
+  maxToolCalls?: number;
+  maxDurationMinutes?: number;
+}
+
+export interface TaskBudgetConfig {
+  default: TaskBudget;
+  labels: Record<string, TaskBudget>; // Label name → caps overriding the default
+}
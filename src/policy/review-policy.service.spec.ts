@@ -0,0 +1,124 @@
+import { DEFAULT_REVIEW_POLICY, ReviewPolicyService } from './review-policy.service';
+import { LinearTask } from '../linear/linear.types';
+import { SettingsProviderService } from '../settings/settings-provider.service';
+import { RepoConfigService } from '../workspace/repo-config.service';
+
+describe('ReviewPolicyService', () => {
+  const task: LinearTask = {
+    id: 'issue-1',
+    identifier: 'ENG-1',
+    title: 'Research competitors',
+    createdAt: new Date('2024-01-01'),
+    labels: [{ id: 'label-1', name: 'Security' }],
+  };
+  const verdict = { status: 'completed' as const, summary: 'Done', deliverables: [], needsReview: false };
+
+  let setting: string | undefined;
+  let repoPolicy: unknown;
+  let service: ReviewPolicyService;
+
+  beforeEach(() => {
+    setting = undefined;
+    repoPolicy = undefined;
+    const settingsProvider = {
+      getReviewPolicy: () => setting,
+    } as unknown as SettingsProviderService;
+    const repoConfig = {
+      forTask: () => ({ instructions: [], reviewPolicy: repoPolicy }),
+    } as unknown as RepoConfigService;
+    service = new ReviewPolicyService(settingsProvider, repoConfig);
+  });
+
+  describe('getPolicy', () => {
+    it('uses the default policy when none is set or the setting is invalid', () => {
+      expect(service.getPolicy(task)).toBe(DEFAULT_REVIEW_POLICY);
+      setting = '{"rules": [{"action": "merge"}]}';
+      expect(service.getPolicy(task)).toBe(DEFAULT_REVIEW_POLICY);
+    });
+
+    it("prefers the repository's policy and falls back to the setting when it is invalid", () => {
+      setting = JSON.stringify({ rules: [], defaultAction: 'review' });
+      repoPolicy = { rules: [], defaultAction: 'auto_done' };
+      expect(service.getPolicy(task).defaultAction).toBe('auto_done');
+
+      repoPolicy = { rules: 'none' };
+      expect(service.getPolicy(task).defaultAction).toBe('review');
+    });
+  });
+
+  describe('parsePolicy', () => {
+    it('names unnamed rules and defaults to following the agent', () => {
+      expect(service.parsePolicy({ rules: [{ action: 'review' }] })).toEqual({
+        rules: [{ name: 'Rule 1', match: {}, action: 'review' }],
+        defaultAction: 'agent',
+      });
+    });
+
+    it('rejects invalid documents', () => {
+      expect(() => service.parsePolicy({})).toThrow('"rules" must be an array');
+      expect(() => service.parsePolicy({ rules: [{ action: 'merge' }] })).toThrow(
+        'Rule 1 has an invalid action "merge"',
+      );
+      expect(() => service.parsePolicy({ rules: [], defaultAction: 'merge' })).toThrow(
+        'Invalid default action "merge"',
+      );
+    });
+  });
+
+  describe('evaluate', () => {
+    beforeEach(() => {
+      setting = JSON.stringify({
+        rules: [
+          { name: 'Security work', match: { labels: ['security'] }, action: 'two_approvals' },
+          { name: 'Everything else', match: {}, action: 'review' },
+        ],
+      });
+    });
+
+    it('applies the first matching rule', () => {
+      expect(service.evaluate(task, verdict, {})).toMatchObject({
+        action: 'two_approvals',
+        rule: 'Security work',
+        reason: 'label Security',
+        approvalsRequired: 2,
+      });
+      expect(service.evaluate({ ...task, labels: [] }, verdict, {})).toMatchObject({
+        action: 'review',
+        rule: 'Everything else',
+        reason: 'matches all tasks',
+        approvalsRequired: 1,
+      });
+    });
+
+    it('applies the default action when no rule matches', () => {
+      setting = JSON.stringify({ rules: [], defaultAction: 'auto_done' });
+      expect(service.evaluate(task, { ...verdict, needsReview: true }, {})).toMatchObject({
+        action: 'auto_done',
+        rule: null,
+        approvalsRequired: 0,
+      });
+    });
+
+    it("follows the agent's verdict by default", () => {
+      setting = JSON.stringify({ rules: [] });
+      expect(service.evaluate(task, { ...verdict, needsReview: true }, {}).action).toBe('review');
+      expect(service.evaluate(task, verdict, {}).action).toBe('auto_done');
+      expect(service.evaluate(task, undefined, {}).action).toBe('auto_done');
+    });
+
+    it('sends runs that changed files to review under the default policy', () => {
+      setting = undefined;
+      expect(service.evaluate(task, verdict, { toolsUsed: ['Read', 'Edit'] }).action).toBe('review');
+      expect(service.evaluate(task, verdict, { toolsUsed: ['Read'] }).action).toBe('auto_done');
+    });
+  });
+
+  describe('isApproval', () => {
+    it('recognises comments that only approve', () => {
+      expect(service.isApproval('LGTM')).toBe(true);
+      expect(service.isApproval('  Looks good to me! ')).toBe(true);
+      expect(service.isApproval('/approve')).toBe(true);
+      expect(service.isApproval('LGTM, but rename the helper')).toBe(false);
+    });
+  });
+});
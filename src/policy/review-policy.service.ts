@@ -0,0 +1,145 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SettingsProviderService } from '../settings/settings-provider.service';
+import { RepoConfigService } from '../workspace/repo-config.service';
+import { LinearTask } from '../linear/linear.types';
+import { TaskVerdict } from '../queue/task.interface';
+import { matchTask } from './task-matcher';
+import {
+  ReviewAction,
+  ReviewDecision,
+  ReviewPolicy,
+  TaskMatchContext,
+} from './policy.types';
+
+const REVIEW_ACTIONS: ReviewAction[] = ['auto_done', 'review', 'two_approvals'];
+
+/**
+ * Used when no policy is configured: anything that wrote files or ran
+ * commands goes to review, everything else follows the agent's verdict
+ */
+export const DEFAULT_REVIEW_POLICY: ReviewPolicy = {
+  rules: [
+    {
+      name: 'Agent modified files or ran commands',
+      match: { tools: ['Write', 'Edit', 'MultiEdit', 'NotebookEdit', 'Bash'] },
+      action: 'review',
+    },
+  ],
+  defaultAction: 'agent',
+};
+
+// Comments consisting only of an approval ("LGTM", "approved", "/approve", ...)
+const APPROVAL_PATTERN =
+  /^\s*(lgtm|approved?|ok|okay|looks good( to me)?|ship it|👍|✅|\/approve)[\s.!]*$/i;
+
+@Injectable()
+export class ReviewPolicyService {
+  private readonly logger = new Logger(ReviewPolicyService.name);
+
+  constructor(
+    private settingsProvider: SettingsProviderService,
+    private repoConfig: RepoConfigService,
+  ) {}
+
+  /**
+   * Get the review policy of a task: the one its repository declares, else
+   * the configured one (falls back to the default on invalid JSON)
+   */
+  getPolicy(task?: LinearTask): ReviewPolicy {
+    const repoPolicy = task && this.repoConfig.forTask(task).reviewPolicy;
+    if (repoPolicy) {
+      try {
+        return this.parsePolicy(repoPolicy);
+      } catch (error) {
+        this.logger.warn(`Invalid repository review policy, using the setting: ${error.message}`);
+      }
+    }
+
+    const raw = this.settingsProvider.getReviewPolicy();
+    if (!raw) {
+      return DEFAULT_REVIEW_POLICY;
+    }
+
+    try {
+      return this.parsePolicy(JSON.parse(raw));
+    } catch (error) {
+      this.logger.warn(`Invalid review policy, using default: ${error.message}`);
+      return DEFAULT_REVIEW_POLICY;
+    }
+  }
+
+  /**
+   * Validate a parsed policy document
+   */
+  parsePolicy(value: any): ReviewPolicy {
+    if (!value || !Array.isArray(value.rules)) {
+      throw new Error('"rules" must be an array');
+    }
+
+    const rules = value.rules.map((rule: any, index: number) => {
+      if (!REVIEW_ACTIONS.includes(rule?.action)) {
+        throw new Error(`Rule ${index + 1} has an invalid action "${rule?.action}"`);
+      }
+      return {
+        name: rule.name || `Rule ${index + 1}`,
+        match: rule.match || {},
+        action: rule.action,
+      };
+    });
+
+    const defaultAction = value.defaultAction ?? 'agent';
+    if (defaultAction !== 'agent' && !REVIEW_ACTIONS.includes(defaultAction)) {
+      throw new Error(`Invalid default action "${defaultAction}"`);
+    }
+
+    return { rules, defaultAction };
+  }
+
+  /**
+   * Decide what happens to a task after a successful run.
+   * Rules are evaluated in order; the first matching rule decides.
+   */
+  evaluate(
+    task: LinearTask,
+    verdict: TaskVerdict | undefined,
+    context: TaskMatchContext,
+  ): ReviewDecision {
+    const policy = this.getPolicy(task);
+
+    for (const rule of policy.rules) {
+      const reasons = matchTask(rule.match, task, context);
+      if (reasons) {
+        return this.decide(
+          rule.action,
+          rule.name,
+          reasons.length > 0 ? reasons.join('; ') : 'matches all tasks',
+        );
+      }
+    }
+
+    if (policy.defaultAction !== 'agent') {
+      return this.decide(policy.defaultAction, null, 'No rule matched (default action)');
+    }
+
+    return verdict?.needsReview
+      ? this.decide('review', null, 'No rule matched; agent requested review')
+      : this.decide('auto_done', null, 'No rule matched; agent did not request review');
+  }
+
+  /**
+   * Whether a comment is a plain approval
+   */
+  isApproval(body: string): boolean {
+    return APPROVAL_PATTERN.test(body);
+  }
+
+  private decide(action: ReviewAction, rule: string | null, reason: string): ReviewDecision {
+    return {
+      action,
+      rule,
+      reason,
+      approvalsRequired: action === 'two_approvals' ? 2 : action === 'review' ? 1 : 0,
+      decidedAt: new Date().toISOString(),
+    };
+  }
+}
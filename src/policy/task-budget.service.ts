@@ -0,0 +1,89 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SettingsProviderService } from '../settings/settings-provider.service';
+import { LinearTask } from '../linear/linear.types';
+import { TaskBudget, TaskBudgetConfig } from './policy.types';
+
+const BUDGET_FIELDS: (keyof TaskBudget)[] = [
+  'maxCostUsd',
+  'maxTokens',
+  'maxTurns',
+  'maxToolCalls',
+  'maxDurationMinutes',
+];
+
+@Injectable()
+export class TaskBudgetService {
+  private readonly logger = new Logger(TaskBudgetService.name);
+
+  constructor(private settingsProvider: SettingsProviderService) {}
+
+  /**
+   * Get the configured budgets (no caps on invalid JSON)
+   */
+  getConfig(): TaskBudgetConfig {
+    const raw = this.settingsProvider.getTaskBudgets();
+    if (!raw) {
+      return { default: {}, labels: {} };
+    }
+
+    try {
+      return this.parseConfig(JSON.parse(raw));
+    } catch (error) {
+      this.logger.warn(`Invalid task budgets, running without caps: ${error.message}`);
+      return { default: {}, labels: {} };
+    }
+  }
+
+  /**
+   * Validate a parsed budget document
+   */
+  parseConfig(value: any): TaskBudgetConfig {
+    if (!value || typeof value !== 'object') {
+      throw new Error('Budgets must be an object');
+    }
+
+    const labels: Record<string, TaskBudget> = {};
+    for (const [label, budget] of Object.entries(value.labels || {})) {
+      labels[label.toLowerCase()] = this.parseBudget(budget, `labels.${label}`);
+    }
+
+    return {
+      default: this.parseBudget(value.default || {}, 'default'),
+      labels,
+    };
+  }
+
+  private parseBudget(value: any, path: string): TaskBudget {
+    const budget: TaskBudget = {};
+    for (const field of BUDGET_FIELDS) {
+      if (value?.[field] === undefined || value[field] === null) continue;
+      if (typeof value[field] !== 'number' || value[field] <= 0) {
+        throw new Error(`${path}.${field} must be a positive number`);
+      }
+      budget[field] = value[field];
+    }
+    return budget;
+  }
+
+  /**
+   * Resolve the caps for a task: label overrides replace the default, and
+   * when several labels set the same cap the most restrictive one applies
+   */
+  getBudget(task: LinearTask): TaskBudget {
+    const config = this.getConfig();
+    const overrides = (task.labels || [])
+      .map((label) => config.labels[label.name.toLowerCase()])
+      .filter((budget): budget is TaskBudget => !!budget);
+
+    const budget: TaskBudget = { ...config.default };
+    for (const field of BUDGET_FIELDS) {
+      const values = overrides
+        .map((override) => override[field])
+        .filter((v): v is number => v !== undefined);
+      if (values.length > 0) {
+        budget[field] = Math.min(...values);
+      }
+    }
+    return budget;
+  }
+}
@@ -0,0 +1,69 @@
+import { matchTask } from './task-matcher';
+import { LinearTask } from '../linear/linear.types';
+
+describe('matchTask', () => {
+  const task: LinearTask = {
+    id: 'issue-1',
+    identifier: 'ENG-1',
+    title: 'Fix login redirect',
+    priority: 2,
+    estimate: 3,
+    createdAt: new Date('2024-01-01'),
+    labels: [{ id: 'label-1', name: 'Bug' }],
+    assignee: { id: 'user-1', name: 'Alice' },
+    project: { id: 'project-1', name: 'Web' },
+  };
+
+  it('matches every task without conditions', () => {
+    expect(matchTask({}, task)).toEqual([]);
+  });
+
+  it('describes each matched condition', () => {
+    expect(
+      matchTask(
+        {
+          labels: ['bug'],
+          priority: [1, 2],
+          estimate: { min: 1, max: 3 },
+          assignee: ['alice'],
+          project: ['project-1'],
+          source: ['linear'],
+          titleRegex: '^fix',
+        },
+        task,
+      ),
+    ).toEqual([
+      'label Bug',
+      'priority 2',
+      'estimate 3',
+      'assignee Alice',
+      'project Web',
+      'source linear',
+      'title matches /^fix/',
+    ]);
+  });
+
+  it('requires every condition to match', () => {
+    expect(matchTask({ labels: ['bug'], priority: [1] }, task)).toBeNull();
+    expect(matchTask({ labels: ['feature'] }, task)).toBeNull();
+    expect(matchTask({ estimate: { max: 2 } }, task)).toBeNull();
+    expect(matchTask({ estimate: { min: 1 } }, { ...task, estimate: undefined })).toBeNull();
+    expect(matchTask({ assignee: ['Bob'] }, task)).toBeNull();
+    expect(matchTask({ project: ['Web'] }, { ...task, project: undefined })).toBeNull();
+    expect(matchTask({ source: ['local'] }, task)).toBeNull();
+    expect(matchTask({ titleRegex: 'refactor' }, task)).toBeNull();
+  });
+
+  it('does not match an invalid title pattern', () => {
+    expect(matchTask({ titleRegex: '(' }, task)).toBeNull();
+  });
+
+  it('matches tools the agent used, with wildcards', () => {
+    const context = { toolsUsed: ['Read', 'mcp__linear__create_comment'] };
+    expect(matchTask({ tools: ['Edit', 'mcp__linear__*'] }, task, context)).toEqual([
+      'agent used mcp__linear__create_comment',
+    ]);
+    expect(matchTask({ tools: ['Edit', 'Bash'] }, task, context)).toBeNull();
+    expect(matchTask({ tools: ['Read'] }, task)).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+import { LinearTask } from '../linear/linear.types';
+import { TaskMatch, TaskMatchContext } from './policy.types';
+
+const includesIgnoreCase = (values: string[], candidate?: string): boolean =>
+  !!candidate && values.some((value) => value.toLowerCase() === candidate.toLowerCase());
+
+/**
+ * Match a tool name against a pattern; a trailing "*" matches any suffix
+ */
+function matchesTool(pattern: string, toolName: string): boolean {
+  if (pattern.endsWith('*')) {
+    return toolName.startsWith(pattern.slice(0, -1));
+  }
+  return pattern === toolName;
+}
+
+/**
+ * Match a task against rule conditions.
+ * Returns a description of each matched condition, or null if the task does not match.
+ */
+export function matchTask(
+  match: TaskMatch,
+  task: LinearTask,
+  context: TaskMatchContext = {},
+): string[] | null {
+  const reasons: string[] = [];
+
+  if (match.labels?.length) {
+    const labels = (task.labels || [])
+      .map((label) => label.name)
+      .filter((name) => includesIgnoreCase(match.labels!, name));
+    if (labels.length === 0) return null;
+    reasons.push(`label ${labels.join(', ')}`);
+  }
+
+  if (match.priority?.length) {
+    if (!match.priority.includes(task.priority ?? 0)) return null;
+    reasons.push(`priority ${task.priority ?? 0}`);
+  }
+
+  if (match.estimate) {
+    const { min, max } = match.estimate;
+    const estimate = task.estimate;
+    if (
+      estimate === undefined ||
+      (min !== undefined && estimate < min) ||
+      (max !== undefined && estimate > max)
+    ) {
+      return null;
+    }
+    reasons.push(`estimate ${estimate}`);
+  }
+
+  if (match.assignee?.length) {
+    const assignee = task.assignee;
+    if (
+      !assignee ||
+      (!includesIgnoreCase(match.assignee, assignee.name) &&
+        !match.assignee.includes(assignee.id))
+    ) {
+      return null;
+    }
+    reasons.push(`assignee ${assignee.name}`);
+  }
+
+  if (match.project?.length) {
+    const project = task.project;
+    if (
+      !project ||
+      (!includesIgnoreCase(match.project, project.name) &&
+        !match.project.includes(project.id))
+    ) {
+      return null;
+    }
+    reasons.push(`project ${project.name}`);
+  }
+
+  if (match.source?.length) {
+    const source = task.source || 'linear';
+    if (!includesIgnoreCase(match.source, source)) return null;
+    reasons.push(`source ${source}`);
+  }
+
+  if (match.titleRegex) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(match.titleRegex, 'i');
+    } catch {
+      return null;
+    }
+    if (!regex.test(task.title)) return null;
+    reasons.push(`title matches /${match.titleRegex}/`);
+  }
+
+  if (match.tools?.length) {
+    const tools = (context.toolsUsed || []).filter((tool) =>
+      match.tools!.some((pattern) => matchesTool(pattern, tool)),
+    );
+    if (tools.length === 0) return null;
+    reasons.push(`agent used ${tools.join(', ')}`);
+  }
+
+  return reasons;
+}
@@ -3,6 +3,7 @@ import { BullModule } from '@nestjs/bull';
 import { TaskProcessor } from './task.processor';
 import { ClaudeModule } from '../claude/claude.module';
 import { MonitorModule } from '../monitor/monitor.module';
+import { SchedulerModule } from '../scheduler/scheduler.module';
 
 @Module({
   imports: [
@@ -11,6 +12,7 @@ import { MonitorModule } from '../monitor/monitor.module';
     }),
     forwardRef(() => ClaudeModule),
     forwardRef(() => MonitorModule),
+    SchedulerModule,
   ],
   providers: [TaskProcessor],
   exports: [TaskProcessor],
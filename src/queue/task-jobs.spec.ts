@@ -0,0 +1,85 @@
+import { Queue } from 'bull';
+import { addUniqueJob, executeJobId, feedbackJobId, isJobPending, mergeFeedback, retryJobId } from './task-jobs';
+
+describe('job IDs', () => {
+  it('gives a task one execute job', () => {
+    expect(executeJobId('issue-1')).toBe('execute:issue-1');
+  });
+
+  it('gives the same comments the same feedback job, in any order', () => {
+    const id = feedbackJobId('issue-1', ['comment-1', 'comment-2']);
+    expect(id).toMatch(/^feedback:issue-1:[0-9a-f]{16}$/);
+    expect(feedbackJobId('issue-1', ['comment-2', 'comment-1'])).toBe(id);
+    expect(feedbackJobId('issue-1', ['comment-1'])).not.toBe(id);
+    expect(feedbackJobId('issue-2', ['comment-1', 'comment-2'])).not.toBe(id);
+  });
+
+  it('gives a failed session one retry job', () => {
+    expect(retryJobId('issue-1', 'session-1')).toBe('retry:issue-1:session-1');
+  });
+});
+
+describe('mergeFeedback', () => {
+  it('joins comments oldest first', () => {
+    expect(
+      mergeFeedback([
+        { id: 'comment-2', body: 'Also the logout page', createdAt: new Date('2024-01-01T10:05:00Z') },
+        { id: 'comment-1', body: 'Use a 302', createdAt: new Date('2024-01-01T10:00:00Z') },
+      ]),
+    ).toBe('Use a 302\n\n---\n\nAlso the logout page');
+  });
+});
+
+describe('queue helpers', () => {
+  let jobs: Map<string, { remove: jest.Mock }>;
+  let queue: Queue;
+
+  const addJob = (id: string, state: string) => {
+    const job = { getState: () => Promise.resolve(state), remove: jest.fn(() => jobs.delete(id)) };
+    jobs.set(id, job);
+    return job;
+  };
+
+  beforeEach(() => {
+    jobs = new Map();
+    queue = {
+      getJob: jest.fn((id: string) => Promise.resolve(jobs.get(id) ?? null)),
+      add: jest.fn((_name: string, _data: unknown, opts: { jobId: string }) => addJob(opts.jobId, 'waiting')),
+    } as unknown as Queue;
+  });
+
+  describe('isJobPending', () => {
+    it('is pending while the job waits or runs', async () => {
+      addJob('execute:issue-1', 'active');
+      addJob('execute:issue-2', 'failed');
+
+      await expect(isJobPending(queue, 'execute:issue-1')).resolves.toBe(true);
+      await expect(isJobPending(queue, 'execute:issue-2')).resolves.toBe(false);
+      await expect(isJobPending(queue, 'execute:issue-3')).resolves.toBe(false);
+    });
+  });
+
+  describe('addUniqueJob', () => {
+    const opts = { jobId: 'execute:issue-1' };
+
+    it('adds a new job', async () => {
+      await expect(addUniqueJob(queue, 'execute', { id: 'issue-1' }, opts)).resolves.toBe(true);
+      expect(queue.add).toHaveBeenCalledWith('execute', { id: 'issue-1' }, opts);
+    });
+
+    it('skips a duplicate of a pending job', async () => {
+      addJob('execute:issue-1', 'delayed');
+
+      await expect(addUniqueJob(queue, 'execute', { id: 'issue-1' }, opts)).resolves.toBe(false);
+      expect(queue.add).not.toHaveBeenCalled();
+    });
+
+    it('replaces a finished job with the same ID', async () => {
+      const failed = addJob('execute:issue-1', 'failed');
+
+      await expect(addUniqueJob(queue, 'execute', { id: 'issue-1' }, opts)).resolves.toBe(true);
+      expect(failed.remove).toHaveBeenCalled();
+      expect(queue.add).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { Logger } from '@nestjs/common';
+import { JobOptions, Queue } from 'bull';
+import * as crypto from 'crypto';
+import { LinearComment } from '../linear/linear.types';
+
+const logger = new Logger('TaskJobs');
+
+// A job in one of these states makes a new job with the same ID a duplicate
+const PENDING_STATES = ['waiting', 'delayed', 'active', 'paused'];
+
+export function executeJobId(taskId: string): string {
+  return `execute:${taskId}`;
+}
+
+/**
+ * Same comments → same ID, regardless of order
+ */
+export function feedbackJobId(taskId: string, commentIds: string[]): string {
+  const digest = crypto
+    .createHash('sha1')
+    .update([...commentIds].sort().join(','))
+    .digest('hex')
+    .slice(0, 16);
+  return `feedback:${taskId}:${digest}`;
+}
+
+/**
+ * One retry per failed session
+ */
+export function retryJobId(taskId: string, sessionId: string): string {
+  return `retry:${taskId}:${sessionId}`;
+}
+
+/**
+ * Merge comments into one feedback message (oldest first)
+ */
+export function mergeFeedback(comments: LinearComment[]): string {
+  return [...comments]
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    .map((c) => c.body)
+    .join('\n\n---\n\n');
+}
+
+/**
+ * Whether a job with this ID is waiting, delayed, running or paused
+ */
+export async function isJobPending(queue: Queue, jobId: string): Promise<boolean> {
+  const job = await queue.getJob(jobId);
+  return !!job && PENDING_STATES.includes(await job.getState());
+}
+
+/**
+ * Add a job under a deterministic ID. A duplicate of a pending job is a no-op
+ * (returns false); a finished job with the same ID (kept by removeOnFail) is
+ * replaced. Bull itself ignores adds with an existing ID, so concurrent
+ * enqueues from several workers stay idempotent as well.
+ */
+export async function addUniqueJob<T>(
+  queue: Queue,
+  name: string,
+  data: T,
+  opts: JobOptions & { jobId: string },
+): Promise<boolean> {
+  const existing = await queue.getJob(opts.jobId);
+  if (existing) {
+    const state = await existing.getState();
+    if (PENDING_STATES.includes(state)) {
+      logger.log(`Skipping duplicate ${name} job ${opts.jobId} (already ${state})`);
+      return false;
+    }
+    logger.log(`Replacing ${state} ${name} job ${opts.jobId}`);
+    await existing.remove();
+  }
+
+  await queue.add(name, data, opts);
+  logger.debug(`Enqueued ${name} job ${opts.jobId}`);
+  return true;
+}
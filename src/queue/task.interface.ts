@@ -1,4 +1,5 @@
-import { LinearTask } from '../linear/linear.types';
+import { LinearIssueRef, LinearTask } from '../linear/linear.types';
+import { PromptVersions } from '../claude/prompts/prompt-templates';
 
 export interface TaskJob {
   task: LinearTask;
@@ -17,14 +18,95 @@ export interface RetryJob {
   sessionId: string;      // Previous session ID for context restoration
 }
 
+/**
+ * Outcome reported by the agent as structured output at the end of a run
+ */
+export interface TaskVerdict {
+  status: 'completed' | 'failed';
+  summary: string;
+  deliverables: string[];
+  needsReview: boolean;
+}
+
+/**
+ * Breakdown of a task into sub-tasks, reported as structured output by a planning run
+ */
+export interface TaskPlan {
+  summary: string;
+  subtasks: PlannedSubtask[];
+}
+
+export interface PlannedSubtask {
+  title: string;
+  description: string;
+  dependsOn: number[]; // Numbers (from 1) of earlier sub-tasks this one waits for
+}
+
+/**
+ * - awaiting_approval: sub-issues created in Backlog, task In Review
+ * - approved: sub-issues queued, task waiting on them in Todo
+ * - completed: task closed with a roll-up summary
+ * - skipped: no breakdown needed, the task runs as a whole
+ */
+export type TaskPlanStatus = 'awaiting_approval' | 'approved' | 'completed' | 'skipped';
+
+/**
+ * A task's plan and the sub-issues created from it (Plan First)
+ */
+export interface TaskPlanRecord {
+  taskId: string;
+  identifier: string;
+  status: TaskPlanStatus;
+  summary: string;
+  subtasks: PlannedSubtask[];
+  subIssues: LinearIssueRef[]; // Created from the sub-tasks
+  approvedBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Why a run failed (SDK result subtypes map to distinct reasons)
+ */
+export type FailureReason =
+  | 'agent_reported'        // Agent returned status "failed"
+  | 'max_turns'             // SDK error_max_turns
+  | 'budget_exceeded'       // Task budget cap hit (SDK error_max_budget_usd or live caps)
+  | 'execution_error'       // SDK error_during_execution
+  | 'invalid_verdict'       // No valid structured result
+  | 'verification_failed'   // The repository's verify command failed
+  | 'exception';            // Thrown error (auth, network, ...)
+
+/**
+ * Tokens, cost and timing of one agent run (from the SDK result message)
+ */
+export interface RunUsage {
+  model: string; // Model with the highest spend in the run
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+  numTurns: number;
+  durationMs: number;
+}
+
 export interface TaskExecutionResult {
   success: boolean;
   error?: string;
+  failureReason?: FailureReason;
+  cancelled?: string; // Set when the run was cancelled (not a failure): the reason
+  verdict?: TaskVerdict;
+  plan?: TaskPlan; // Planning runs only
   needsReview?: boolean;
+  toolsUsed?: string[]; // Distinct tool names called during the run
+  usage?: RunUsage;
   sessionId?: string;
 }
 
 export interface ProgressCallback {
   onProgress: (step: string, progress: number) => void;
   onSessionId?: (sessionId: string) => void;
+  onModel?: (model: string, reason: string, profile: string) => void; // Per attempt, fallbacks included
+  onPromptVersions?: (versions: PromptVersions) => void; // Template versions the prompts were built from
 }
@@ -2,36 +2,36 @@ import { Processor, Process, OnQueueFailed } from '@nestjs/bull';
 import { Logger, Inject, forwardRef } from '@nestjs/common';
 import { Job } from 'bull';
 import { ClaudeService } from '../claude/claude.service';
-import { LinearService } from '../linear/linear.service';
+import { TaskSourceService } from '../task-source/task-source.service';
 import { MonitorService } from '../monitor/monitor.service';
-import { SessionStoreService } from '../monitor/session-store.service';
+import { SessionStoreService, RunKind } from '../monitor/session-store.service';
+import { TaskClaimService } from '../claim/task-claim.service';
+import { ReviewPolicyService } from '../policy/review-policy.service';
+import { ReviewPollerService } from '../scheduler/review-poller.service';
+import { TaskPlanService } from '../plan/task-plan.service';
+import { mergeFeedback } from './task-jobs';
 import { LinearTask, TaskStatus } from '../linear/linear.types';
-import { FeedbackJob, RetryJob } from './task.interface';
+import {
+  FeedbackJob,
+  ProgressCallback,
+  RetryJob,
+  TaskExecutionResult,
+} from './task.interface';
+import { FAILURE_REASON_LABELS } from '../claude/task-verdict';
+import { PromptVersions } from '../claude/prompts/prompt-templates';
 
 @Processor('task-queue')
 export class TaskProcessor {
   private readonly logger = new Logger(TaskProcessor.name);
 
-  // Keywords that trigger review requirement
-  private readonly REVIEW_KEYWORDS = [
-    'write',
-    'generate',
-    'create',
-    'send',
-    'email',
-    'article',
-    'report',
-    'delete',
-    'modify',
-    'update',
-    'code',
-    'script',
-  ];
-
   constructor(
     private claudeService: ClaudeService,
-    private linearService: LinearService,
+    private taskSources: TaskSourceService,
     private sessionStore: SessionStoreService,
+    private taskClaims: TaskClaimService,
+    private reviewPolicy: ReviewPolicyService,
+    private reviewPoller: ReviewPollerService,
+    private taskPlans: TaskPlanService,
     @Inject(forwardRef(() => MonitorService))
     private monitorService: MonitorService,
   ) {}
@@ -41,55 +41,77 @@ export class TaskProcessor {
     const task = job.data;
     this.logger.log(`Processing task: ${task.identifier}`);
 
-    // Notify monitor: task started
-    this.monitorService.taskStarted(task.id, task.identifier, task.title);
+    // Hold the task claim while running (heartbeat keeps the lease alive)
+    const releaseClaim = await this.taskClaims.hold(task.id);
+
+    try {
+      // The sub-issues of its approved plan are finished: close it without a run
+      if (this.taskPlans.isApproved(task.id)) {
+        await this.taskPlans.rollUp(task);
+        return;
+      }
+
+      await this.runTask(job, task);
+    } finally {
+      await releaseClaim();
+    }
+  }
 
+  /**
+   * Run (or plan) a task. A failure marks it Failed and is thrown to retry it.
+   */
+  private async runTask(job: Job<LinearTask>, task: LinearTask) {
     try {
-      // Execute task with Claude
-      const result = await this.claudeService.executeTask(task, {
+      const planning = await this.taskPlans.shouldPlan(task);
+
+      // Notify monitor: task started
+      this.monitorService.taskStarted(task.id, task.identifier, planning ? `[Plan] ${task.title}` : task.title);
+
+      const callbacks: ProgressCallback = {
         onProgress: (step: string, progress: number) => {
           this.monitorService.taskProgress(task.id, step, progress);
         },
         onSessionId: (sessionId: string) => {
           this.monitorService.taskSessionId(task.id, sessionId);
         },
-      });
-
-      if (result.success) {
-        // Check if review is needed
-        const needsReview = this.checkNeedsReview(task);
-
-        if (needsReview) {
-          // Needs review: update status to In Review
-          await this.linearService.updateStatus(task.id, TaskStatus.IN_REVIEW);
-          await this.linearService.addComment(
-            task.id,
-            `👀 **Task completed, awaiting human review**\n\n` +
-              `Please check the execution result, then:\n` +
-              `- ✅ Approved → Change status to "Done"\n` +
-              `- 🔄 Needs changes → Reply with feedback, change status back to "Todo"\n` +
-              `- ❌ Cancel task → Change status to "Canceled"`,
-          );
-          this.logger.log(
-            `Task ${task.identifier} completed, waiting for review`,
-          );
-        } else {
-          // No review needed: complete directly
-          await this.linearService.updateStatus(task.id, TaskStatus.DONE);
-          this.logger.log(`Task ${task.identifier} completed successfully`);
-        }
+        onModel: (model: string, reason: string, profile: string) => {
+          this.monitorService.taskModel(task.id, model, reason, profile);
+        },
+        onPromptVersions: (versions: PromptVersions) => {
+          this.monitorService.taskPromptVersions(task.id, versions);
+        },
+      };
+
+      // Plan First tasks are broken down into sub-issues before anything runs
+      const result = planning
+        ? await this.claudeService.planTask(task, callbacks)
+        : await this.claudeService.executeTask(task, callbacks);
+
+      // Persist tokens and cost of this run
+      await this.recordUsage(task, 'execute', result);
+
+      // Cancelled runs are neither failed nor retried
+      const cancelled = result.cancelled ?? (await this.getCancellation(task));
+      if (cancelled) {
+        await this.completeCancelled(task, cancelled);
+      } else if (result.success) {
+        // Decide between review and done (a plan always waits for approval)
+        const decision = planning
+          ? await this.proposePlan(task, result)
+          : await this.applyReviewPolicy(task, result, 'Task');
 
         // Notify monitor: task completed
-        this.monitorService.taskCompleted(task.id, true);
+        this.monitorService.taskCompleted(task.id, true, decision);
       } else {
-        throw new Error(result.error);
+        await this.discardIfFinal(job, result);
+        throw new Error(this.describeFailure(result));
       }
     } catch (error) {
       this.logger.error(`Task ${task.identifier} failed:`, error);
 
       // Update status to Failed
-      await this.linearService.updateStatus(task.id, TaskStatus.FAILED);
-      await this.linearService.addComment(
+      await this.taskSources.updateStatus(task.id, TaskStatus.FAILED);
+      await this.taskSources.addComment(
         task.id,
         `❌ Task execution failed\n\n**Error:**\n\`\`\`\n${error.message}\n\`\`\`\n\n**Retry attempts:** ${job.attemptsMade}/${job.opts.attempts}`,
       );
@@ -102,13 +124,171 @@ export class TaskProcessor {
   }
 
   /**
-   * Check if task needs human review
+   * Apply the review policy to a successful run: In Review (awaiting one or
+   * two approvals) or Done. Returns a description of the decision.
+   */
+  private async applyReviewPolicy(
+    task: LinearTask,
+    result: TaskExecutionResult,
+    label: string,
+  ): Promise<string> {
+    // Rules match labels, assignee and project, so evaluate against fresh details
+    const details = (await this.taskSources.getTask(task.id)) || task;
+    const decision = this.reviewPolicy.evaluate(details, result.verdict, {
+      toolsUsed: result.toolsUsed,
+    });
+    this.sessionStore.saveReviewDecision(task.id, task.identifier, task.title, decision);
+
+    const explanation = decision.rule
+      ? `rule "${decision.rule}" (${decision.reason})`
+      : decision.reason;
+
+    if (decision.action === 'auto_done') {
+      // No review needed: complete directly
+      await this.taskSources.updateStatus(task.id, TaskStatus.DONE);
+      this.logger.log(`${label} ${task.identifier} completed successfully: ${explanation}`);
+      return `Done by ${explanation}`;
+    }
+
+    const approval =
+      decision.approvalsRequired > 1
+        ? `- ✅ Approved → Reply "LGTM" (${decision.approvalsRequired} approvals from different people required)\n`
+        : `- ✅ Approved → Reply "LGTM" or change status to "Done"\n`;
+
+    // Needs review: update status to In Review
+    await this.taskSources.updateStatus(task.id, TaskStatus.IN_REVIEW);
+    await this.taskSources.addComment(
+      task.id,
+      `👀 **${label} completed, awaiting human review**\n\n` +
+        `**Review policy:** ${explanation}\n\n` +
+        `Please check the execution result, then:\n` +
+        approval +
+        `- 🔄 Needs changes → Reply with feedback\n` +
+        `- ❌ Cancel task → Change status to "Canceled"`,
+    );
+    this.logger.log(`${label} ${task.identifier} completed, waiting for review: ${explanation}`);
+    return `In Review by ${explanation}`;
+  }
+
+  /**
+   * Create the sub-issues of a successful planning run and put the plan up
+   * for approval. Returns a description of the outcome.
    */
-  private checkNeedsReview(task: LinearTask): boolean {
-    const content = `${task.title} ${task.description || ''}`.toLowerCase();
+  private async proposePlan(task: LinearTask, result: TaskExecutionResult): Promise<string> {
+    if (!result.plan) {
+      throw new Error(FAILURE_REASON_LABELS.invalid_verdict);
+    }
+    return this.taskPlans.propose(task, result.plan);
+  }
 
-    // Check for review keywords
-    return this.REVIEW_KEYWORDS.some((keyword) => content.includes(keyword));
+  /**
+   * Deliver comments posted while a feedback run was active as follow-up
+   * turns of the same session, instead of starting a separate feedback run
+   */
+  private async deliverFollowUps(
+    task: LinearTask,
+    result: TaskExecutionResult,
+    callbacks: ProgressCallback,
+  ): Promise<TaskExecutionResult> {
+    while (result.success && result.sessionId) {
+      const comments = await this.reviewPoller.getNewUserComments(task.id);
+
+      // Plain approvals are counted by the review poller once back In Review
+      if (comments.every((c) => this.reviewPolicy.isApproval(c.body))) {
+        break;
+      }
+
+      this.logger.log(
+        `Delivering ${comments.length} follow-up comment(s) to ${task.identifier}`,
+      );
+      result = await this.claudeService.executeFeedback(
+        task,
+        mergeFeedback(comments),
+        result.sessionId,
+        callbacks,
+        { followUp: true },
+      );
+      await this.recordUsage(task, 'feedback', result);
+      this.sessionStore.markCommentsProcessed(
+        comments.map((c) => c.id),
+        task.id,
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Reason to treat a finished run as cancelled: the task was moved to
+   * Canceled after the agent had returned, too late to abort it. Checked
+   * before the run's outcome changes the status, so it doesn't undo the cancel.
+   */
+  private async getCancellation(task: LinearTask): Promise<string | null> {
+    try {
+      const current = await this.taskSources.getTask(task.id);
+      return current?.state?.name === TaskStatus.CANCELED ? 'Task status changed to Canceled' : null;
+    } catch (error) {
+      this.logger.warn(`Could not check status of ${task.identifier}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Close out a cancelled run: status Canceled, a comment and a cancelled outcome
+   */
+  private async completeCancelled(task: LinearTask, reason: string): Promise<void> {
+    await this.taskSources.updateStatus(task.id, TaskStatus.CANCELED);
+    await this.taskSources.addComment(
+      task.id,
+      `🛑 Task execution cancelled\n\n**Reason:** ${reason}`,
+    );
+    this.logger.warn(`Task ${task.identifier} cancelled: ${reason}`);
+    this.monitorService.taskCancelled(task.id, reason);
+  }
+
+  /**
+   * Persist the tokens and cost of a run, successful or not
+   */
+  private async recordUsage(
+    task: LinearTask,
+    runKind: RunKind,
+    result: TaskExecutionResult,
+  ): Promise<void> {
+    if (!result.usage) return;
+
+    // Labels are used to group costs; queued tasks may not carry them
+    const labels = task.labels ?? (await this.taskSources.getTask(task.id))?.labels ?? [];
+
+    this.sessionStore.saveRunUsage({
+      ...result.usage,
+      linearTaskId: task.id,
+      identifier: task.identifier,
+      sessionId: result.sessionId,
+      runKind,
+      runId: this.monitorService.getCurrentRunId(task.id),
+      labels: labels.map((label) => label.name),
+      success: result.success,
+      completedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Skip Bull retries for failures a retry would only repeat
+   */
+  private async discardIfFinal(job: Job, result: TaskExecutionResult): Promise<void> {
+    if (result.failureReason === 'budget_exceeded') {
+      this.logger.warn(`Job ${job.id} exceeded its budget, not retrying`);
+      await job.discard();
+    }
+  }
+
+  /**
+   * Build the error message for a failed run, including the failure reason
+   */
+  private describeFailure(result: TaskExecutionResult): string {
+    if (!result.failureReason) {
+      return result.error || 'Unknown error';
+    }
+    return `${FAILURE_REASON_LABELS[result.failureReason]}: ${result.error || 'no details'}`;
   }
 
   @OnQueueFailed()
@@ -123,53 +303,80 @@ export class TaskProcessor {
     const { task, feedback, commentIds, sessionId } = job.data;
     this.logger.log(`Processing feedback for task: ${task.identifier}`);
 
-    // Notify monitor: feedback processing started
-    this.monitorService.taskStarted(
-      task.id,
-      task.identifier,
-      `[Feedback] ${task.title}`,
-    );
+    // Hold the task claim while running (heartbeat keeps the lease alive)
+    const releaseClaim = await this.taskClaims.hold(task.id);
 
     try {
+      // Notify monitor: feedback processing started
+      this.monitorService.taskStarted(
+        task.id,
+        task.identifier,
+        `[Feedback] ${task.title}`,
+        'feedback',
+      );
+
       // Update status to In Progress
-      await this.linearService.updateStatus(task.id, TaskStatus.IN_PROGRESS);
+      await this.taskSources.updateStatus(task.id, TaskStatus.IN_PROGRESS);
 
       // Post comment with system marker
-      await this.linearService.addComment(
+      await this.taskSources.addComment(
         task.id,
         `🔄 Processing your feedback...`,
       );
 
-      // Execute feedback with Claude using session resumption
-      const result = await this.claudeService.executeFeedback(
-        task,
-        feedback,
-        sessionId,
-        {
-          onProgress: (step: string, progress: number) => {
-            this.monitorService.taskProgress(task.id, step, progress);
-          },
-          onSessionId: (newSessionId: string) => {
-            this.monitorService.taskSessionId(task.id, newSessionId);
-          },
+      const callbacks: ProgressCallback = {
+        onProgress: (step: string, progress: number) => {
+          this.monitorService.taskProgress(task.id, step, progress);
         },
-      );
+        onSessionId: (newSessionId: string) => {
+          this.monitorService.taskSessionId(task.id, newSessionId);
+        },
+        onModel: (model: string, reason: string, profile: string) => {
+          this.monitorService.taskModel(task.id, model, reason, profile);
+        },
+        onPromptVersions: (versions: PromptVersions) => {
+          this.monitorService.taskPromptVersions(task.id, versions);
+        },
+      };
+
+      // Feedback on a plan awaiting approval revises the plan
+      const revising = this.taskPlans.isAwaitingApproval(task.id);
+
+      // Execute feedback with Claude using session resumption
+      let result = revising
+        ? await this.claudeService.planTask(task, callbacks, { feedback, sessionId })
+        : await this.claudeService.executeFeedback(task, feedback, sessionId, callbacks);
+
+      // Persist tokens and cost of this run
+      await this.recordUsage(task, 'feedback', result);
 
       // Mark comments as processed
       this.sessionStore.markCommentsProcessed(commentIds, task.id);
 
-      if (result.success) {
-        this.logger.log(`Feedback for task ${task.identifier} processed successfully`);
-        this.monitorService.taskCompleted(task.id, true);
+      if (!revising) {
+        result = await this.deliverFollowUps(task, result, callbacks);
+      }
+
+      // Cancelled runs are neither failed nor retried
+      const cancelled = result.cancelled ?? (await this.getCancellation(task));
+      if (cancelled) {
+        await this.completeCancelled(task, cancelled);
+      } else if (result.success) {
+        // Decide between review and done (approved → Done, changes made → In Review)
+        const decision = revising
+          ? await this.proposePlan(task, result)
+          : await this.applyReviewPolicy(task, result, 'Feedback');
+        this.monitorService.taskCompleted(task.id, true, decision);
       } else {
-        throw new Error(result.error);
+        await this.discardIfFinal(job, result);
+        throw new Error(this.describeFailure(result));
       }
     } catch (error) {
       this.logger.error(`Feedback processing for ${task.identifier} failed:`, error);
 
       // Update status to Failed
-      await this.linearService.updateStatus(task.id, TaskStatus.FAILED);
-      await this.linearService.addComment(
+      await this.taskSources.updateStatus(task.id, TaskStatus.FAILED);
+      await this.taskSources.addComment(
         task.id,
         `❌ Feedback processing failed\n\n**Error:**\n\`\`\`\n${error.message}\n\`\`\`\n\n**Retry attempts:** ${job.attemptsMade}/${job.opts.attempts}`,
       );
@@ -178,6 +385,8 @@ export class TaskProcessor {
       this.monitorService.taskCompleted(task.id, false, error.message);
 
       throw error; // Trigger retry
+    } finally {
+      await releaseClaim();
     }
   }
 
@@ -186,82 +395,72 @@ export class TaskProcessor {
     const { task, sessionId } = job.data;
     this.logger.log(`Processing retry for task: ${task.identifier}`);
 
-    // Notify monitor: retry processing started
-    this.monitorService.taskStarted(
-      task.id,
-      task.identifier,
-      `[Retry] ${task.title}`,
-    );
+    // Hold the task claim while running (heartbeat keeps the lease alive)
+    const releaseClaim = await this.taskClaims.hold(task.id);
 
     try {
+      // Notify monitor: retry processing started
+      this.monitorService.taskStarted(
+        task.id,
+        task.identifier,
+        `[Retry] ${task.title}`,
+        'retry',
+      );
+
       // Post comment with system marker
-      await this.linearService.addComment(
+      await this.taskSources.addComment(
         task.id,
         `🔄 Retrying task execution...`,
       );
 
-      // Prepare retry prompt
-      const retryPrompt =
-        `This is a task retry. Please review the previous execution history, identify the cause of failure, and attempt to complete the task again.\n\n` +
-        `Pay special attention to:\n` +
-        `1. Review the previous error messages\n` +
-        `2. Analyze the failure cause\n` +
-        `3. Take a different approach or fix the error\n` +
-        `4. Re-execute the task`;
-
-      // Execute retry with Claude using session resumption
-      const result = await this.claudeService.executeFeedback(
-        task,
-        retryPrompt,
-        sessionId,
-        {
-          onProgress: (step: string, progress: number) => {
-            this.monitorService.taskProgress(task.id, step, progress);
-          },
-          onSessionId: (newSessionId: string) => {
-            this.monitorService.taskSessionId(task.id, newSessionId);
-          },
+      const callbacks: ProgressCallback = {
+        onProgress: (step: string, progress: number) => {
+          this.monitorService.taskProgress(task.id, step, progress);
         },
-      );
-
-      if (result.success) {
-        // Check if review is needed
-        const needsReview = this.checkNeedsReview(task);
-
-        if (needsReview) {
-          // Needs review: update status to In Review
-          await this.linearService.updateStatus(task.id, TaskStatus.IN_REVIEW);
-          await this.linearService.addComment(
-            task.id,
-            `👀 **Retry completed, awaiting human review**\n\n` +
-              `Please check the execution result, then:\n` +
-              `- ✅ Approved → Change status to "Done"\n` +
-              `- 🔄 Needs changes → Reply with feedback, change status back to "Todo"\n` +
-              `- ❌ Cancel task → Change status to "Canceled"`,
-          );
-          this.logger.log(
-            `Retry task ${task.identifier} completed, waiting for review`,
-          );
-        } else {
-          // No review needed: complete directly
-          await this.linearService.updateStatus(task.id, TaskStatus.DONE);
-          await this.linearService.addComment(
-            task.id,
-            `✅ **Retry successful! Task completed**`,
-          );
-          this.logger.log(`Retry task ${task.identifier} completed successfully`);
-        }
-
-        this.monitorService.taskCompleted(task.id, true);
+        onSessionId: (newSessionId: string) => {
+          this.monitorService.taskSessionId(task.id, newSessionId);
+        },
+        onModel: (model: string, reason: string, profile: string) => {
+          this.monitorService.taskModel(task.id, model, reason, profile);
+        },
+        onPromptVersions: (versions: PromptVersions) => {
+          this.monitorService.taskPromptVersions(task.id, versions);
+        },
+      };
+
+      // A failed planning run plans again from scratch; resuming it with the
+      // retry prompt would implement the task instead
+      const planning =
+        this.taskPlans.isAwaitingApproval(task.id) || (await this.taskPlans.shouldPlan(task));
+
+      // Execute retry with Claude using session resumption (retry prompt template)
+      const result = planning
+        ? await this.claudeService.planTask(task, callbacks)
+        : await this.claudeService.executeRetry(task, sessionId, callbacks);
+
+      // Persist tokens and cost of this run
+      await this.recordUsage(task, 'retry', result);
+
+      // Cancelled runs are neither failed nor retried
+      const cancelled = result.cancelled ?? (await this.getCancellation(task));
+      if (cancelled) {
+        await this.completeCancelled(task, cancelled);
+      } else if (result.success) {
+        // Decide between review and done
+        const decision = planning
+          ? await this.proposePlan(task, result)
+          : await this.applyReviewPolicy(task, result, 'Retry');
+        this.monitorService.taskCompleted(task.id, true, decision);
       } else {
-        throw new Error(result.error);
+        await this.discardIfFinal(job, result);
+        throw new Error(this.describeFailure(result));
       }
     } catch (error) {
       this.logger.error(`Retry for ${task.identifier} failed:`, error);
 
       // Update status to Failed
-      await this.linearService.updateStatus(task.id, TaskStatus.FAILED);
-      await this.linearService.addComment(
+      await this.taskSources.updateStatus(task.id, TaskStatus.FAILED);
+      await this.taskSources.addComment(
         task.id,
         `❌ Retry failed\n\n**Error:**\n\`\`\`\n${error.message}\n\`\`\`\n\n**Retry attempts:** ${job.attemptsMade}/${job.opts.attempts}`,
       );
@@ -270,6 +469,8 @@ export class TaskProcessor {
       this.monitorService.taskCompleted(task.id, false, error.message);
 
       throw error; // Trigger retry
+    } finally {
+      await releaseClaim();
     }
   }
 }
@@ -0,0 +1,193 @@
+import { Injectable, Logger, Inject, forwardRef } from '@nestjs/common';
+import { TaskSourceService, isSystemComment } from '../task-source/task-source.service';
+import { SessionStoreService, TaskOverrides } from '../monitor/session-store.service';
+import { MonitorService } from '../monitor/monitor.service';
+import { TaskClaimService } from '../claim/task-claim.service';
+import { ModelRoutingService } from '../policy/model-routing.service';
+import { TaskPlanService } from '../plan/task-plan.service';
+import { LinearComment, LinearTask, TaskStatus } from '../linear/linear.types';
+import { ReviewPollerService } from './review-poller.service';
+import { CommentCommand, parseBudgetUsd, parseCommentCommand } from './comment-commands';
+
+const MODELS: TaskOverrides['model'][] = ['opus', 'sonnet', 'haiku'];
+
+/**
+ * Runs slash-commands posted as task comments (/retry, /cancel, /status, ...)
+ * and replies with an acknowledgement. Shared by the pollers and the webhook.
+ */
+@Injectable()
+export class CommentCommandService {
+  private readonly logger = new Logger(CommentCommandService.name);
+
+  constructor(
+    private taskSources: TaskSourceService,
+    private sessionStore: SessionStoreService,
+    private taskClaims: TaskClaimService,
+    private modelRouting: ModelRoutingService,
+    private taskPlans: TaskPlanService,
+    @Inject(forwardRef(() => MonitorService))
+    private monitorService: MonitorService,
+    @Inject(forwardRef(() => ReviewPollerService))
+    private reviewPoller: ReviewPollerService,
+  ) {}
+
+  /**
+   * Run the task's unprocessed commands, oldest first.
+   * Commands are marked processed before they run, so a failing command is
+   * reported once and never handled as feedback.
+   * Returns the number of commands run.
+   */
+  async processCommands(task: LinearTask, comments?: LinearComment[]): Promise<number> {
+    const allComments = comments ?? (await this.taskSources.getComments(task.id));
+    const commands = allComments
+      .filter((c) => !isSystemComment(c) && !this.sessionStore.isCommentProcessed(c.id))
+      .map((comment) => ({ comment, command: parseCommentCommand(comment.body) }))
+      .filter((c): c is { comment: LinearComment; command: CommentCommand } => !!c.command)
+      .sort((a, b) => new Date(a.comment.createdAt).getTime() - new Date(b.comment.createdAt).getTime());
+
+    for (const { comment, command } of commands) {
+      this.sessionStore.markCommentProcessed(comment.id, task.id);
+      this.logger.log(`Running /${command.name} on ${task.identifier} (by ${comment.user?.name || 'unknown'})`);
+
+      let reply: string | null;
+      try {
+        reply = await this.runCommand(task, command, comment, allComments);
+      } catch (error) {
+        reply = `⚠️ \`/${command.name}\` failed: ${error.message}`;
+      }
+      if (reply) {
+        await this.taskSources.addComment(task.id, reply);
+      }
+    }
+
+    return commands.length;
+  }
+
+  /**
+   * Run one command. Returns the acknowledgement, or null if the operation
+   * already posts its own comment.
+   */
+  private async runCommand(
+    task: LinearTask,
+    command: CommentCommand,
+    comment: LinearComment,
+    comments: LinearComment[],
+  ): Promise<string | null> {
+    switch (command.name) {
+      case 'retry': {
+        const result = await this.monitorService.retryTask(task.id);
+        return `✅ \`/retry\`: ${result.message}`;
+      }
+
+      case 'cancel': {
+        const result = await this.monitorService.cancelTask(
+          task.id,
+          `Cancelled by ${comment.user?.name || 'a user'} with /cancel`,
+        );
+        return `✅ \`/cancel\`: ${result.message}`;
+      }
+
+      case 'approve':
+        if (task.state?.name !== TaskStatus.IN_REVIEW) {
+          return `⚠️ \`/approve\`: nothing to approve, ${task.identifier} is ${task.state?.name || 'not in review'}`;
+        }
+        // Counted like any other approval; the review poller replies
+        await this.reviewPoller.recordApprovals(task, comments, [comment]);
+        return null;
+
+      case 'model':
+        return this.setModel(task, command.args);
+
+      case 'budget':
+        return this.setBudget(task, command.args);
+
+      case 'rerun-from-scratch':
+        return this.rerunFromScratch(task);
+
+      case 'status':
+        return this.describeStatus(task);
+    }
+  }
+
+  /**
+   * `/model opus|sonnet|haiku`, or `/model default` to use model routing again
+   */
+  private setModel(task: LinearTask, args: string): string {
+    const overrides = this.sessionStore.getOverrides(task.id);
+    const value = args.toLowerCase();
+
+    if (value === 'default') {
+      this.sessionStore.saveOverrides(task.id, task.identifier, task.title, { ...overrides, model: undefined });
+      const routed = this.modelRouting.resolve(task, 'execute');
+      return `🧠 \`/model\`: ${task.identifier} runs on ${routed.model} (${routed.reason}) from the next run`;
+    }
+
+    const model = MODELS.find((m) => m === value);
+    if (!model) {
+      return `⚠️ \`/model\`: expected one of ${MODELS.join(', ')} or default`;
+    }
+
+    this.sessionStore.saveOverrides(task.id, task.identifier, task.title, { ...overrides, model });
+    return `🧠 \`/model\`: ${task.identifier} runs on ${model} from the next run`;
+  }
+
+  /**
+   * `/budget 5usd` caps the cost of each run, `/budget default` removes the override
+   */
+  private setBudget(task: LinearTask, args: string): string {
+    const overrides = this.sessionStore.getOverrides(task.id);
+
+    if (args.toLowerCase() === 'default') {
+      this.sessionStore.saveOverrides(task.id, task.identifier, task.title, { ...overrides, maxCostUsd: undefined });
+      return `💰 \`/budget\`: ${task.identifier} uses the Task Budgets settings from the next run`;
+    }
+
+    const maxCostUsd = parseBudgetUsd(args);
+    if (!maxCostUsd) {
+      return `⚠️ \`/budget\`: expected an amount in USD, e.g. \`/budget 5usd\``;
+    }
+
+    this.sessionStore.saveOverrides(task.id, task.identifier, task.title, { ...overrides, maxCostUsd });
+    return `💰 \`/budget\`: runs of ${task.identifier} are capped at $${maxCostUsd.toFixed(2)} from the next run`;
+  }
+
+  /**
+   * Move the task back to Todo; it is picked up as a new execution with a
+   * fresh session instead of resuming the previous one. A plan not approved
+   * yet is dropped, so a Plan First task is planned again.
+   */
+  private async rerunFromScratch(task: LinearTask): Promise<string> {
+    const claim = await this.taskClaims.getClaim(task.id);
+    if (claim) {
+      return `⚠️ \`/rerun-from-scratch\`: ${task.identifier} is running on ${claim.holder}, \`/cancel\` it first`;
+    }
+
+    await this.taskPlans.reset(task);
+    await this.taskSources.updateStatus(task.id, TaskStatus.TODO);
+    return `🔁 \`/rerun-from-scratch\`: ${task.identifier} moved back to Todo and will start over in a new session`;
+  }
+
+  /**
+   * `/status`: state, execution, run history, spend and overrides
+   */
+  private async describeStatus(task: LinearTask): Promise<string> {
+    const claim = await this.taskClaims.getClaim(task.id);
+    const runs = this.sessionStore.getRuns(task.id);
+    const latest = runs[runs.length - 1];
+    const spend = runs.reduce((sum, run) => sum + (run.costUsd ?? 0), 0);
+    const overrides = this.sessionStore.getOverrides(task.id);
+    const routed = this.modelRouting.resolve(task, 'execute');
+
+    return [
+      `📊 **Status of ${task.identifier}**`,
+      '',
+      `- Status: ${task.state?.name || 'unknown'}`,
+      `- Execution: ${claim ? `running on ${claim.holder}` : 'idle'}`,
+      `- Runs: ${runs.length}${latest ? ` (latest: ${latest.runKind}, ${latest.outcome})` : ''}`,
+      `- Spend: $${spend.toFixed(2)}`,
+      `- Model: ${overrides.model ? `${overrides.model} (set with /model)` : `${routed.model} (${routed.reason})`}`,
+      `- Profile: ${routed.profile ? `${routed.profile.name} (${routed.profile.reason})` : 'Anthropic settings'}`,
+      `- Cost cap: ${overrides.maxCostUsd ? `$${overrides.maxCostUsd.toFixed(2)} per run (set with /budget)` : 'Task Budgets settings'}`,
+    ].join('\n');
+  }
+}
@@ -0,0 +1,38 @@
+import { isCommentCommand, parseBudgetUsd, parseCommentCommand } from './comment-commands';
+
+describe('parseCommentCommand', () => {
+  it('parses a command and its arguments', () => {
+    expect(parseCommentCommand('/model opus')).toEqual({ name: 'model', args: 'opus' });
+    expect(parseCommentCommand('  /Budget   $5.50  \n')).toEqual({ name: 'budget', args: '$5.50' });
+    expect(parseCommentCommand('/rerun-from-scratch')).toEqual({ name: 'rerun-from-scratch', args: '' });
+  });
+
+  it('leaves ordinary comments alone', () => {
+    expect(parseCommentCommand('Please /retry after the deploy')).toBeNull();
+    expect(parseCommentCommand('/retry\nand use the staging database')).toBeNull();
+    expect(parseCommentCommand('/deploy now')).toBeNull();
+    expect(parseCommentCommand('/retrying')).toBeNull();
+  });
+
+  it('recognises the same comments as isCommentCommand', () => {
+    for (const body of ['/status', '/cancel too slow', 'status?', '/statuses']) {
+      expect(isCommentCommand(body)).toBe(parseCommentCommand(body) !== null);
+    }
+  });
+});
+
+describe('parseBudgetUsd', () => {
+  it('reads amounts in dollars', () => {
+    expect(parseBudgetUsd('5')).toBe(5);
+    expect(parseBudgetUsd('$2.50')).toBe(2.5);
+    expect(parseBudgetUsd('10 USD')).toBe(10);
+    expect(parseBudgetUsd('5.50$')).toBe(5.5);
+  });
+
+  it('rejects zero and amounts that are not dollars', () => {
+    expect(parseBudgetUsd('0')).toBeNull();
+    expect(parseBudgetUsd('-5')).toBeNull();
+    expect(parseBudgetUsd('5 EUR')).toBeNull();
+    expect(parseBudgetUsd('')).toBeNull();
+  });
+});
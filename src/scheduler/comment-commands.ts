@@ -0,0 +1,53 @@
+/**
+ * Slash-commands that control the agent from task comments.
+ * A command is a comment consisting of a single command line.
+ */
+export type CommentCommandName =
+  | 'retry'
+  | 'cancel'
+  | 'approve'
+  | 'model'
+  | 'budget'
+  | 'rerun-from-scratch'
+  | 'status';
+
+export interface CommentCommand {
+  name: CommentCommandName;
+  args: string;
+}
+
+const COMMAND_PATTERN =
+  /^\s*\/(retry|cancel|approve|model|budget|rerun-from-scratch|status)(?:[ \t]+([^\n]*?))?\s*$/i;
+
+// "5", "5usd", "5 USD", "$5", "5.50$"
+const BUDGET_PATTERN = /^\$?\s*(\d+(?:\.\d+)?)\s*(?:usd|\$)?$/i;
+
+/**
+ * Parse a comment body into a command, or null for ordinary comments
+ */
+export function parseCommentCommand(body: string): CommentCommand | null {
+  const match = COMMAND_PATTERN.exec(body);
+  if (!match) {
+    return null;
+  }
+  return {
+    name: match[1].toLowerCase() as CommentCommandName,
+    args: (match[2] || '').trim(),
+  };
+}
+
+/**
+ * Whether a comment is a command (commands are never passed on as feedback)
+ */
+export function isCommentCommand(body: string): boolean {
+  return COMMAND_PATTERN.test(body);
+}
+
+/**
+ * Parse the amount of `/budget` in USD, or null if invalid
+ */
+export function parseBudgetUsd(args: string): number | null {
+  const match = BUDGET_PATTERN.exec(args.trim());
+  const amount = match ? Number(match[1]) : NaN;
+  return amount > 0 ? amount : null;
+}
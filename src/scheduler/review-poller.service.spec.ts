@@ -0,0 +1,107 @@
+import { ReviewPollerService } from './review-poller.service';
+import { LinearComment, LinearTask } from '../linear/linear.types';
+
+// The agent SDK is an ES module; feedback is only queued here
+jest.mock('../claude/claude.service', () => ({ ClaudeService: class {} }));
+
+describe('ReviewPollerService', () => {
+  const task: LinearTask = {
+    id: 'issue-1',
+    identifier: 'ENG-1',
+    title: 'Fix login redirect',
+    createdAt: new Date('2024-01-01'),
+  };
+  const comment = (id: string, body: string, minutesAgo: number): LinearComment => ({
+    id,
+    body,
+    createdAt: new Date(Date.now() - minutesAgo * 60 * 1000),
+    user: { id: 'user-1', name: 'Alice' },
+  });
+
+  let comments: LinearComment[];
+  let jobs: { id: string; name: string; state: string; data: { task: LinearTask }; remove: jest.Mock }[];
+  let taskQueue: { getJobs: jest.Mock; getJob: jest.Mock; add: jest.Mock };
+  let service: ReviewPollerService;
+
+  const addJob = (id: string, state: string) => {
+    const job = { id, name: 'feedback', state, data: { task }, remove: jest.fn().mockResolvedValue(undefined) };
+    jobs.push(job);
+    return job;
+  };
+
+  beforeEach(() => {
+    comments = [];
+    jobs = [];
+    taskQueue = {
+      getJobs: jest.fn((states: string[]) => Promise.resolve(jobs.filter((job) => states.includes(job.state)))),
+      getJob: jest.fn().mockResolvedValue(null),
+      add: jest.fn().mockResolvedValue(undefined),
+    };
+    const taskSources = { getComments: () => Promise.resolve(comments) };
+    const sessionStore = {
+      getSessionByTaskId: () => ({ sessionId: 'session-1' }),
+      isCommentProcessed: () => false,
+    };
+    const settingsProvider = { getFeedbackQuietPeriodMs: () => 60 * 1000 };
+    const configService = { get: () => undefined };
+    const reviewPolicy = { isApproval: () => false };
+    const commentCommands = { processCommands: () => Promise.resolve(false) };
+    const unused = {} as never;
+
+    service = new ReviewPollerService(
+      taskSources as never,
+      configService as never,
+      sessionStore as never,
+      settingsProvider as never,
+      unused,
+      unused,
+      reviewPolicy as never,
+      unused,
+      taskQueue as never,
+      commentCommands as never,
+    );
+  });
+
+  it('merges new comments into one feedback job that waits out the quiet period', async () => {
+    comments = [comment('comment-2', 'Also the logout page', 0.5), comment('comment-1', 'Use a 302', 5)];
+
+    await expect(service.processReviewTask(task)).resolves.toBe(true);
+
+    const [name, data, opts] = taskQueue.add.mock.calls[0];
+    expect(name).toBe('feedback');
+    expect(data).toMatchObject({
+      feedback: 'Use a 302\n\n---\n\nAlso the logout page',
+      commentIds: ['comment-2', 'comment-1'],
+      sessionId: 'session-1',
+    });
+    expect(opts.delay).toBeGreaterThan(25 * 1000);
+    expect(opts.delay).toBeLessThanOrEqual(30 * 1000);
+  });
+
+  it('replaces a waiting feedback job that holds fewer comments', async () => {
+    const waiting = addJob('feedback:issue-1:older', 'delayed');
+    comments = [comment('comment-1', 'Use a 302', 5)];
+
+    await expect(service.processReviewTask(task)).resolves.toBe(true);
+
+    expect(waiting.remove).toHaveBeenCalled();
+    expect(taskQueue.add).toHaveBeenCalled();
+  });
+
+  it('leaves new comments to a feedback run that is active', async () => {
+    addJob('feedback:issue-1:running', 'active');
+    comments = [comment('comment-1', 'Use a 302', 5)];
+
+    await expect(service.processReviewTask(task)).resolves.toBe(false);
+    expect(taskQueue.add).not.toHaveBeenCalled();
+  });
+
+  it('leaves new comments to a waiting job that starts before it is replaced', async () => {
+    const waiting = addJob('feedback:issue-1:older', 'waiting');
+    waiting.remove.mockRejectedValue(new Error('Could not remove job'));
+    comments = [comment('comment-1', 'Use a 302', 5)];
+
+    await expect(service.processReviewTask(task)).resolves.toBe(false);
+    expect(taskQueue.add).not.toHaveBeenCalled();
+  });
+});
@@ -1,25 +1,76 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { Cron } from '@nestjs/schedule';
+import { Injectable, Logger, OnModuleInit, Inject, forwardRef } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
 import { InjectQueue } from '@nestjs/bull';
-import { Queue } from 'bull';
+import { Job, JobStatus, Queue } from 'bull';
 import { ConfigService } from '@nestjs/config';
-import { LinearService } from '../linear/linear.service';
+import { TaskSourceService, isSystemComment } from '../task-source/task-source.service';
 import { SessionStoreService } from '../monitor/session-store.service';
-import { TaskStatus } from '../linear/linear.types';
+import { LinearComment, LinearTask, TaskStatus } from '../linear/linear.types';
+import { SettingsProviderService } from '../settings/settings-provider.service';
+import { SettingsService } from '../settings/settings.service';
+import { ReviewPolicyService } from '../policy/review-policy.service';
+import { TaskPlanService } from '../plan/task-plan.service';
+import { addUniqueJob, feedbackJobId, mergeFeedback } from '../queue/task-jobs';
+import { FeedbackJob } from '../queue/task.interface';
+import { CommentCommandService } from './comment-command.service';
+import { isCommentCommand } from './comment-commands';
+
+const POLL_TIMEOUT_NAME = 'review-poller';
 
 @Injectable()
-export class ReviewPollerService {
+export class ReviewPollerService implements OnModuleInit {
   private readonly logger = new Logger(ReviewPollerService.name);
   private isPolling = false;
+  private interval = 0; // Interval the pending poll was scheduled with
 
   constructor(
-    private linearService: LinearService,
+    private taskSources: TaskSourceService,
     private configService: ConfigService,
     private sessionStore: SessionStoreService,
+    private settingsProvider: SettingsProviderService,
+    private settingsService: SettingsService,
+    private schedulerRegistry: SchedulerRegistry,
+    private reviewPolicy: ReviewPolicyService,
+    private taskPlans: TaskPlanService,
     @InjectQueue('task-queue') private taskQueue: Queue,
+    @Inject(forwardRef(() => CommentCommandService))
+    private commentCommands: CommentCommandService,
   ) {}
 
-  @Cron('*/30 * * * * *') // Every 30 seconds
+  onModuleInit() {
+    this.scheduleNextPoll();
+    this.settingsService.onChange(() => this.onSettingsChanged());
+  }
+
+  /**
+   * Schedule the next poll. The interval is re-read every time so switching
+   * webhooks on or off in Settings takes effect without a restart.
+   */
+  private scheduleNextPoll() {
+    const interval = this.settingsProvider.getPollingInterval();
+    this.interval = interval;
+
+    if (this.schedulerRegistry.doesExist('timeout', POLL_TIMEOUT_NAME)) {
+      this.schedulerRegistry.deleteTimeout(POLL_TIMEOUT_NAME);
+    }
+
+    const timeout = setTimeout(async () => {
+      await this.pollReviewTasks();
+      this.scheduleNextPoll();
+    }, interval);
+    this.schedulerRegistry.addTimeout(POLL_TIMEOUT_NAME, timeout);
+  }
+
+  /**
+   * Saving or clearing the webhook secret changes the interval: the pending
+   * poll is rescheduled instead of waiting out the previous interval
+   */
+  private onSettingsChanged() {
+    if (this.settingsProvider.getPollingInterval() !== this.interval) {
+      this.scheduleNextPoll();
+    }
+  }
+
   async pollReviewTasks() {
     // Prevent overlapping execution
     if (this.isPolling) {
@@ -32,66 +83,18 @@ export class ReviewPollerService {
 
     try {
       // Get all "In Review" tasks
-      const tasks = await this.linearService.getTasksByStatus(TaskStatus.IN_REVIEW);
+      const tasks = await this.taskSources.getTasksByStatus(TaskStatus.IN_REVIEW);
       this.logger.debug(`Found ${tasks.length} tasks in "In Review" status`);
 
       for (const task of tasks) {
-        // Get session ID from SQLite
-        const session = this.sessionStore.getSessionByTaskId(task.id);
-        if (!session?.sessionId) {
-          this.logger.warn(`No session ID found for task ${task.identifier}, skipping`);
-          continue;
-        }
-
-        // Get comments for this task
-        const comments = await this.linearService.getComments(task.id);
-
-        // Filter: exclude system comments (by checking if comment starts with 🤖)
-        // Filter: exclude already processed comments
-        const newUserComments = comments.filter(
-          (c) =>
-            !c.body.startsWith('🤖 \n') &&
-            !this.sessionStore.isCommentProcessed(c.id),
-        );
+        await this.processReviewTask(task);
+      }
 
-        if (newUserComments.length === 0) {
-          this.logger.debug(`No new user comments for task ${task.identifier}`);
-          continue;
+      // Running and failed tasks only take comment commands
+      for (const status of [TaskStatus.IN_PROGRESS, TaskStatus.FAILED]) {
+        for (const task of await this.taskSources.getTasksByStatus(status)) {
+          await this.commentCommands.processCommands(task);
         }
-
-        this.logger.log(
-          `Found ${newUserComments.length} new user comment(s) for task ${task.identifier}`,
-        );
-
-        // Merge all unprocessed comments into one feedback
-        const feedback = newUserComments.map((c) => c.body).join('\n\n---\n\n');
-        const commentIds = newUserComments.map((c) => c.id);
-
-        // Add to queue with feedback job type
-        const timeout = this.configService.get<number>('app.taskTimeout');
-        await this.taskQueue.add(
-          'feedback',
-          {
-            task,
-            feedback,
-            commentIds,
-            sessionId: session.sessionId,
-          },
-          {
-            attempts: 3,
-            backoff: {
-              type: 'exponential',
-              delay: 5000,
-            },
-            timeout: timeout,
-            removeOnComplete: true,
-            removeOnFail: false,
-          },
-        );
-
-        this.logger.log(
-          `Feedback job for task ${task.identifier} added to queue (session: ${session.sessionId})`,
-        );
       }
     } catch (error) {
       this.logger.error('Review polling failed:', error);
@@ -100,6 +103,197 @@ export class ReviewPollerService {
     }
   }
 
+  /**
+   * Collect new user comments on an "In Review" task and enqueue them as feedback.
+   * Comment commands run first and are never part of the feedback.
+   * Shared by the poller and the Linear webhook handler.
+   */
+  async processReviewTask(task: LinearTask): Promise<boolean> {
+    // Get comments for this task
+    const comments = await this.taskSources.getComments(task.id);
+
+    // A command may have moved the task out of review (/cancel, /approve, ...)
+    if (await this.commentCommands.processCommands(task, comments)) {
+      const current = await this.taskSources.getTask(task.id);
+      if (current?.state?.name !== TaskStatus.IN_REVIEW) {
+        return true;
+      }
+    }
+
+    // Get session ID from SQLite
+    const session = this.sessionStore.getSessionByTaskId(task.id);
+    if (!session?.sessionId) {
+      this.logger.warn(`No session ID found for task ${task.identifier}, skipping`);
+      return false;
+    }
+
+    const newUserComments = this.filterNewUserComments(comments);
+
+    if (newUserComments.length === 0) {
+      this.logger.debug(`No new user comments for task ${task.identifier}`);
+      return false;
+    }
+
+    this.logger.log(
+      `Found ${newUserComments.length} new user comment(s) for task ${task.identifier}`,
+    );
+
+    // Plain approvals are counted against the review policy instead of
+    // being sent to the agent as feedback
+    if (newUserComments.every((c) => this.reviewPolicy.isApproval(c.body))) {
+      await this.recordApprovals(task, comments, newUserComments);
+      return true;
+    }
+
+    // A running feedback run picks new comments up as a follow-up turn
+    const activeJobs = await this.findFeedbackJobs(task.id, ['active']);
+    if (activeJobs.length > 0) {
+      this.logger.log(`Feedback for ${task.identifier} is running, comments will follow up`);
+      return false;
+    }
+
+    // Merge all unprocessed comments into one feedback
+    const feedback = mergeFeedback(newUserComments);
+    const commentIds = newUserComments.map((c) => c.id);
+    const jobId = feedbackJobId(task.id, commentIds);
+
+    // Debounce: start once no comment has arrived for the quiet period.
+    // A job still waiting holds fewer comments, so it is replaced.
+    const lastCommentAt = Math.max(...newUserComments.map((c) => new Date(c.createdAt).getTime()));
+    const delay = Math.max(0, lastCommentAt + this.settingsProvider.getFeedbackQuietPeriodMs() - Date.now());
+    for (const job of await this.findFeedbackJobs(task.id, ['waiting', 'delayed'])) {
+      if (job.id !== jobId) {
+        this.logger.log(`Replacing feedback job ${job.id} of ${task.identifier} (new comments)`);
+        try {
+          await job.remove();
+        } catch (error) {
+          // Started since it was listed (an active job cannot be removed)
+          this.logger.log(`Feedback for ${task.identifier} started meanwhile, comments will follow up: ${error.message}`);
+          return false;
+        }
+      }
+    }
+
+    // Add to queue with feedback job type; the same comments are only queued once
+    const timeout = this.configService.get<number>('app.taskTimeout');
+    const added = await addUniqueJob(
+      this.taskQueue,
+      'feedback',
+      {
+        task,
+        feedback,
+        commentIds,
+        sessionId: session.sessionId,
+      },
+      {
+        jobId,
+        delay,
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 5000,
+        },
+        timeout: timeout,
+        removeOnComplete: true,
+        removeOnFail: false,
+      },
+    );
+    if (!added) {
+      return false;
+    }
+
+    this.logger.log(
+      `Feedback job for task ${task.identifier} added to queue (session: ${session.sessionId}, starts in ${Math.round(delay / 1000)}s)`,
+    );
+    return true;
+  }
+
+  /**
+   * New human comments of a task that have not been handled yet.
+   * Also used to deliver comments posted during a feedback run as follow-ups.
+   */
+  async getNewUserComments(taskId: string): Promise<LinearComment[]> {
+    return this.filterNewUserComments(await this.taskSources.getComments(taskId));
+  }
+
+  /**
+   * Exclude system comments, commands and already processed comments
+   */
+  private filterNewUserComments(comments: LinearComment[]): LinearComment[] {
+    return comments.filter(
+      (c) =>
+        !isSystemComment(c) &&
+        !isCommentCommand(c.body) &&
+        !this.sessionStore.isCommentProcessed(c.id),
+    );
+  }
+
+  /**
+   * Feedback jobs of a task in the given states
+   */
+  private async findFeedbackJobs(taskId: string, states: JobStatus[]): Promise<Job<FeedbackJob>[]> {
+    const jobs: Job<FeedbackJob>[] = await this.taskQueue.getJobs(states);
+    return jobs.filter((job) => job?.name === 'feedback' && job.data.task.id === taskId);
+  }
+
+  /**
+   * Count distinct approvers since the task entered review and close the
+   * task once the review policy's required approvals are reached.
+   * A plan awaiting approval is approved by the first approval instead.
+   */
+  async recordApprovals(
+    task: LinearTask,
+    comments: LinearComment[],
+    newApprovals: LinearComment[],
+  ): Promise<void> {
+    if (this.taskPlans.isAwaitingApproval(task.id)) {
+      this.sessionStore.markCommentsProcessed(
+        newApprovals.map((c) => c.id),
+        task.id,
+      );
+      await this.taskPlans.approve(task, newApprovals[0]?.user?.name || 'a reviewer');
+      return;
+    }
+
+    const decision = this.sessionStore.getReviewDecision(task.id);
+    const required = Math.max(decision?.approvalsRequired ?? 1, 1);
+    const since = decision ? new Date(decision.decidedAt).getTime() : 0;
+
+    const approvers = new Set(
+      comments
+        .filter(
+          (c) =>
+            !isSystemComment(c) &&
+            this.reviewPolicy.isApproval(c.body) &&
+            new Date(c.createdAt).getTime() >= since,
+        )
+        .map((c) => c.user?.id || c.user?.name || c.id),
+    );
+
+    this.sessionStore.markCommentsProcessed(
+      newApprovals.map((c) => c.id),
+      task.id,
+    );
+
+    if (approvers.size >= required) {
+      await this.taskSources.updateStatus(task.id, TaskStatus.DONE);
+      await this.taskSources.addComment(
+        task.id,
+        `✅ Approved (${approvers.size}/${required}), task completed`,
+      );
+      this.logger.log(`Task ${task.identifier} approved by ${approvers.size} reviewer(s)`);
+      return;
+    }
+
+    await this.taskSources.addComment(
+      task.id,
+      `👍 Approval recorded (${approvers.size}/${required}), waiting for another reviewer`,
+    );
+    this.logger.log(
+      `Task ${task.identifier} has ${approvers.size}/${required} approvals`,
+    );
+  }
+
   /**
    * Get polling status
    */
@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { BullModule } from '@nestjs/bull';
 import { TaskPollerService } from './task-poller.service';
 import { ReviewPollerService } from './review-poller.service';
+import { CommentCommandService } from './comment-command.service';
 import { MonitorModule } from '../monitor/monitor.module';
 
 @Module({
@@ -11,7 +12,7 @@ import { MonitorModule } from '../monitor/monitor.module';
     }),
     MonitorModule,
   ],
-  providers: [TaskPollerService, ReviewPollerService],
-  exports: [TaskPollerService, ReviewPollerService],
+  providers: [TaskPollerService, ReviewPollerService, CommentCommandService],
+  exports: [TaskPollerService, ReviewPollerService, CommentCommandService],
 })
 export class SchedulerModule {}
@@ -0,0 +1,30 @@
+import { describeDependencies, getPendingDependencies, hasPendingDependencies } from './task-dependencies';
+import { LinearIssueRef, TaskStatus } from '../linear/linear.types';
+
+describe('task dependencies', () => {
+  const issue = (identifier: string, state?: string): LinearIssueRef => ({
+    id: identifier.toLowerCase(),
+    identifier,
+    title: `Issue ${identifier}`,
+    state,
+  });
+
+  it('waits on blockers and sub-issues that are not Done or Canceled', () => {
+    const pending = getPendingDependencies({
+      blockedBy: [issue('ENG-1', TaskStatus.IN_PROGRESS), issue('ENG-2', TaskStatus.DONE)],
+      children: [issue('ENG-3', TaskStatus.CANCELED), issue('ENG-4')],
+    });
+
+    expect(pending.blockedBy.map((i) => i.identifier)).toEqual(['ENG-1']);
+    expect(pending.subIssues.map((i) => i.identifier)).toEqual(['ENG-4']);
+    expect(hasPendingDependencies(pending)).toBe(true);
+    expect(describeDependencies(pending)).toBe('ENG-1 (blocked by), ENG-4 (sub-issue)');
+  });
+
+  it('has nothing pending once every dependency is finished', () => {
+    const pending = getPendingDependencies({ blockedBy: [issue('ENG-2', TaskStatus.DONE)], children: [] });
+
+    expect(hasPendingDependencies(pending)).toBe(false);
+    expect(describeDependencies(pending)).toBe('');
+  });
+});
@@ -0,0 +1,40 @@
+import { LinearIssueRef, LinearTaskDependencies, TaskStatus } from '../linear/linear.types';
+
+/**
+ * Unfinished issues a task waits on before it may run
+ */
+export interface TaskDependencies {
+  blockedBy: LinearIssueRef[]; // "Blocked by" relations
+  subIssues: LinearIssueRef[]; // A parent runs after its sub-issues
+}
+
+// A canceled issue is no longer worked on, so it does not hold others up
+const FINISHED_STATES: string[] = [TaskStatus.DONE, TaskStatus.CANCELED];
+
+function isFinished(issue: LinearIssueRef): boolean {
+  return !!issue.state && FINISHED_STATES.includes(issue.state);
+}
+
+/**
+ * Blockers and sub-issues of a task that are not finished yet
+ */
+export function getPendingDependencies(links: LinearTaskDependencies): TaskDependencies {
+  return {
+    blockedBy: links.blockedBy.filter((issue) => !isFinished(issue)),
+    subIssues: links.children.filter((issue) => !isFinished(issue)),
+  };
+}
+
+export function hasPendingDependencies(dependencies: TaskDependencies): boolean {
+  return dependencies.blockedBy.length > 0 || dependencies.subIssues.length > 0;
+}
+
+/**
+ * Short description for logs, e.g. "ENG-1 (blocked by), ENG-5 (sub-issue)"
+ */
+export function describeDependencies(dependencies: TaskDependencies): string {
+  return [
+    ...dependencies.blockedBy.map((issue) => `${issue.identifier} (blocked by)`),
+    ...dependencies.subIssues.map((issue) => `${issue.identifier} (sub-issue)`),
+  ].join(', ');
+}
@@ -1,23 +1,75 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { Cron } from '@nestjs/schedule';
+import { Injectable, Logger, OnModuleInit, Inject, forwardRef } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
 import { InjectQueue } from '@nestjs/bull';
 import { Queue } from 'bull';
 import { ConfigService } from '@nestjs/config';
-import { LinearService } from '../linear/linear.service';
-import { TaskStatus } from '../linear/linear.types';
+import { TaskSourceService } from '../task-source/task-source.service';
+import { LinearTask, LinearTaskDependencies, TaskStatus } from '../linear/linear.types';
+import { SettingsProviderService } from '../settings/settings-provider.service';
+import { SettingsService } from '../settings/settings.service';
+import { TaskClaimService } from '../claim/task-claim.service';
+import { addUniqueJob, executeJobId, isJobPending } from '../queue/task-jobs';
+import { MonitorService } from '../monitor/monitor.service';
+import {
+  describeDependencies,
+  getPendingDependencies,
+  hasPendingDependencies,
+} from './task-dependencies';
+
+const POLL_TIMEOUT_NAME = 'task-poller';
 
 @Injectable()
-export class TaskPollerService {
+export class TaskPollerService implements OnModuleInit {
   private readonly logger = new Logger(TaskPollerService.name);
   private isPolling = false;
+  private interval = 0; // Interval the pending poll was scheduled with
 
   constructor(
-    private linearService: LinearService,
+    private taskSources: TaskSourceService,
     private configService: ConfigService,
+    private settingsProvider: SettingsProviderService,
+    private settingsService: SettingsService,
+    private schedulerRegistry: SchedulerRegistry,
+    private taskClaims: TaskClaimService,
+    @Inject(forwardRef(() => MonitorService))
+    private monitorService: MonitorService,
     @InjectQueue('task-queue') private taskQueue: Queue,
   ) {}
 
-  @Cron('*/30 * * * * *') // Every 30 seconds
+  onModuleInit() {
+    this.scheduleNextPoll();
+    this.settingsService.onChange(() => this.onSettingsChanged());
+  }
+
+  /**
+   * Schedule the next poll. The interval is re-read every time so switching
+   * webhooks on or off in Settings takes effect without a restart.
+   */
+  private scheduleNextPoll() {
+    const interval = this.settingsProvider.getPollingInterval();
+    this.interval = interval;
+
+    if (this.schedulerRegistry.doesExist('timeout', POLL_TIMEOUT_NAME)) {
+      this.schedulerRegistry.deleteTimeout(POLL_TIMEOUT_NAME);
+    }
+
+    const timeout = setTimeout(async () => {
+      await this.pollTasks();
+      this.scheduleNextPoll();
+    }, interval);
+    this.schedulerRegistry.addTimeout(POLL_TIMEOUT_NAME, timeout);
+  }
+
+  /**
+   * Saving or clearing the webhook secret changes the interval: the pending
+   * poll is rescheduled instead of waiting out the previous interval
+   */
+  private onSettingsChanged() {
+    if (this.settingsProvider.getPollingInterval() !== this.interval) {
+      this.scheduleNextPoll();
+    }
+  }
+
   async pollTasks() {
     // Prevent overlapping execution
     if (this.isPolling) {
@@ -29,38 +81,12 @@ export class TaskPollerService {
     this.logger.log('Starting task polling...');
 
     try {
-      const tasks = await this.linearService.getTasksByStatus(TaskStatus.TODO);
+      const tasks = await this.taskSources.getTasksByStatus(TaskStatus.TODO);
       this.logger.log(`Found ${tasks.length} tasks in Todo status`);
+      this.monitorService.retainWaiting(tasks.map((task) => task.id));
 
       for (const task of tasks) {
-        // Lock the task first
-        const locked = await this.linearService.lockTask(task.id);
-
-        if (!locked) {
-          this.logger.warn(`Task ${task.identifier} already locked, skipping`);
-          continue;
-        }
-
-        // Add initial comment (prefixed with 🤖 to identify system comments)
-        await this.linearService.addComment(
-          task.id,
-          '🤖 \nTask received by system, execution starting soon...',
-        );
-
-        // Add to queue
-        const timeout = this.configService.get<number>('app.taskTimeout');
-        await this.taskQueue.add('execute', task, {
-          attempts: 3,
-          backoff: {
-            type: 'exponential',
-            delay: 5000,
-          },
-          timeout: timeout,
-          removeOnComplete: true,
-          removeOnFail: false,
-        });
-
-        this.logger.log(`Task ${task.identifier} added to queue`);
+        await this.enqueueTask(task);
       }
     } catch (error) {
       this.logger.error('Polling failed:', error);
@@ -69,6 +95,123 @@ export class TaskPollerService {
     }
   }
 
+  /**
+   * Claim a Todo task, lock it and add it to the execution queue.
+   * Shared by the poller and the Linear webhook handler.
+   *
+   * Tasks blocked by unfinished issues, and parents with unfinished
+   * sub-issues, wait (shown on the dashboard) until those are finished.
+   * The Redis claim makes pickup exclusive across replicas; the lock re-reads
+   * the task state so a status change since the poll is respected. The claim
+   * only covers pickup: once the job is queued, the unique job ID and the
+   * In Progress state keep the task from being picked up again, and the
+   * processor claims it for the run.
+   */
+  async enqueueTask(task: LinearTask): Promise<boolean> {
+    if (!(await this.isReady(task))) {
+      return false;
+    }
+
+    const lease = await this.taskClaims.acquire(task.id);
+    if (!lease) {
+      this.logger.warn(`Task ${task.identifier} is already claimed, skipping`);
+      return false;
+    }
+
+    try {
+      // Already queued or running (e.g. a webhook and a poll for the same
+      // change): leave its status and comments alone
+      if (await isJobPending(this.taskQueue, executeJobId(task.id))) {
+        this.logger.debug(`Task ${task.identifier} is already queued, skipping`);
+        return false;
+      }
+
+      // Lock the task first
+      const locked = await this.taskSources.lockTask(task.id);
+
+      if (!locked) {
+        this.logger.warn(`Task ${task.identifier} already locked, skipping`);
+        return false;
+      }
+
+      // Add to queue (a task already queued or running is not added twice)
+      const timeout = this.configService.get<number>('app.taskTimeout');
+      const added = await addUniqueJob(this.taskQueue, 'execute', task, {
+        jobId: executeJobId(task.id),
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 5000,
+        },
+        timeout: timeout,
+        removeOnComplete: true,
+        removeOnFail: false,
+      });
+      if (!added) {
+        // Queued by another enqueue since the check above: undo the lock
+        await this.taskSources.updateStatus(task.id, TaskStatus.TODO);
+        return false;
+      }
+
+      // Add initial comment (TaskSourceService adds the system prefix)
+      await this.taskSources.addComment(
+        task.id,
+        'Task received by system, execution starting soon...',
+      );
+    } finally {
+      await this.taskClaims.release(task.id, lease);
+    }
+
+    this.logger.log(`Task ${task.identifier} queued by ${this.taskClaims.workerId}`);
+    return true;
+  }
+
+  /**
+   * Whether the task's blockers and sub-issues are finished. Tasks that are
+   * not are recorded as waiting; the next poll (or enqueueDependents) checks again.
+   */
+  private async isReady(task: LinearTask): Promise<boolean> {
+    let links: LinearTaskDependencies | null = null;
+    try {
+      links = await this.taskSources.getTaskDependencies(task.id);
+    } catch (error) {
+      // Dependencies are a scheduling hint; an unreachable source does not hold the task
+      this.logger.warn(`Could not check dependencies of ${task.identifier}: ${error.message}`);
+    }
+
+    const dependencies = links ? getPendingDependencies(links) : null;
+    if (!dependencies || !hasPendingDependencies(dependencies)) {
+      this.monitorService.taskReady(task.id);
+      return true;
+    }
+
+    if (this.monitorService.taskWaiting(task, dependencies)) {
+      this.logger.log(`Task ${task.identifier} waits on ${describeDependencies(dependencies)}`);
+    }
+    return false;
+  }
+
+  /**
+   * Enqueue the waiting tasks that depend on an issue that was just finished,
+   * if nothing else holds them back
+   */
+  async enqueueDependents(issueId: string): Promise<void> {
+    const dependents = this.monitorService
+      .getWaitingTasks()
+      .filter((waiting) =>
+        [...waiting.blockedBy, ...waiting.subIssues].some((issue) => issue.id === issueId),
+      );
+
+    for (const waiting of dependents) {
+      const task = await this.taskSources.getTask(waiting.taskId);
+      if (task?.state?.name === TaskStatus.TODO) {
+        await this.enqueueTask(task);
+      } else {
+        this.monitorService.taskReady(waiting.taskId);
+      }
+    }
+  }
+
   /**
    * Get polling status
    */
@@ -0,0 +1,39 @@
+import { IsEnum, IsNotEmpty, IsNumber, IsOptional, IsString } from 'class-validator';
+
+export class AnthropicProfileDto {
+  @IsNotEmpty()
+  @IsString()
+  name: string;
+
+  @IsNotEmpty()
+  @IsEnum(['api_key', 'login'], {
+    message: 'authMethod must be either api_key or login',
+  })
+  authMethod: 'api_key' | 'login';
+
+  // Default model of tasks using the profile
+  @IsOptional()
+  @IsEnum(['opus', 'sonnet', 'haiku'], {
+    message: 'model must be either opus, sonnet, or haiku',
+  })
+  model?: 'opus' | 'sonnet' | 'haiku';
+
+  // For 'login' mode
+  @IsOptional()
+  @IsString()
+  apiKey?: string;
+
+  // For 'api_key' mode (proxy)
+  @IsOptional()
+  @IsString()
+  baseUrl?: string;
+
+  @IsOptional()
+  @IsString()
+  authToken?: string;
+
+  // Cost cap of each run using the profile
+  @IsOptional()
+  @IsNumber()
+  maxCostUsd?: number;
+}
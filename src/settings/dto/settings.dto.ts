@@ -1,4 +1,4 @@
-import { IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { IsEnum, IsNotEmpty, IsNumberString, IsOptional, IsString } from 'class-validator';
 
 export class SettingsDto {
   // Model settings
@@ -27,6 +27,11 @@ export class SettingsDto {
   @IsString()
   anthropicAuthToken?: string;
 
+  // JSON list of profiles to fall back to on overload and rate limits
+  @IsOptional()
+  @IsString()
+  fallbackProfiles?: string;
+
   // Linear settings
   @IsOptional()
   @IsString()
@@ -40,8 +45,55 @@ export class SettingsDto {
   @IsString()
   linearWorkspace?: string;
 
+  @IsOptional()
+  @IsString()
+  linearWebhookSecret?: string;
+
   // Workspace settings
   @IsOptional()
   @IsString()
   workspacePath?: string;
+
+  @IsOptional()
+  @IsEnum(['off', 'per_task'], {
+    message: 'worktreeMode must be either off or per_task',
+  })
+  worktreeMode?: 'off' | 'per_task';
+
+  // Task source settings
+  @IsOptional()
+  @IsString()
+  taskSources?: string;
+
+  @IsOptional()
+  @IsString()
+  localTasksPath?: string;
+
+  // Policy settings (JSON)
+  @IsOptional()
+  @IsString()
+  reviewPolicy?: string;
+
+  @IsOptional()
+  @IsString()
+  taskBudgets?: string;
+
+  @IsOptional()
+  @IsString()
+  modelRouting?: string;
+
+  // Seconds without a new comment before feedback is processed
+  @IsOptional()
+  @IsNumberString()
+  feedbackQuietPeriod?: string;
+
+  // Approximate tokens of task context in the first prompt
+  @IsOptional()
+  @IsNumberString()
+  contextTokenBudget?: string;
+
+  // Label of tasks that are planned into sub-issues first
+  @IsOptional()
+  @IsString()
+  planFirstLabel?: string;
 }
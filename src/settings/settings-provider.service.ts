@@ -57,6 +57,10 @@ export class SettingsProviderService {
     return this.getValue('anthropicAuthToken', 'anthropic.authToken');
   }
 
+  getFallbackProfiles(): string | undefined {
+    return this.getValue('fallbackProfiles', 'anthropic.fallbackProfiles');
+  }
+
   // ==================== Linear Settings ====================
 
   getLinearApiKey(): string | undefined {
@@ -71,9 +75,88 @@ export class SettingsProviderService {
     return this.getValue('linearWorkspace', 'linear.workspace');
   }
 
+  getLinearWebhookSecret(): string | undefined {
+    return this.getValue('linearWebhookSecret', 'linear.webhookSecret');
+  }
+
+  // ==================== Polling Settings ====================
+
+  /**
+   * Polling interval in ms. Once a webhook secret is configured, webhooks
+   * drive task pickup and polling drops to a low-frequency reconciliation.
+   */
+  getPollingInterval(): number {
+    if (this.getLinearWebhookSecret()) {
+      return this.configService.get<number>('app.reconciliationInterval') || 600000;
+    }
+    return this.configService.get<number>('app.pollingInterval') || 30000;
+  }
+
   // ==================== Workspace Settings ====================
 
   getWorkspacePath(): string | undefined {
     return this.getValue('workspacePath', 'anthropic.workspacePath');
   }
+
+  /**
+   * Whether each task runs in its own git worktree under the workspace
+   */
+  useWorktrees(): boolean {
+    return this.getValue('worktreeMode', 'anthropic.worktreeMode') === 'per_task';
+  }
+
+  // ==================== Task Source Settings ====================
+
+  /**
+   * Enabled task source names, e.g. ['linear', 'local']
+   */
+  getEnabledTaskSources(): string[] {
+    const value = this.getValue('taskSources', 'sources.enabled') || 'linear';
+    return value
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean);
+  }
+
+  getLocalTasksPath(): string | undefined {
+    return this.getValue('localTasksPath', 'sources.localTasksPath');
+  }
+
+  getReviewPolicy(): string | undefined {
+    return this.getValue('reviewPolicy', 'policy.review');
+  }
+
+  getTaskBudgets(): string | undefined {
+    return this.getValue('taskBudgets', 'policy.budgets');
+  }
+
+  getModelRouting(): string | undefined {
+    return this.getValue('modelRouting', 'policy.modelRouting');
+  }
+
+  /**
+   * Quiet period in ms: feedback starts once no new comment arrived for this long
+   */
+  getFeedbackQuietPeriodMs(): number {
+    const seconds = parseInt(
+      this.getValue('feedbackQuietPeriod', 'policy.feedbackQuietPeriod') || '60',
+      10,
+    );
+    return Number.isNaN(seconds) || seconds < 0 ? 60000 : seconds * 1000;
+  }
+
+  /**
+   * Approximate token budget of the task context in the first prompt
+   */
+  getContextTokenBudget(): number {
+    const tokens = parseInt(this.getValue('contextTokenBudget', 'policy.contextTokenBudget') || '8000', 10);
+    return Number.isNaN(tokens) || tokens <= 0 ? 8000 : tokens;
+  }
+
+  /**
+   * Label of tasks that are broken down into sub-issues before they run
+   */
+  getPlanFirstLabel(): string {
+    return this.getValue('planFirstLabel', 'policy.planFirstLabel') || 'plan-first';
+  }
 }
@@ -1,7 +1,28 @@
-import { Controller, Get, Post, Body, Logger } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { SettingsService } from './settings.service';
 import { SettingsDto } from './dto/settings.dto';
+import { AnthropicProfileDto } from './dto/anthropic-profile.dto';
+import { ReviewPolicyService } from '../policy/review-policy.service';
+import { TaskBudgetService } from '../policy/task-budget.service';
+import { ModelRoutingService } from '../policy/model-routing.service';
+import {
+  StoredAnthropicProfile,
+  mapProfileCredentials,
+  parseAnthropicProfile,
+  parseFallbackProfiles,
+} from '../claude/anthropic-profiles';
 
 // Mapping of setting keys to their config paths for .env fallback
 const settingsConfig: Record<string, string> = {
@@ -10,10 +31,21 @@ const settingsConfig: Record<string, string> = {
   anthropicApiKey: 'anthropic.apiKey',
   anthropicBaseUrl: 'anthropic.baseUrl',
   anthropicAuthToken: 'anthropic.authToken',
+  fallbackProfiles: 'anthropic.fallbackProfiles',
   linearApiKey: 'linear.apiKey',
   linearTeamId: 'linear.teamId',
   linearWorkspace: 'linear.workspace',
+  linearWebhookSecret: 'linear.webhookSecret',
   workspacePath: 'anthropic.workspacePath',
+  worktreeMode: 'anthropic.worktreeMode',
+  taskSources: 'sources.enabled',
+  localTasksPath: 'sources.localTasksPath',
+  reviewPolicy: 'policy.review',
+  taskBudgets: 'policy.budgets',
+  modelRouting: 'policy.modelRouting',
+  feedbackQuietPeriod: 'policy.feedbackQuietPeriod',
+  contextTokenBudget: 'policy.contextTokenBudget',
+  planFirstLabel: 'policy.planFirstLabel',
 };
 
 // List of sensitive fields that should be masked
@@ -21,6 +53,7 @@ const sensitiveFields = [
   'anthropicApiKey',
   'anthropicAuthToken',
   'linearApiKey',
+  'linearWebhookSecret',
 ];
 
 @Controller('api/settings')
@@ -30,6 +63,9 @@ export class SettingsController {
   constructor(
     private readonly settingsService: SettingsService,
     private readonly configService: ConfigService,
+    private readonly reviewPolicy: ReviewPolicyService,
+    private readonly taskBudgets: TaskBudgetService,
+    private readonly modelRouting: ModelRoutingService,
   ) {}
 
   /**
@@ -48,6 +84,47 @@ export class SettingsController {
     return !!value && value.includes('***');
   }
 
+  /**
+   * Mask the credentials inside the fallback profiles JSON
+   */
+  private maskFallbackProfiles(value: string): string {
+    try {
+      const profiles = parseFallbackProfiles(JSON.parse(value));
+      return JSON.stringify(mapProfileCredentials(profiles, (v) => this.maskSensitiveValue(v)));
+    } catch {
+      return value;
+    }
+  }
+
+  /**
+   * Put back the stored credentials of fallback profiles saved with masked
+   * values (matched by profile name)
+   */
+  private restoreFallbackCredentials(value: string): string {
+    const profiles = parseFallbackProfiles(JSON.parse(value));
+    const stored =
+      this.settingsService.getSetting('fallbackProfiles') ||
+      this.configService.get<string>(settingsConfig.fallbackProfiles);
+
+    let storedProfiles: ReturnType<typeof parseFallbackProfiles> = [];
+    try {
+      storedProfiles = stored ? parseFallbackProfiles(JSON.parse(stored)) : [];
+    } catch {
+      // Nothing to restore from
+    }
+
+    return JSON.stringify(
+      mapProfileCredentials(profiles, (v, field, profile) => {
+        if (!this.isMaskedValue(v)) return v;
+        const previous = storedProfiles.find((p) => p.name === profile.name)?.[field];
+        if (!previous) {
+          throw new Error(`Enter the ${field} of profile "${profile.name}" again`);
+        }
+        return previous;
+      }),
+    );
+  }
+
   /**
    * GET /api/settings
    * Returns current settings from database, or defaults from .env if not set
@@ -72,6 +149,10 @@ export class SettingsController {
       result[key] = value;
     }
 
+    if (result.fallbackProfiles) {
+      result.fallbackProfiles = this.maskFallbackProfiles(result.fallbackProfiles);
+    }
+
     this.logger.debug(`Retrieved settings: ${JSON.stringify(Object.keys(result))}`);
 
     return {
@@ -80,10 +161,21 @@ export class SettingsController {
       anthropicApiKey: result.anthropicApiKey,
       anthropicBaseUrl: result.anthropicBaseUrl,
       anthropicAuthToken: result.anthropicAuthToken,
+      fallbackProfiles: result.fallbackProfiles,
       linearApiKey: result.linearApiKey,
       linearTeamId: result.linearTeamId,
       linearWorkspace: result.linearWorkspace,
+      linearWebhookSecret: result.linearWebhookSecret,
       workspacePath: result.workspacePath,
+      worktreeMode: (result.worktreeMode as 'off' | 'per_task') || 'off',
+      taskSources: result.taskSources,
+      localTasksPath: result.localTasksPath,
+      reviewPolicy: result.reviewPolicy,
+      taskBudgets: result.taskBudgets,
+      modelRouting: result.modelRouting,
+      feedbackQuietPeriod: result.feedbackQuietPeriod,
+      contextTokenBudget: result.contextTokenBudget,
+      planFirstLabel: result.planFirstLabel,
     };
   }
 
@@ -114,9 +206,128 @@ export class SettingsController {
       settingsToSave[key] = value as string;
     }
 
+    // Reject policies that would silently fall back to the default
+    if (settingsToSave.fallbackProfiles) {
+      try {
+        settingsToSave.fallbackProfiles = this.restoreFallbackCredentials(
+          settingsToSave.fallbackProfiles,
+        );
+      } catch (error) {
+        throw new BadRequestException(`Invalid fallback profiles: ${error.message}`);
+      }
+    }
+    if (settingsToSave.reviewPolicy) {
+      try {
+        this.reviewPolicy.parsePolicy(JSON.parse(settingsToSave.reviewPolicy));
+      } catch (error) {
+        throw new BadRequestException(`Invalid review policy: ${error.message}`);
+      }
+    }
+    if (settingsToSave.taskBudgets) {
+      try {
+        this.taskBudgets.parseConfig(JSON.parse(settingsToSave.taskBudgets));
+      } catch (error) {
+        throw new BadRequestException(`Invalid task budgets: ${error.message}`);
+      }
+    }
+    if (settingsToSave.modelRouting) {
+      try {
+        this.modelRouting.parseRouting(JSON.parse(settingsToSave.modelRouting));
+      } catch (error) {
+        throw new BadRequestException(`Invalid model routing: ${error.message}`);
+      }
+    }
+
     this.settingsService.setSettings(settingsToSave);
 
     // Return the current settings (with masked values)
     return this.getSettings();
   }
+
+  // ==================== Anthropic Profiles ====================
+
+  private maskProfile(profile: StoredAnthropicProfile): StoredAnthropicProfile {
+    return mapProfileCredentials([profile], (v) => this.maskSensitiveValue(v))[0];
+  }
+
+  /**
+   * Validate a submitted profile; masked credentials keep the stored ones
+   */
+  private toProfile(dto: AnthropicProfileDto, existing?: StoredAnthropicProfile) {
+    try {
+      const profile = parseAnthropicProfile(dto);
+      return mapProfileCredentials([profile], (v, field) =>
+        this.isMaskedValue(v) ? existing?.[field] || '' : v,
+      )[0];
+    } catch (error) {
+      throw new BadRequestException(`Invalid profile: ${error.message}`);
+    }
+  }
+
+  private getExistingProfile(id: string): StoredAnthropicProfile {
+    const profile = this.settingsService.getProfile(Number(id));
+    if (!profile) {
+      throw new NotFoundException(`Profile ${id} not found`);
+    }
+    return profile;
+  }
+
+  /**
+   * Save a profile, reporting a taken name as a bad request
+   */
+  private saveProfile(save: () => StoredAnthropicProfile | null, name: string) {
+    try {
+      return save();
+    } catch (error) {
+      if (String(error.message).includes('UNIQUE')) {
+        throw new BadRequestException(`A profile named "${name}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * GET /api/settings/profiles
+   * Named Anthropic profiles with masked credentials
+   */
+  @Get('profiles')
+  getProfiles(): StoredAnthropicProfile[] {
+    return this.settingsService.getProfiles().map((profile) => this.maskProfile(profile));
+  }
+
+  /**
+   * POST /api/settings/profiles
+   */
+  @Post('profiles')
+  createProfile(@Body() dto: AnthropicProfileDto): StoredAnthropicProfile {
+    const profile = this.toProfile(dto);
+    const created = this.saveProfile(() => this.settingsService.createProfile(profile), profile.name);
+    return this.maskProfile(created!);
+  }
+
+  /**
+   * PUT /api/settings/profiles/:id
+   * Replace a profile; masked credentials are left unchanged
+   */
+  @Put('profiles/:id')
+  updateProfile(@Param('id') id: string, @Body() dto: AnthropicProfileDto): StoredAnthropicProfile {
+    const existing = this.getExistingProfile(id);
+    const profile = this.toProfile(dto, existing);
+    const updated = this.saveProfile(
+      () => this.settingsService.updateProfile(existing.id, profile),
+      profile.name,
+    );
+    return this.maskProfile(updated!);
+  }
+
+  /**
+   * DELETE /api/settings/profiles/:id
+   */
+  @Delete('profiles/:id')
+  deleteProfile(@Param('id') id: string): { success: boolean } {
+    const existing = this.getExistingProfile(id);
+    this.settingsService.deleteProfile(existing.id);
+    this.logger.log(`Deleted Anthropic profile ${existing.name}`);
+    return { success: true };
+  }
 }
@@ -1,11 +1,31 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import Database from 'better-sqlite3';
 import * as path from 'path';
+import { AnthropicProfile, StoredAnthropicProfile } from '../claude/anthropic-profiles';
+
+interface ProfileRow {
+  id: number;
+  name: string;
+  authMethod: AnthropicProfile['authMethod'];
+  model: AnthropicProfile['model'] | null;
+  apiKey: string | null;
+  baseUrl: string | null;
+  authToken: string | null;
+  maxCostUsd: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const PROFILE_COLUMNS = `
+  id, name, auth_method as authMethod, model, api_key as apiKey, base_url as baseUrl,
+  auth_token as authToken, max_cost_usd as maxCostUsd, created_at as createdAt, updated_at as updatedAt
+`;
 
 @Injectable()
 export class SettingsService implements OnModuleInit {
   private readonly logger = new Logger(SettingsService.name);
   private db: Database.Database | null = null;
+  private readonly changeListeners: (() => void)[] = [];
 
   onModuleInit() {
     this.ensureDb();
@@ -35,6 +55,20 @@ export class SettingsService implements OnModuleInit {
         created_at TEXT DEFAULT CURRENT_TIMESTAMP,
         updated_at TEXT DEFAULT CURRENT_TIMESTAMP
       );
+
+      -- Named Anthropic endpoints/credentials selected per task
+      CREATE TABLE IF NOT EXISTS anthropic_profiles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL COLLATE NOCASE,
+        auth_method TEXT NOT NULL,
+        model TEXT,
+        api_key TEXT,
+        base_url TEXT,
+        auth_token TEXT,
+        max_cost_usd REAL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
     `);
 
     this.logger.log('Settings database schema initialized');
@@ -106,5 +140,125 @@ export class SettingsService implements OnModuleInit {
 
     transaction();
     this.logger.log(`Batch updated ${Object.keys(settings).length} settings`);
+
+    for (const listener of this.changeListeners) {
+      listener();
+    }
+  }
+
+  /**
+   * Call the listener after every batch of settings saved from the Settings page
+   */
+  onChange(listener: () => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  // ==================== Anthropic Profiles ====================
+
+  private toProfile(row: ProfileRow): StoredAnthropicProfile {
+    return {
+      id: row.id,
+      name: row.name,
+      authMethod: row.authMethod,
+      model: row.model ?? undefined,
+      apiKey: row.apiKey ?? undefined,
+      baseUrl: row.baseUrl ?? undefined,
+      authToken: row.authToken ?? undefined,
+      maxCostUsd: row.maxCostUsd ?? undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  /**
+   * All named Anthropic profiles, by name
+   */
+  getProfiles(): StoredAnthropicProfile[] {
+    const rows = this.ensureDb()
+      .prepare(`SELECT ${PROFILE_COLUMNS} FROM anthropic_profiles ORDER BY name`)
+      .all() as ProfileRow[];
+    return rows.map((row) => this.toProfile(row));
+  }
+
+  /**
+   * Get a profile by ID
+   */
+  getProfile(id: number): StoredAnthropicProfile | null {
+    const row = this.ensureDb()
+      .prepare(`SELECT ${PROFILE_COLUMNS} FROM anthropic_profiles WHERE id = ?`)
+      .get(id) as ProfileRow | undefined;
+    return row ? this.toProfile(row) : null;
+  }
+
+  /**
+   * Get a profile by name (case-insensitive)
+   */
+  getProfileByName(name: string): StoredAnthropicProfile | null {
+    const row = this.ensureDb()
+      .prepare(`SELECT ${PROFILE_COLUMNS} FROM anthropic_profiles WHERE name = ?`)
+      .get(name) as ProfileRow | undefined;
+    return row ? this.toProfile(row) : null;
+  }
+
+  /**
+   * Create a profile. Throws if the name is taken.
+   */
+  createProfile(profile: AnthropicProfile): StoredAnthropicProfile {
+    const result = this.ensureDb()
+      .prepare(`
+        INSERT INTO anthropic_profiles (name, auth_method, model, api_key, base_url, auth_token, max_cost_usd)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        profile.name,
+        profile.authMethod,
+        profile.model ?? null,
+        profile.apiKey ?? null,
+        profile.baseUrl ?? null,
+        profile.authToken ?? null,
+        profile.maxCostUsd ?? null,
+      );
+
+    this.logger.log(`Created Anthropic profile ${profile.name}`);
+    return this.getProfile(Number(result.lastInsertRowid))!;
+  }
+
+  /**
+   * Replace a profile. Returns null if it does not exist.
+   */
+  updateProfile(id: number, profile: AnthropicProfile): StoredAnthropicProfile | null {
+    const result = this.ensureDb()
+      .prepare(`
+        UPDATE anthropic_profiles
+        SET name = ?, auth_method = ?, model = ?, api_key = ?, base_url = ?, auth_token = ?,
+            max_cost_usd = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `)
+      .run(
+        profile.name,
+        profile.authMethod,
+        profile.model ?? null,
+        profile.apiKey ?? null,
+        profile.baseUrl ?? null,
+        profile.authToken ?? null,
+        profile.maxCostUsd ?? null,
+        id,
+      );
+
+    if (result.changes === 0) {
+      return null;
+    }
+    this.logger.log(`Updated Anthropic profile ${profile.name}`);
+    return this.getProfile(id);
+  }
+
+  /**
+   * Delete a profile. Returns false if it does not exist.
+   */
+  deleteProfile(id: number): boolean {
+    const result = this.ensureDb()
+      .prepare(`DELETE FROM anthropic_profiles WHERE id = ?`)
+      .run(id);
+    return result.changes > 0;
   }
 }
@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { stringify } from 'yaml';
+import { LocalTaskSource } from './local-task.source';
+import { TaskStatus } from '../linear/linear.types';
+import { SettingsProviderService } from '../settings/settings-provider.service';
+
+describe('LocalTaskSource', () => {
+  let dir: string;
+  let source: LocalTaskSource;
+
+  const writeTask = (name: string, data: Record<string, unknown>) =>
+    fs.writeFileSync(path.join(dir, name), stringify(data));
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'local-tasks-'));
+    const settingsProvider = {
+      getLocalTasksPath: () => dir,
+    } as unknown as SettingsProviderService;
+    source = new LocalTaskSource(settingsProvider);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('lists the YAML files that have a title as tasks', async () => {
+    writeTask('fix-login.yaml', { title: 'Fix login', labels: ['bug'], priority: 2 });
+    writeTask('docs.yml', { title: 'Write docs', identifier: 'DOC-1', status: TaskStatus.DONE });
+    writeTask('untitled.yaml', { description: 'No title' });
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'title: Not a task');
+
+    const tasks = await source.getAllTasks();
+
+    expect(tasks.map((task) => task.id).sort()).toEqual(['local:docs', 'local:fix-login']);
+    expect(tasks.find((task) => task.id === 'local:fix-login')).toMatchObject({
+      identifier: 'fix-login',
+      title: 'Fix login',
+      priority: 2,
+      state: { name: TaskStatus.TODO },
+      labels: [{ id: 'bug', name: 'bug' }],
+      source: 'local',
+    });
+    expect((await source.getTasksByStatus(TaskStatus.DONE)).map((task) => task.identifier)).toEqual(['DOC-1']);
+  });
+
+  it('does not resolve IDs outside the task directory', async () => {
+    fs.writeFileSync(path.join(os.tmpdir(), 'outside.yaml'), stringify({ title: 'Outside' }));
+    try {
+      await expect(source.getTask(`local:../${path.basename(os.tmpdir())}/outside`)).resolves.toBeNull();
+      await expect(source.getTask('local:')).resolves.toBeNull();
+    } finally {
+      fs.rmSync(path.join(os.tmpdir(), 'outside.yaml'), { force: true });
+    }
+  });
+
+  it('locks Todo tasks only', async () => {
+    writeTask('todo.yaml', { title: 'Todo' });
+    writeTask('running.yaml', { title: 'Running', status: TaskStatus.IN_PROGRESS });
+
+    await expect(source.lockTask('local:todo')).resolves.toBe(true);
+    await expect(source.lockTask('local:todo')).resolves.toBe(false);
+    await expect(source.lockTask('local:running')).resolves.toBe(false);
+    expect((await source.getTask('local:todo'))?.state?.name).toBe(TaskStatus.IN_PROGRESS);
+  });
+
+  it('writes status changes back to the file', async () => {
+    writeTask('task.yaml', { title: 'Task' });
+
+    await expect(source.updateStatus('local:task', TaskStatus.IN_REVIEW)).resolves.toBe(true);
+    await expect(source.updateStatus('local:missing', TaskStatus.IN_REVIEW)).resolves.toBe(false);
+    expect(fs.readFileSync(path.join(dir, 'task.yaml'), 'utf-8')).toContain(`status: ${TaskStatus.IN_REVIEW}`);
+  });
+
+  it('gives comments added at the same time distinct IDs', async () => {
+    writeTask('task.yaml', { title: 'Task' });
+    jest.spyOn(Date, 'now').mockReturnValue(1700000000000);
+
+    await source.addComment('local:task', 'First');
+    await source.addComment('local:task', 'Second');
+    jest.restoreAllMocks();
+
+    const comments = await source.getComments('local:task');
+    expect(comments).toHaveLength(2);
+    expect(new Set(comments.map((comment) => comment.id)).size).toBe(2);
+    expect(comments.every((comment) => comment.fromSystem)).toBe(true);
+  });
+
+  it('reads hand-written comments, newest first', async () => {
+    writeTask('task.yaml', {
+      title: 'Task',
+      comments: [
+        { body: 'Please also update the docs', createdAt: '2024-01-01T10:00:00Z', author: 'alice' },
+        { body: 'Anonymous note', createdAt: '2024-01-02T10:00:00Z' },
+      ],
+    });
+
+    const comments = await source.getComments('local:task');
+
+    expect(comments).toEqual([
+      expect.objectContaining({ id: 'local:task:comment-1', body: 'Anonymous note', user: undefined }),
+      expect.objectContaining({
+        id: 'local:task:comment-0',
+        user: { id: 'alice', name: 'alice' },
+        fromSystem: false,
+      }),
+    ]);
+  });
+});
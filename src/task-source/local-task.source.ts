@@ -0,0 +1,220 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse, stringify } from 'yaml';
+import { LinearTask, LinearComment, TaskStatus } from '../linear/linear.types';
+import { SettingsProviderService } from '../settings/settings-provider.service';
+import { TaskSource } from './task-source.interface';
+
+/**
+ * On-disk shape of a local task file
+ */
+interface LocalTaskFile {
+  identifier?: string;
+  title: string;
+  description?: string;
+  priority?: number;
+  estimate?: number;
+  status?: string;
+  labels?: string[];
+  assignee?: string;
+  project?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  comments?: {
+    id?: string;
+    body: string;
+    createdAt: string;
+    author?: string;
+  }[];
+}
+
+const SOURCE_NAME = 'local';
+const TASK_FILE_PATTERN = /\.ya?ml$/;
+const SYSTEM_AUTHOR = '24hours';
+
+/**
+ * Filesystem task source: one YAML file per task in the configured directory.
+ * Usable offline; status and comments are written back to the same file.
+ */
+@Injectable()
+export class LocalTaskSource implements TaskSource {
+  readonly name = SOURCE_NAME;
+  private readonly logger = new Logger(LocalTaskSource.name);
+
+  constructor(private settingsProvider: SettingsProviderService) {}
+
+  private getTasksDir(): string | undefined {
+    return this.settingsProvider.getLocalTasksPath();
+  }
+
+  isReady(): boolean {
+    const dir = this.getTasksDir();
+    return !!dir && fs.existsSync(dir);
+  }
+
+  /**
+   * Task IDs are `local:<file name without extension>`
+   */
+  private toTaskId(fileName: string): string {
+    return `${SOURCE_NAME}:${fileName.replace(TASK_FILE_PATTERN, '')}`;
+  }
+
+  private resolveFile(taskId: string): string | null {
+    const dir = this.getTasksDir();
+    if (!dir) return null;
+
+    const name = taskId.slice(SOURCE_NAME.length + 1);
+    // Guard against path traversal through crafted IDs
+    if (!name || name !== path.basename(name)) return null;
+
+    for (const ext of ['.yaml', '.yml']) {
+      const file = path.join(dir, `${name}${ext}`);
+      if (fs.existsSync(file)) {
+        return file;
+      }
+    }
+    return null;
+  }
+
+  private readFile(file: string): LocalTaskFile | null {
+    try {
+      return parse(fs.readFileSync(file, 'utf-8')) as LocalTaskFile;
+    } catch (error) {
+      this.logger.error(`Failed to parse local task ${file}:`, error.message);
+      return null;
+    }
+  }
+
+  private writeFile(file: string, data: LocalTaskFile): void {
+    data.updatedAt = new Date().toISOString();
+    fs.writeFileSync(file, stringify(data), 'utf-8');
+  }
+
+  private toTask(taskId: string, data: LocalTaskFile, stat: fs.Stats): LinearTask {
+    const status = data.status || TaskStatus.TODO;
+    return {
+      id: taskId,
+      identifier: data.identifier || taskId.slice(SOURCE_NAME.length + 1),
+      title: data.title,
+      description: data.description,
+      priority: data.priority,
+      estimate: data.estimate,
+      createdAt: data.createdAt ? new Date(data.createdAt) : stat.birthtime,
+      updatedAt: data.updatedAt ? new Date(data.updatedAt) : stat.mtime,
+      state: { id: status, name: status, type: 'local' },
+      labels: (data.labels || []).map((label) => ({ id: label, name: label })),
+      assignee: data.assignee ? { id: data.assignee, name: data.assignee } : undefined,
+      project: data.project ? { id: data.project, name: data.project } : undefined,
+      source: SOURCE_NAME,
+    };
+  }
+
+  async getAllTasks(): Promise<LinearTask[]> {
+    if (!this.isReady()) {
+      return [];
+    }
+
+    const dir = this.getTasksDir() as string;
+    const tasks: LinearTask[] = [];
+
+    for (const fileName of fs.readdirSync(dir)) {
+      if (!TASK_FILE_PATTERN.test(fileName)) continue;
+
+      const file = path.join(dir, fileName);
+      const data = this.readFile(file);
+      if (!data?.title) continue;
+
+      tasks.push(this.toTask(this.toTaskId(fileName), data, fs.statSync(file)));
+    }
+
+    return tasks;
+  }
+
+  async getTasksByStatus(statusName: string): Promise<LinearTask[]> {
+    const tasks = await this.getAllTasks();
+    return tasks.filter((task) => task.state?.name === statusName);
+  }
+
+  async getTask(taskId: string): Promise<LinearTask | null> {
+    const file = this.resolveFile(taskId);
+    if (!file) return null;
+
+    const data = this.readFile(file);
+    return data ? this.toTask(taskId, data, fs.statSync(file)) : null;
+  }
+
+  async lockTask(taskId: string): Promise<boolean> {
+    const file = this.resolveFile(taskId);
+    const data = file ? this.readFile(file) : null;
+    if (!file || !data) {
+      this.logger.warn(`Cannot lock local task ${taskId}: not found`);
+      return false;
+    }
+
+    // Only Todo tasks can be claimed
+    if ((data.status || TaskStatus.TODO) !== TaskStatus.TODO) {
+      return false;
+    }
+
+    data.status = TaskStatus.IN_PROGRESS;
+    this.writeFile(file, data);
+    return true;
+  }
+
+  async updateStatus(taskId: string, statusName: string): Promise<boolean> {
+    const file = this.resolveFile(taskId);
+    const data = file ? this.readFile(file) : null;
+    if (!file || !data) {
+      this.logger.warn(`Cannot update status: local task ${taskId} not found`);
+      return false;
+    }
+
+    data.status = statusName;
+    this.writeFile(file, data);
+    this.logger.log(`Local task ${taskId} status updated to ${statusName}`);
+    return true;
+  }
+
+  async addComment(taskId: string, content: string): Promise<boolean> {
+    const file = this.resolveFile(taskId);
+    const data = file ? this.readFile(file) : null;
+    if (!file || !data) {
+      this.logger.warn(`Cannot add comment: local task ${taskId} not found`);
+      return false;
+    }
+
+    const createdAt = new Date().toISOString();
+    data.comments = [
+      ...(data.comments || []),
+      {
+        id: randomUUID(),
+        body: content,
+        createdAt,
+        author: SYSTEM_AUTHOR,
+      },
+    ];
+    this.writeFile(file, data);
+    return true;
+  }
+
+  async getComments(taskId: string): Promise<LinearComment[]> {
+    const file = this.resolveFile(taskId);
+    const data = file ? this.readFile(file) : null;
+    if (!data) return [];
+
+    return (data.comments || [])
+      .map((comment, index) => ({
+        // Hand-written comments may omit an ID; fall back to their position
+        id: comment.id || `${taskId}:comment-${index}`,
+        body: comment.body,
+        createdAt: new Date(comment.createdAt),
+        user: comment.author
+          ? { id: comment.author, name: comment.author }
+          : undefined,
+        fromSystem: comment.author ? comment.author === SYSTEM_AUTHOR : undefined,
+      }))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+}
@@ -0,0 +1,80 @@
+import {
+  LinearTask,
+  LinearComment,
+  LinearTaskContext,
+  LinearTaskDependencies,
+  LinearAttachment,
+  LinearIssueRef,
+  NewSubIssue,
+} from '../linear/linear.types';
+
+/**
+ * A backend that tasks are pulled from and reported back to.
+ *
+ * LinearService is the default implementation. Other sources prefix their
+ * task IDs with `<name>:` (e.g. `local:release-notes`) so TaskSourceService
+ * can route ID-only calls back to the source that owns the task.
+ */
+export interface TaskSource {
+  readonly name: string;
+
+  /**
+   * Whether the source is configured and usable
+   */
+  isReady(): boolean;
+
+  /**
+   * List tasks in a given status (TaskStatus value)
+   */
+  getTasksByStatus(statusName: string): Promise<LinearTask[]>;
+
+  /**
+   * List all tasks (for the dashboard)
+   */
+  getAllTasks(): Promise<LinearTask[]>;
+
+  /**
+   * Get a single task including its current state
+   */
+  getTask(taskId: string): Promise<LinearTask | null>;
+
+  /**
+   * Claim a task for execution by moving it to In Progress
+   */
+  lockTask(taskId: string): Promise<boolean>;
+
+  updateStatus(taskId: string, statusName: string): Promise<boolean>;
+
+  addComment(taskId: string, content: string): Promise<boolean>;
+
+  /**
+   * Get comments, newest first
+   */
+  getComments(taskId: string): Promise<LinearComment[]>;
+
+  /**
+   * Get linked issues, cycle and attachments, for sources that have them
+   */
+  getTaskContext?(taskId: string): Promise<LinearTaskContext | null>;
+
+  /**
+   * Get the issues blocking the task and its sub-issues (cheaper than the context)
+   */
+  getTaskDependencies?(taskId: string): Promise<LinearTaskDependencies | null>;
+
+  /**
+   * Download the task's attached files into a directory (new files only)
+   */
+  downloadAttachments?(taskId: string, dir: string): Promise<string[]>;
+
+  /**
+   * Attach files to the task, returning the ones that were attached
+   */
+  uploadAttachments?(taskId: string, files: string[]): Promise<LinearAttachment[]>;
+
+  /**
+   * Create sub-issues under the task in Backlog, with a label, returning the
+   * ones that were created
+   */
+  createSubIssues?(taskId: string, subIssues: NewSubIssue[], label: string): Promise<LinearIssueRef[]>;
+}
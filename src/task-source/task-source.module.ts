@@ -0,0 +1,10 @@
+import { Module, Global } from '@nestjs/common';
+import { LocalTaskSource } from './local-task.source';
+import { TaskSourceService } from './task-source.service';
+
+@Global()
+@Module({
+  providers: [LocalTaskSource, TaskSourceService],
+  exports: [TaskSourceService],
+})
+export class TaskSourceModule {}
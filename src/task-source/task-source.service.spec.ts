@@ -0,0 +1,20 @@
+import { SYSTEM_COMMENT_PREFIX, isSystemComment } from './task-source.service';
+
+describe('isSystemComment', () => {
+  const comment = (body: string, fromSystem?: boolean) => ({
+    id: 'comment-1',
+    body,
+    createdAt: new Date('2024-01-01'),
+    fromSystem,
+  });
+
+  it('goes by the author when the source knows it', () => {
+    expect(isSystemComment(comment('Task completed', true))).toBe(true);
+    expect(isSystemComment(comment(`${SYSTEM_COMMENT_PREFIX}Quoted from the bot`, false))).toBe(false);
+  });
+
+  it('falls back to the prefix when the source cannot tell', () => {
+    expect(isSystemComment(comment(`${SYSTEM_COMMENT_PREFIX}Task completed`))).toBe(true);
+    expect(isSystemComment(comment('Please also update the docs'))).toBe(false);
+  });
+});
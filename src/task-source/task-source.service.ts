@@ -0,0 +1,200 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { LinearService } from '../linear/linear.service';
+import {
+  LinearTask,
+  LinearComment,
+  LinearTaskContext,
+  LinearTaskDependencies,
+  LinearAttachment,
+  LinearIssueRef,
+  NewSubIssue,
+} from '../linear/linear.types';
+import { SettingsProviderService } from '../settings/settings-provider.service';
+import { LocalTaskSource } from './local-task.source';
+import { TaskSource } from './task-source.interface';
+
+export const DEFAULT_TASK_SOURCE = 'linear';
+
+// Marks comments posted by the system or the agent
+export const SYSTEM_COMMENT_PREFIX = '🤖 \n';
+
+/**
+ * Whether a comment was posted by the system or the agent (never treated as
+ * feedback). Decided by its author; the prefix is only a fallback for
+ * sources that cannot tell.
+ */
+export function isSystemComment(comment: LinearComment): boolean {
+  return comment.fromSystem ?? comment.body.startsWith(SYSTEM_COMMENT_PREFIX);
+}
+
+/**
+ * Routes task operations to the source that owns the task.
+ * Listing calls fan out over every source enabled in Settings.
+ */
+@Injectable()
+export class TaskSourceService {
+  private readonly logger = new Logger(TaskSourceService.name);
+  private readonly sources: Map<string, TaskSource>;
+
+  constructor(
+    private linearService: LinearService,
+    private localTaskSource: LocalTaskSource,
+    private settingsProvider: SettingsProviderService,
+  ) {
+    this.sources = new Map<string, TaskSource>([
+      [linearService.name, linearService],
+      [localTaskSource.name, localTaskSource],
+    ]);
+  }
+
+  /**
+   * Get the sources enabled in Settings
+   */
+  getEnabledSources(): TaskSource[] {
+    return this.settingsProvider
+      .getEnabledTaskSources()
+      .map((name) => {
+        const source = this.sources.get(name);
+        if (!source) {
+          this.logger.warn(`Unknown task source "${name}" in settings, ignoring`);
+        }
+        return source;
+      })
+      .filter((source): source is TaskSource => !!source);
+  }
+
+  /**
+   * Resolve the source that owns a task ID (`<source>:<id>`, Linear otherwise)
+   */
+  getSource(taskId: string): TaskSource {
+    const separator = taskId.indexOf(':');
+    if (separator > 0) {
+      const source = this.sources.get(taskId.slice(0, separator));
+      if (source) {
+        return source;
+      }
+    }
+    return this.sources.get(DEFAULT_TASK_SOURCE) as TaskSource;
+  }
+
+  /**
+   * Get the source name for a task
+   */
+  getSourceName(task: Pick<LinearTask, 'id' | 'source'>): string {
+    return task.source || this.getSource(task.id).name;
+  }
+
+  private withSource(tasks: LinearTask[], source: TaskSource): LinearTask[] {
+    return tasks.map((task) => ({ ...task, source: source.name }));
+  }
+
+  async getTasksByStatus(statusName: string): Promise<LinearTask[]> {
+    const results = await Promise.all(
+      this.getEnabledSources().map(async (source) =>
+        this.withSource(await source.getTasksByStatus(statusName), source),
+      ),
+    );
+    return results.flat();
+  }
+
+  async getAllTasks(): Promise<LinearTask[]> {
+    const results = await Promise.all(
+      this.getEnabledSources().map(async (source) =>
+        this.withSource(await source.getAllTasks(), source),
+      ),
+    );
+    return results.flat();
+  }
+
+  async getTask(taskId: string): Promise<LinearTask | null> {
+    const source = this.getSource(taskId);
+    const task = await source.getTask(taskId);
+    return task ? { ...task, source: source.name } : null;
+  }
+
+  /**
+   * Get a task with its comments (dashboard detail view)
+   */
+  async getTaskWithComments(
+    taskId: string,
+  ): Promise<{ issue: LinearTask; comments: LinearComment[] } | null> {
+    const [issue, comments] = await Promise.all([
+      this.getTask(taskId),
+      this.getComments(taskId),
+    ]);
+    return issue ? { issue, comments } : null;
+  }
+
+  lockTask(taskId: string): Promise<boolean> {
+    return this.getSource(taskId).lockTask(taskId);
+  }
+
+  updateStatus(taskId: string, statusName: string): Promise<boolean> {
+    return this.getSource(taskId).updateStatus(taskId, statusName);
+  }
+
+  /**
+   * Post a system comment (prefixed so it is not read back as feedback)
+   */
+  addComment(taskId: string, content: string): Promise<boolean> {
+    const body = content.startsWith(SYSTEM_COMMENT_PREFIX)
+      ? content
+      : `${SYSTEM_COMMENT_PREFIX}${content}`;
+    return this.getSource(taskId).addComment(taskId, body);
+  }
+
+  getComments(taskId: string): Promise<LinearComment[]> {
+    return this.getSource(taskId).getComments(taskId);
+  }
+
+  /**
+   * Get linked issues, cycle and attachments (null if the source has none)
+   */
+  async getTaskContext(taskId: string): Promise<LinearTaskContext | null> {
+    const source = this.getSource(taskId);
+    return source.getTaskContext ? source.getTaskContext(taskId) : null;
+  }
+
+  /**
+   * Get the issues blocking the task and its sub-issues (null if the source has no links)
+   */
+  async getTaskDependencies(taskId: string): Promise<LinearTaskDependencies | null> {
+    const source = this.getSource(taskId);
+    return source.getTaskDependencies ? source.getTaskDependencies(taskId) : null;
+  }
+
+  /**
+   * Download the task's attached files into a directory (none if the source has no files)
+   */
+  async downloadAttachments(taskId: string, dir: string): Promise<string[]> {
+    const source = this.getSource(taskId);
+    return source.downloadAttachments ? source.downloadAttachments(taskId, dir) : [];
+  }
+
+  /**
+   * Attach files to the task; null if the source cannot store files
+   */
+  async uploadAttachments(taskId: string, files: string[]): Promise<LinearAttachment[] | null> {
+    const source = this.getSource(taskId);
+    return source.uploadAttachments ? source.uploadAttachments(taskId, files) : null;
+  }
+
+  /**
+   * Whether the task's source can create sub-issues
+   */
+  canCreateSubIssues(taskId: string): boolean {
+    return !!this.getSource(taskId).createSubIssues;
+  }
+
+  /**
+   * Create sub-issues under the task; null if the source has no sub-issues
+   */
+  async createSubIssues(
+    taskId: string,
+    subIssues: NewSubIssue[],
+    label: string,
+  ): Promise<LinearIssueRef[] | null> {
+    const source = this.getSource(taskId);
+    return source.createSubIssues ? source.createSubIssues(taskId, subIssues, label) : null;
+  }
+}
@@ -0,0 +1,47 @@
+import {
+  Controller,
+  Post,
+  Body,
+  Headers,
+  Req,
+  HttpCode,
+  ForbiddenException,
+  UnauthorizedException,
+  RawBodyRequest,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { LinearWebhookService } from './linear-webhook.service';
+import { LinearWebhookPayload } from './linear-webhook.types';
+
+@Controller('api/webhooks')
+export class LinearWebhookController {
+  constructor(private webhookService: LinearWebhookService) {}
+
+  /**
+   * Receive Issue and Comment events from Linear
+   */
+  @Post('linear')
+  @HttpCode(200)
+  async handleLinearWebhook(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('linear-signature') signature: string,
+    @Headers('linear-delivery') deliveryId: string | undefined,
+    @Body() payload: LinearWebhookPayload,
+  ) {
+    if (!this.webhookService.isEnabled()) {
+      throw new ForbiddenException('Linear webhook secret is not configured');
+    }
+
+    if (!this.webhookService.verifySignature(req.rawBody, signature)) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    if (!this.webhookService.verifyTimestamp(payload)) {
+      throw new UnauthorizedException('Webhook timestamp outside of allowed window');
+    }
+
+    // Handled from the queue: Linear retries deliveries that are slow to respond
+    await this.webhookService.enqueueEvent(payload, deliveryId);
+    return { received: true };
+  }
+}
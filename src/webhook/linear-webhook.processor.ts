@@ -0,0 +1,18 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Job } from 'bull';
+import { LinearWebhookService } from './linear-webhook.service';
+import { LinearWebhookPayload } from './linear-webhook.types';
+
+/**
+ * Handles webhook events after the delivery was acknowledged, so the Linear
+ * API calls they make can't run into Linear's webhook timeout
+ */
+@Processor('webhook-queue')
+export class LinearWebhookProcessor {
+  constructor(private webhookService: LinearWebhookService) {}
+
+  @Process('event')
+  async handleEvent(job: Job<LinearWebhookPayload>) {
+    await this.webhookService.handleEvent(job.data);
+  }
+}
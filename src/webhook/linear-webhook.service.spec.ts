@@ -0,0 +1,114 @@
+import * as crypto from 'crypto';
+import { LinearWebhookService } from './linear-webhook.service';
+import { LinearWebhookPayload } from './linear-webhook.types';
+import { SettingsProviderService } from '../settings/settings-provider.service';
+import { SYSTEM_COMMENT_PREFIX } from '../task-source/task-source.service';
+
+// The agent SDK is an ES module; it is not needed to verify deliveries
+jest.mock('../claude/claude.service', () => ({ ClaudeService: class {} }));
+
+describe('LinearWebhookService', () => {
+  const SECRET = 'lin_wh_secret';
+  const body = Buffer.from(JSON.stringify({ type: 'Issue', action: 'create' }));
+  const sign = (data: Buffer, secret = SECRET) => crypto.createHmac('sha256', secret).update(data).digest('hex');
+
+  let secret: string | undefined;
+  let linearService: { isViewer: jest.Mock; getIssueWithState: jest.Mock };
+  let service: LinearWebhookService;
+
+  beforeEach(() => {
+    secret = SECRET;
+    const settingsProvider = {
+      getLinearWebhookSecret: () => secret,
+    } as unknown as SettingsProviderService;
+    linearService = {
+      isViewer: jest.fn((userId?: string) => userId === 'viewer-1'),
+      getIssueWithState: jest.fn().mockResolvedValue(null),
+    };
+    const unused = {} as never;
+    service = new LinearWebhookService(
+      linearService as never,
+      settingsProvider,
+      unused,
+      unused,
+      unused,
+      unused,
+      unused,
+      unused,
+    );
+  });
+
+  describe('isEnabled', () => {
+    it('is enabled once a signing secret is set', () => {
+      expect(service.isEnabled()).toBe(true);
+      secret = '';
+      expect(service.isEnabled()).toBe(false);
+    });
+  });
+
+  describe('verifySignature', () => {
+    it('accepts the signature of the raw body', () => {
+      expect(service.verifySignature(body, sign(body))).toBe(true);
+    });
+
+    it('rejects a signature made with another secret', () => {
+      expect(service.verifySignature(body, sign(body, 'other'))).toBe(false);
+    });
+
+    it('rejects a signature of another body', () => {
+      expect(service.verifySignature(body, sign(Buffer.from('{}')))).toBe(false);
+    });
+
+    it('rejects a signature that is not a full hex digest', () => {
+      expect(service.verifySignature(body, sign(body).slice(0, 32))).toBe(false);
+      expect(service.verifySignature(body, 'not hex')).toBe(false);
+    });
+
+    it('rejects a delivery without a body, signature or secret', () => {
+      expect(service.verifySignature(undefined, sign(body))).toBe(false);
+      expect(service.verifySignature(body, undefined)).toBe(false);
+      secret = undefined;
+      expect(service.verifySignature(body, sign(body))).toBe(false);
+    });
+  });
+
+  describe('verifyTimestamp', () => {
+    const payload = (webhookTimestamp: number) => ({ webhookTimestamp }) as LinearWebhookPayload;
+
+    it('accepts deliveries up to a minute old', () => {
+      expect(service.verifyTimestamp(payload(Date.now()))).toBe(true);
+      expect(service.verifyTimestamp(payload(Date.now() - 59 * 1000))).toBe(true);
+    });
+
+    it('rejects older deliveries, ones from the future and ones without a timestamp', () => {
+      expect(service.verifyTimestamp(payload(Date.now() - 61 * 1000))).toBe(false);
+      expect(service.verifyTimestamp(payload(Date.now() + 61 * 1000))).toBe(false);
+      expect(service.verifyTimestamp(payload(0))).toBe(false);
+    });
+  });
+
+  describe('handleEvent', () => {
+    const commentEvent = (data: Record<string, unknown>) =>
+      ({ type: 'Comment', action: 'create', data: { id: 'comment-1', issueId: 'issue-1', ...data } }) as never;
+
+    it("ignores comments by the API key's user", async () => {
+      await service.handleEvent(commentEvent({ body: 'Posted by the agent', userId: 'viewer-1' }));
+      expect(linearService.getIssueWithState).not.toHaveBeenCalled();
+    });
+
+    it('handles comments by other users, even with the system prefix', async () => {
+      await service.handleEvent(commentEvent({ body: `${SYSTEM_COMMENT_PREFIX}Quoted`, userId: 'user-1' }));
+      expect(linearService.getIssueWithState).toHaveBeenCalledWith('issue-1');
+    });
+
+    it('falls back to the prefix while the API key user is unresolved', async () => {
+      linearService.isViewer.mockReturnValue(undefined);
+
+      await service.handleEvent(commentEvent({ body: `${SYSTEM_COMMENT_PREFIX}Task completed`, userId: 'viewer-1' }));
+      expect(linearService.getIssueWithState).not.toHaveBeenCalled();
+
+      await service.handleEvent(commentEvent({ body: 'Please also update the docs', userId: 'user-1' }));
+      expect(linearService.getIssueWithState).toHaveBeenCalledWith('issue-1');
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import * as crypto from 'crypto';
+import { LinearService } from '../linear/linear.service';
+import { TaskStatus } from '../linear/linear.types';
+import { SYSTEM_COMMENT_PREFIX } from '../task-source/task-source.service';
+import { SettingsProviderService } from '../settings/settings-provider.service';
+import { TaskPollerService } from '../scheduler/task-poller.service';
+import { ReviewPollerService } from '../scheduler/review-poller.service';
+import { CommentCommandService } from '../scheduler/comment-command.service';
+import { ClaudeService } from '../claude/claude.service';
+import { WorkspaceService } from '../workspace/workspace.service';
+import {
+  LinearWebhookPayload,
+  LinearIssueWebhookData,
+  LinearCommentWebhookData,
+} from './linear-webhook.types';
+
+// Linear recommends rejecting deliveries older than one minute (replay protection)
+const MAX_WEBHOOK_AGE_MS = 60 * 1000;
+
+// Handled events kept in Redis, so a redelivery of one of them is not handled twice
+const KEEP_HANDLED_EVENTS = 1000;
+
+@Injectable()
+export class LinearWebhookService {
+  private readonly logger = new Logger(LinearWebhookService.name);
+
+  constructor(
+    private linearService: LinearService,
+    private settingsProvider: SettingsProviderService,
+    private taskPoller: TaskPollerService,
+    private reviewPoller: ReviewPollerService,
+    private commentCommands: CommentCommandService,
+    private claudeService: ClaudeService,
+    private workspaces: WorkspaceService,
+    @InjectQueue('webhook-queue') private webhookQueue: Queue,
+  ) {}
+
+  /**
+   * Check whether webhook ingestion is enabled (a signing secret is configured)
+   */
+  isEnabled(): boolean {
+    return !!this.settingsProvider.getLinearWebhookSecret();
+  }
+
+  /**
+   * Verify the `linear-signature` header: HMAC-SHA256 of the raw body, hex encoded
+   */
+  verifySignature(rawBody: Buffer | undefined, signature: string | undefined): boolean {
+    const secret = this.settingsProvider.getLinearWebhookSecret();
+    if (!secret || !rawBody || !signature) {
+      return false;
+    }
+
+    const expected = crypto
+      .createHmac('sha256', secret)
+      .update(rawBody)
+      .digest('hex');
+
+    const expectedBuffer = Buffer.from(expected, 'hex');
+    const signatureBuffer = Buffer.from(signature, 'hex');
+    if (expectedBuffer.length !== signatureBuffer.length) {
+      return false;
+    }
+
+    return crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
+  }
+
+  /**
+   * Reject stale deliveries so a captured payload can't be replayed later
+   */
+  verifyTimestamp(payload: LinearWebhookPayload): boolean {
+    if (!payload.webhookTimestamp) {
+      return false;
+    }
+    return Math.abs(Date.now() - payload.webhookTimestamp) <= MAX_WEBHOOK_AGE_MS;
+  }
+
+  /**
+   * Queue a verified webhook event, so the delivery is acknowledged before
+   * the event is handled. A redelivery (same delivery ID) is not queued again.
+   */
+  async enqueueEvent(payload: LinearWebhookPayload, deliveryId?: string): Promise<void> {
+    await this.webhookQueue.add('event', payload, {
+      jobId: deliveryId ? `webhook:${deliveryId}` : undefined,
+      removeOnComplete: KEEP_HANDLED_EVENTS,
+      removeOnFail: KEEP_HANDLED_EVENTS,
+    });
+  }
+
+  /**
+   * Dispatch a verified webhook event (called from the webhook queue)
+   */
+  async handleEvent(payload: LinearWebhookPayload): Promise<void> {
+    this.logger.log(`Received Linear webhook: ${payload.type} ${payload.action}`);
+
+    switch (payload.type) {
+      case 'Issue':
+        await this.handleIssueEvent(payload);
+        break;
+
+      case 'Comment':
+        await this.handleCommentEvent(payload);
+        break;
+
+      default:
+        this.logger.debug(`Ignoring webhook type: ${payload.type}`);
+    }
+  }
+
+  /**
+   * Issue created or moved into Todo → enqueue an execute job.
+   * Issue moved into Canceled → stop its run if it is running on this worker.
+   * Issue moved into Done or Canceled → remove its worktree and enqueue the
+   * tasks that were waiting on it.
+   */
+  private async handleIssueEvent(payload: LinearWebhookPayload): Promise<void> {
+    if (payload.action !== 'create' && payload.action !== 'update') {
+      return;
+    }
+
+    const data = payload.data as LinearIssueWebhookData;
+
+    // Only react to state transitions on updates (title edits etc. are ignored)
+    if (payload.action === 'update' && !payload.updatedFrom?.stateId) {
+      return;
+    }
+
+    if (payload.action === 'update' && data.state?.name === TaskStatus.CANCELED) {
+      if (this.claudeService.cancel(data.id, 'Task was moved to Canceled in Linear')) {
+        this.logger.log(`Cancelling ${data.identifier} (moved to Canceled)`);
+      }
+    }
+
+    if (
+      payload.action === 'update' &&
+      (data.state?.name === TaskStatus.DONE || data.state?.name === TaskStatus.CANCELED)
+    ) {
+      await this.workspaces.release(data.id, data.state.name);
+      await this.taskPoller.enqueueDependents(data.id);
+      return;
+    }
+
+    if (data.state?.name !== TaskStatus.TODO) {
+      return;
+    }
+
+    const teamId = this.linearService.getTeamId();
+    if (teamId && data.teamId !== teamId) {
+      this.logger.debug(`Ignoring issue ${data.identifier} from another team`);
+      return;
+    }
+
+    const task = await this.linearService.getIssue(data.id);
+    if (!task) {
+      this.logger.warn(`Issue ${data.identifier} from webhook could not be loaded`);
+      return;
+    }
+
+    await this.taskPoller.enqueueTask(task);
+  }
+
+  /**
+   * New comment → run it if it is a command; on a task running on this
+   * worker → deliver it to the agent; on an "In Review" issue → enqueue a
+   * feedback job
+   */
+  private async handleCommentEvent(payload: LinearWebhookPayload): Promise<void> {
+    if (payload.action !== 'create') {
+      return;
+    }
+
+    const data = payload.data as LinearCommentWebhookData;
+    if (!data.issueId) {
+      return;
+    }
+
+    // Our own comments (progress, acknowledgements, the agent's) need no handling
+    if (this.linearService.isViewer(data.userId) ?? data.body?.startsWith(SYSTEM_COMMENT_PREFIX)) {
+      return;
+    }
+
+    const task = await this.linearService.getIssueWithState(data.issueId);
+    if (!task) {
+      return;
+    }
+
+    // Review tasks run commands before collecting feedback
+    if (task.state?.name === TaskStatus.IN_REVIEW) {
+      await this.reviewPoller.processReviewTask(task);
+      return;
+    }
+
+    await this.commentCommands.processCommands(task);
+    // Other workers pick the comment up with their periodic check
+    this.claudeService.deliverComments(data.issueId);
+  }
+}
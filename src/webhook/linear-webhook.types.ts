@@ -0,0 +1,35 @@
+/**
+ * Linear webhook payload
+ * See https://developers.linear.app/docs/graphql/webhooks
+ */
+export interface LinearWebhookPayload {
+  action: 'create' | 'update' | 'remove';
+  type: string;
+  data: Record<string, any>;
+  updatedFrom?: Record<string, any>;
+  url?: string;
+  createdAt: string;
+  organizationId?: string;
+  webhookTimestamp: number;
+  webhookId?: string;
+}
+
+export interface LinearIssueWebhookData {
+  id: string;
+  identifier: string;
+  title: string;
+  teamId: string;
+  stateId: string;
+  state?: {
+    id: string;
+    name: string;
+    type: string;
+  };
+}
+
+export interface LinearCommentWebhookData {
+  id: string;
+  body: string;
+  issueId: string;
+  userId?: string;
+}
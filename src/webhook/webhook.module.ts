@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { LinearWebhookController } from './linear-webhook.controller';
+import { LinearWebhookService } from './linear-webhook.service';
+import { LinearWebhookProcessor } from './linear-webhook.processor';
+import { SchedulerModule } from '../scheduler/scheduler.module';
+
+@Module({
+  imports: [
+    BullModule.registerQueue({
+      name: 'webhook-queue',
+    }),
+    SchedulerModule,
+  ],
+  controllers: [LinearWebhookController],
+  providers: [LinearWebhookService, LinearWebhookProcessor],
+})
+export class WebhookModule {}
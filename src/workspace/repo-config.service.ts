@@ -0,0 +1,77 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LinearTask } from '../linear/linear.types';
+import { WorkspaceService } from './workspace.service';
+import {
+  CLAUDE_MD_FILE,
+  REPO_INSTRUCTIONS_FILE,
+  RepoConfig,
+  parseRepoDefaults,
+  splitFrontMatter,
+} from './repo-config';
+
+/**
+ * Instructions and defaults of the repository a task runs in: CLAUDE.md and
+ * .24hours/instructions.md, whose front-matter declares per-repo defaults.
+ * Files are read on every call, so edits apply to the next run.
+ */
+@Injectable()
+export class RepoConfigService {
+  private readonly logger = new Logger(RepoConfigService.name);
+
+  constructor(private workspaces: WorkspaceService) {}
+
+  /**
+   * Config of the directory the task runs in
+   */
+  forTask(task: LinearTask): RepoConfig {
+    return this.load(this.workspaces.locate(task).cwd);
+  }
+
+  /**
+   * Read the instruction files of a directory; missing files are skipped.
+   * Invalid front-matter is reported in `error` and its defaults ignored.
+   */
+  load(dir?: string): RepoConfig {
+    const config: RepoConfig = { dir, instructions: [] };
+    if (!dir) {
+      return config;
+    }
+
+    const claudeMd = this.readFile(dir, CLAUDE_MD_FILE);
+    if (claudeMd?.trim()) {
+      config.instructions.push({ file: CLAUDE_MD_FILE, content: claudeMd.trim() });
+    }
+
+    const text = this.readFile(dir, REPO_INSTRUCTIONS_FILE);
+    if (text === null) {
+      return config;
+    }
+
+    const { frontMatter, body } = splitFrontMatter(text);
+    if (body.trim()) {
+      config.instructions.push({ file: REPO_INSTRUCTIONS_FILE, content: body.trim() });
+    }
+    if (frontMatter !== null) {
+      try {
+        Object.assign(config, parseRepoDefaults(frontMatter));
+      } catch (error) {
+        this.logger.warn(`Invalid front-matter in ${path.join(dir, REPO_INSTRUCTIONS_FILE)}: ${error.message}`);
+        config.error = `Invalid front-matter in ${REPO_INSTRUCTIONS_FILE}: ${error.message}`;
+      }
+    }
+
+    return config;
+  }
+
+  private readFile(dir: string, file: string): string | null {
+    const filePath = path.join(dir, file);
+    try {
+      return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : null;
+    } catch (error) {
+      this.logger.warn(`Could not read ${filePath}: ${error.message}`);
+      return null;
+    }
+  }
+}
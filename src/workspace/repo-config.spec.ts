@@ -0,0 +1,58 @@
+import { parseRepoDefaults, splitFrontMatter } from './repo-config';
+
+describe('splitFrontMatter', () => {
+  it('splits the front-matter from the body', () => {
+    expect(splitFrontMatter('---\nmodel: opus\n---\n# Instructions\n')).toEqual({
+      frontMatter: 'model: opus',
+      body: '# Instructions\n',
+    });
+  });
+
+  it('accepts Windows line endings and a file that is only front-matter', () => {
+    expect(splitFrontMatter('---\r\nmodel: opus\r\n---')).toEqual({ frontMatter: 'model: opus', body: '' });
+  });
+
+  it('leaves a file without front-matter whole', () => {
+    const text = '# Instructions\n\n---\nmodel: opus\n---\n';
+    expect(splitFrontMatter(text)).toEqual({ frontMatter: null, body: text });
+  });
+});
+
+describe('parseRepoDefaults', () => {
+  it('reads every default', () => {
+    const frontMatter = [
+      'model: sonnet',
+      'allowedTools: [Read, Grep]',
+      'verifyCommand: "  npm test  "',
+      'reviewPolicy:',
+      '  default: auto',
+    ].join('\n');
+    expect(parseRepoDefaults(frontMatter)).toEqual({
+      model: 'sonnet',
+      allowedTools: ['Read', 'Grep'],
+      verifyCommand: 'npm test',
+      reviewPolicy: { default: 'auto' },
+    });
+  });
+
+  it('leaves out defaults that are not declared', () => {
+    expect(parseRepoDefaults('')).toEqual({
+      model: undefined,
+      allowedTools: undefined,
+      verifyCommand: undefined,
+      reviewPolicy: undefined,
+    });
+  });
+
+  it.each([
+    ['- opus', 'front-matter must be a mapping'],
+    ['model: gpt', 'invalid model "gpt"'],
+    ['allowedTools: Read', 'allowedTools must be a list of tool names'],
+    ['allowedTools: [Read, 1]', 'allowedTools must be a list of tool names'],
+    ['verifyCommand: "  "', 'verifyCommand must be a command line'],
+    ['verifyCommand: [npm, test]', 'verifyCommand must be a command line'],
+    ['reviewPolicy: auto', 'reviewPolicy must be a mapping'],
+  ])('rejects %j', (frontMatter, error) => {
+    expect(() => parseRepoDefaults(frontMatter)).toThrow(error);
+  });
+});
@@ -0,0 +1,78 @@
+import { parse } from 'yaml';
+import { ClaudeModel } from '../policy/policy.types';
+
+// Instruction files read from the root of the directory a task runs in
+export const REPO_INSTRUCTIONS_FILE = '.24hours/instructions.md';
+export const CLAUDE_MD_FILE = 'CLAUDE.md';
+
+/**
+ * Per-repository defaults, declared in the front-matter of the instructions file
+ */
+export interface RepoDefaults {
+  model?: ClaudeModel; // Used instead of the Model setting
+  reviewPolicy?: unknown; // Used instead of the Review Policy setting (validated by ReviewPolicyService)
+  allowedTools?: string[]; // Built-in tools available to the agent; MCP tools are not affected
+  verifyCommand?: string; // Shell command that must pass before a run counts as successful
+}
+
+export interface RepoInstructions {
+  file: string; // Path relative to the repository root
+  content: string;
+}
+
+/**
+ * Instructions and defaults of the repository a task runs in
+ */
+export interface RepoConfig extends RepoDefaults {
+  dir?: string;
+  instructions: RepoInstructions[]; // In the order they are added to the system prompt
+  error?: string; // Invalid front-matter: its defaults are ignored
+}
+
+const MODELS: ClaudeModel[] = ['opus', 'sonnet', 'haiku'];
+
+// A "---" delimited YAML block at the start of the file
+const FRONT_MATTER_PATTERN = /^\s*---\r?\n([\s\S]*?)\r?\n---[^\S\r\n]*(?:\r?\n|$)/;
+
+/**
+ * Split an instructions file into its front-matter (null if none) and body
+ */
+export function splitFrontMatter(text: string): { frontMatter: string | null; body: string } {
+  const match = FRONT_MATTER_PATTERN.exec(text);
+  return match
+    ? { frontMatter: match[1], body: text.slice(match[0].length) }
+    : { frontMatter: null, body: text };
+}
+
+/**
+ * Validate the defaults declared in the front-matter
+ */
+export function parseRepoDefaults(frontMatter: string): RepoDefaults {
+  const value = parse(frontMatter) ?? {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('front-matter must be a mapping');
+  }
+
+  if (value.model !== undefined && !MODELS.includes(value.model)) {
+    throw new Error(`invalid model "${value.model}"`);
+  }
+  if (
+    value.allowedTools !== undefined &&
+    (!Array.isArray(value.allowedTools) || value.allowedTools.some((tool: unknown) => typeof tool !== 'string'))
+  ) {
+    throw new Error('allowedTools must be a list of tool names');
+  }
+  if (value.verifyCommand !== undefined && (typeof value.verifyCommand !== 'string' || !value.verifyCommand.trim())) {
+    throw new Error('verifyCommand must be a command line');
+  }
+  if (value.reviewPolicy !== undefined && (typeof value.reviewPolicy !== 'object' || value.reviewPolicy === null)) {
+    throw new Error('reviewPolicy must be a mapping');
+  }
+
+  return {
+    model: value.model,
+    reviewPolicy: value.reviewPolicy,
+    allowedTools: value.allowedTools,
+    verifyCommand: value.verifyCommand?.trim(),
+  };
+}
@@ -0,0 +1,133 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LinearAttachment, LinearTask } from '../linear/linear.types';
+import { TaskSourceService } from '../task-source/task-source.service';
+
+// Per-task folders under the directory a task runs in: <dir>/.24hours/files/<identifier>/
+const TASK_FILES_DIR = path.join('.24hours', 'files');
+const INBOX_DIR = 'inbox';
+const OUTBOX_DIR = 'outbox';
+// Outbox files move here once attached, so they are not uploaded twice
+const DELIVERED_DIR = 'delivered';
+
+/**
+ * Folders a task exchanges files through, relative to its working directory
+ */
+export interface TaskFiles {
+  cwd: string;
+  inbox: string; // Files attached to the task, downloaded before each run
+  outbox: string; // Files the agent hands back, attached to the task after a successful run
+}
+
+/**
+ * Moves files between a task and its working directory: attachments are
+ * downloaded into the inbox before a run, and whatever the agent puts in the
+ * outbox is attached to the task once the run succeeds. The folders are
+ * ignored by git.
+ */
+@Injectable()
+export class TaskFilesService {
+  private readonly logger = new Logger(TaskFilesService.name);
+
+  constructor(private taskSources: TaskSourceService) {}
+
+  /**
+   * Folders of the task, without creating them (null without a working directory)
+   */
+  locate(task: LinearTask, cwd?: string): TaskFiles | null {
+    if (!cwd) {
+      return null;
+    }
+    const taskDir = path.join(TASK_FILES_DIR, task.identifier.replace(/[^\w.-]/g, '-'));
+    return { cwd, inbox: path.join(taskDir, INBOX_DIR), outbox: path.join(taskDir, OUTBOX_DIR) };
+  }
+
+  /**
+   * Create the task's folders and download its new attachments into the inbox
+   * @returns the folders and the names of the files downloaded now
+   */
+  async receive(task: LinearTask, cwd?: string): Promise<{ files: TaskFiles; received: string[] } | null> {
+    const files = this.locate(task, cwd);
+    if (!files) {
+      return null;
+    }
+
+    const filesRoot = path.join(files.cwd, TASK_FILES_DIR);
+    fs.mkdirSync(path.join(files.cwd, files.inbox), { recursive: true });
+    fs.mkdirSync(path.join(files.cwd, files.outbox), { recursive: true });
+    // Keep task files out of the agent's commits
+    if (!fs.existsSync(path.join(filesRoot, '.gitignore'))) {
+      fs.writeFileSync(path.join(filesRoot, '.gitignore'), '*\n');
+    }
+
+    let received: string[] = [];
+    try {
+      received = await this.taskSources.downloadAttachments(task.id, path.join(files.cwd, files.inbox));
+      if (received.length > 0) {
+        this.logger.log(`Downloaded ${received.length} file(s) for ${task.identifier}`);
+      }
+    } catch (error) {
+      this.logger.warn(`Could not download attachments of ${task.identifier}: ${error.message}`);
+    }
+    return { files, received };
+  }
+
+  /**
+   * Names of the files in a folder (hidden files and subfolders are skipped)
+   */
+  list(files: TaskFiles, folder: 'inbox' | 'outbox'): string[] {
+    const dir = path.join(files.cwd, files[folder]);
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(dir, { withFileTypes: true })
+      .filter((entry) => entry.isFile() && !entry.name.startsWith('.'))
+      .map((entry) => entry.name)
+      .sort();
+  }
+
+  /**
+   * Attach the outbox files to the task. Attached files move out of the
+   * outbox; the rest stay for the next run.
+   * @returns a Markdown section for the completion comment ('' if none)
+   */
+  async deliver(task: LinearTask, files: TaskFiles): Promise<string> {
+    const names = this.list(files, 'outbox');
+    if (names.length === 0) {
+      return '';
+    }
+
+    const outbox = path.join(files.cwd, files.outbox);
+    const attached = await this.upload(task, names.map((name) => path.join(outbox, name)));
+
+    // The source cannot store files: point at them in the workspace
+    if (attached === null) {
+      return `**Files:**\n${names.map((name) => `- \`${path.join(files.outbox, name)}\``).join('\n')}`;
+    }
+
+    const delivered = path.join(path.dirname(outbox), DELIVERED_DIR);
+    fs.mkdirSync(delivered, { recursive: true });
+    const lines = names.map((name) => {
+      const attachment = attached.find((a) => a.title === name);
+      if (!attachment) {
+        return `- ${name} (upload failed, kept in \`${files.outbox}\`)`;
+      }
+      fs.renameSync(path.join(outbox, name), path.join(delivered, name));
+      return `- [${name}](${attachment.url})`;
+    });
+
+    this.logger.log(`Attached ${attached.length} of ${names.length} file(s) to ${task.identifier}`);
+    return `**Attachments:**\n${lines.join('\n')}`;
+  }
+
+  private async upload(task: LinearTask, paths: string[]): Promise<LinearAttachment[] | null> {
+    try {
+      return await this.taskSources.uploadAttachments(task.id, paths);
+    } catch (error) {
+      this.logger.warn(`Could not upload files of ${task.identifier}: ${error.message}`);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,11 @@
+import { Module, Global } from '@nestjs/common';
+import { WorkspaceService } from './workspace.service';
+import { RepoConfigService } from './repo-config.service';
+import { TaskFilesService } from './task-files.service';
+
+@Global()
+@Module({
+  providers: [WorkspaceService, RepoConfigService, TaskFilesService],
+  exports: [WorkspaceService, RepoConfigService, TaskFilesService],
+})
+export class WorkspaceModule {}
@@ -0,0 +1,200 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LinearTask, TaskStatus } from '../linear/linear.types';
+import { SettingsProviderService } from '../settings/settings-provider.service';
+import { SessionStoreService } from '../monitor/session-store.service';
+import { TaskSourceService } from '../task-source/task-source.service';
+import { TaskClaimService } from '../claim/task-claim.service';
+
+const execFileAsync = promisify(execFile);
+
+// Worktrees live under <workspace>/.worktrees/<identifier>
+const WORKTREE_DIR = '.worktrees';
+
+const SWEEP_INTERVAL_NAME = 'worktree-sweep';
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface TaskWorkspace {
+  cwd?: string; // Working directory of the agent
+  branch?: string; // Set when the task runs in its own worktree
+}
+
+/**
+ * Per-task git worktrees, so concurrent tasks don't edit the same checkout.
+ *
+ * In worktree mode 'per_task' every task gets a branch named after its
+ * identifier, checked out under the workspace. Feedback and retry runs reuse
+ * it (Claude sessions are stored per working directory). The worktree is
+ * removed once the task is Done or Canceled.
+ */
+@Injectable()
+export class WorkspaceService implements OnModuleInit {
+  private readonly logger = new Logger(WorkspaceService.name);
+  // Git commands on the shared repository run one at a time
+  private gitQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private settingsProvider: SettingsProviderService,
+    private sessionStore: SessionStoreService,
+    private taskSources: TaskSourceService,
+    private taskClaims: TaskClaimService,
+    private schedulerRegistry: SchedulerRegistry,
+  ) {}
+
+  onModuleInit() {
+    // Catch status changes made outside this service (e.g. Done in Linear)
+    const interval = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.schedulerRegistry.addInterval(SWEEP_INTERVAL_NAME, interval);
+  }
+
+  /**
+   * Working directory for a run of the task: its worktree (created on first
+   * use) in 'per_task' mode, the workspace path otherwise
+   */
+  async prepare(task: LinearTask): Promise<TaskWorkspace> {
+    const workspacePath = this.settingsProvider.getWorkspacePath();
+    if (!workspacePath || !this.settingsProvider.useWorktrees()) {
+      return { cwd: workspacePath };
+    }
+
+    const existing = this.sessionStore.getWorktree(task.id);
+    if (existing && fs.existsSync(existing.path)) {
+      return { cwd: existing.path, branch: existing.branch };
+    }
+
+    const branch = existing?.branch ?? this.getBranchName(task);
+    const worktreePath = path.join(workspacePath, WORKTREE_DIR, branch);
+
+    await this.excludeWorktreeDir(workspacePath);
+    // Drop registrations of worktree directories deleted by hand
+    await this.git(workspacePath, ['worktree', 'prune']);
+
+    const branchExists = await this.git(workspacePath, [
+      'rev-parse',
+      '--verify',
+      '--quiet',
+      `refs/heads/${branch}`,
+    ]).then(
+      () => true,
+      () => false,
+    );
+    await this.git(
+      workspacePath,
+      branchExists
+        ? ['worktree', 'add', worktreePath, branch]
+        : ['worktree', 'add', '-b', branch, worktreePath],
+    );
+
+    this.sessionStore.saveWorktree(task.id, task.identifier, task.title, worktreePath, branch);
+    this.logger.log(`Created worktree for ${task.identifier} on branch ${branch}`);
+
+    return { cwd: worktreePath, branch };
+  }
+
+  /**
+   * Where a run of the task works, without creating anything. A worktree
+   * that does not exist yet is checked out from the workspace, so the
+   * workspace path stands in for it.
+   */
+  locate(task: LinearTask): TaskWorkspace {
+    const workspacePath = this.settingsProvider.getWorkspacePath();
+    if (!workspacePath || !this.settingsProvider.useWorktrees()) {
+      return { cwd: workspacePath };
+    }
+
+    const existing = this.sessionStore.getWorktree(task.id);
+    if (existing && fs.existsSync(existing.path)) {
+      return { cwd: existing.path, branch: existing.branch };
+    }
+    return { cwd: workspacePath, branch: existing?.branch ?? this.getBranchName(task) };
+  }
+
+  /**
+   * Remove the worktree of a finished task. Done keeps the branch (it holds
+   * the delivered work) and refuses to drop uncommitted changes; Canceled
+   * discards both.
+   */
+  async release(taskId: string, status: string): Promise<void> {
+    const worktree = this.sessionStore.getWorktree(taskId);
+    const workspacePath = this.settingsProvider.getWorkspacePath();
+    if (!worktree || !workspacePath) return;
+
+    // Still claimed: a run is in progress or shutting down
+    if (await this.taskClaims.getClaim(taskId)) return;
+
+    const canceled = status === TaskStatus.CANCELED;
+    try {
+      if (fs.existsSync(worktree.path)) {
+        await this.git(
+          workspacePath,
+          canceled
+            ? ['worktree', 'remove', '--force', worktree.path]
+            : ['worktree', 'remove', worktree.path],
+        );
+      } else {
+        await this.git(workspacePath, ['worktree', 'prune']);
+      }
+      if (canceled) {
+        await this.git(workspacePath, ['branch', '-D', worktree.branch]);
+      }
+
+      this.sessionStore.clearWorktree(taskId);
+      this.logger.log(`Removed worktree of ${worktree.identifier} (${status})`);
+    } catch (error) {
+      this.logger.warn(`Could not remove worktree of ${worktree.identifier}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Remove the worktrees of all tasks that are Done or Canceled
+   */
+  async sweep(): Promise<void> {
+    for (const worktree of this.sessionStore.getWorktrees()) {
+      try {
+        const task = await this.taskSources.getTask(worktree.linearTaskId);
+        const status = task?.state?.name;
+        if (status === TaskStatus.DONE || status === TaskStatus.CANCELED) {
+          await this.release(worktree.linearTaskId, status);
+        }
+      } catch (error) {
+        this.logger.warn(`Worktree sweep failed for ${worktree.identifier}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Branch of the task's worktree: its identifier, made safe for git
+   */
+  private getBranchName(task: LinearTask): string {
+    return task.identifier.replace(/[^\w.-]/g, '-');
+  }
+
+  /**
+   * Keep the worktree directory out of the main checkout's `git status`
+   */
+  private async excludeWorktreeDir(repoPath: string): Promise<void> {
+    const excludePath = path.resolve(
+      repoPath,
+      await this.git(repoPath, ['rev-parse', '--git-path', 'info/exclude']),
+    );
+    const entry = `/${WORKTREE_DIR}/`;
+    const content = fs.existsSync(excludePath) ? fs.readFileSync(excludePath, 'utf8') : '';
+    if (!content.split('\n').includes(entry)) {
+      fs.mkdirSync(path.dirname(excludePath), { recursive: true });
+      fs.appendFileSync(excludePath, `${content && !content.endsWith('\n') ? '\n' : ''}${entry}\n`);
+    }
+  }
+
+  /**
+   * Run a git command in the repository, serialized with the other git calls
+   */
+  private git(cwd: string, args: string[]): Promise<string> {
+    const run = this.gitQueue.then(() => execFileAsync('git', args, { cwd }));
+    this.gitQueue = run.catch(() => undefined);
+    return run.then(({ stdout }) => stdout.trim());
+  }
+}